@@ -0,0 +1,246 @@
+import type { DownloadData } from "./DownloadData";
+
+/**
+ * A download whose bandwidth is limited
+ */
+export interface ThrottledDownload {
+  /**
+   * The data of the download, used to read the received bytes and status
+   */
+  data: DownloadData;
+  /**
+   * Pauses the DownloadItem without marking it as paused by the user
+   */
+  pause: () => void;
+  /**
+   * Resumes the DownloadItem without marking it as resumed by the user
+   */
+  resume: () => void;
+  /**
+   * The maximum download rate of this download. Not limited if not defined.
+   */
+  maxBytesPerSecond?: number;
+}
+
+interface BandwidthLimiterConstructorParams {
+  /**
+   * The maximum combined download rate of all downloads. Not limited if not defined.
+   */
+  maxBytesPerSecond?: number;
+  /**
+   * How often the received bytes are checked, in milliseconds
+   * @default 250
+   */
+  tickIntervalMs?: number;
+}
+
+interface TokenBucket {
+  /**
+   * The bytes that can still be received. Negative when the download has received more than its share.
+   */
+  tokens: number;
+}
+
+interface ThrottleState extends TokenBucket {
+  download: ThrottledDownload;
+  /**
+   * The received bytes at the last tick
+   */
+  lastReceivedBytes: number;
+  /**
+   * True if the download has been paused by the limiter
+   */
+  throttled: boolean;
+}
+
+/**
+ * Limits the download rate with a token bucket per download and one for all downloads.
+ * A download that has used up its tokens is paused until enough tokens have accumulated again.
+ */
+export class BandwidthLimiter {
+  private maxBytesPerSecond?: number;
+  private tickIntervalMs: number;
+  private downloads: Map<string, ThrottleState>;
+  private globalBucket: TokenBucket;
+  private timer?: NodeJS.Timeout;
+  private lastTick: number;
+
+  constructor(params: BandwidthLimiterConstructorParams = {}) {
+    this.maxBytesPerSecond = normalizeMaxBytesPerSecond(params.maxBytesPerSecond);
+    this.tickIntervalMs = params.tickIntervalMs || 250;
+    this.downloads = new Map();
+    this.globalBucket = { tokens: 0 };
+    this.lastTick = Date.now();
+  }
+
+  /**
+   * Starts limiting a download. Replaces the previous registration of the same download,
+   * such as when it has been restarted with a new DownloadItem.
+   */
+  add(download: ThrottledDownload) {
+    this.downloads.set(download.data.id, {
+      download: { ...download, maxBytesPerSecond: normalizeMaxBytesPerSecond(download.maxBytesPerSecond) },
+      tokens: 0,
+      lastReceivedBytes: getReceivedBytes(download.data),
+      throttled: false,
+    });
+
+    this.updateTimer();
+  }
+
+  /**
+   * Stops limiting a download
+   */
+  remove(id: string) {
+    this.downloads.delete(id);
+    this.updateTimer();
+  }
+
+  /**
+   * Changes the maximum combined download rate. Removes the limit if not defined.
+   */
+  setMaxBytesPerSecond(maxBytesPerSecond?: number) {
+    this.maxBytesPerSecond = normalizeMaxBytesPerSecond(maxBytesPerSecond);
+    this.globalBucket.tokens = 0;
+    this.updateTimer();
+  }
+
+  /**
+   * Changes the maximum download rate of a download. Removes the limit if not defined.
+   * Returns false if the download is not being tracked.
+   */
+  setDownloadMaxBytesPerSecond(id: string, maxBytesPerSecond?: number): boolean {
+    const state = this.downloads.get(id);
+
+    if (!state) {
+      return false;
+    }
+
+    state.download.maxBytesPerSecond = normalizeMaxBytesPerSecond(maxBytesPerSecond);
+    state.tokens = 0;
+    this.updateTimer();
+
+    return true;
+  }
+
+  /**
+   * Returns true if the download is currently paused by the limiter
+   */
+  isThrottled(id: string): boolean {
+    return this.downloads.get(id)?.throttled || false;
+  }
+
+  /**
+   * Returns true if any limit applies to the tracked downloads
+   */
+  private isLimiting() {
+    if (this.downloads.size === 0) {
+      return false;
+    }
+
+    return (
+      this.maxBytesPerSecond !== undefined ||
+      [...this.downloads.values()].some((state) => state.download.maxBytesPerSecond !== undefined)
+    );
+  }
+
+  private updateTimer() {
+    if (this.isLimiting()) {
+      if (!this.timer) {
+        this.lastTick = Date.now();
+        this.timer = setInterval(() => this.tick(), this.tickIntervalMs);
+        this.timer.unref?.();
+      }
+
+      return;
+    }
+
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    // Let go of the downloads that were paused when the limits were removed
+    for (const state of this.downloads.values()) {
+      this.release(state);
+    }
+  }
+
+  /**
+   * Refills the buckets, takes out the bytes received since the last tick,
+   * then pauses or resumes each download depending on the tokens left.
+   */
+  private tick() {
+    const now = Date.now();
+    const elapsedSecs = (now - this.lastTick) / 1000;
+    this.lastTick = now;
+
+    let totalReceived = 0;
+
+    for (const state of this.downloads.values()) {
+      const receivedBytes = getReceivedBytes(state.download.data);
+      // The received bytes go back to 0 when a download is restarted
+      const received = Math.max(receivedBytes - state.lastReceivedBytes, 0);
+      state.lastReceivedBytes = receivedBytes;
+      totalReceived += received;
+
+      refill(state, state.download.maxBytesPerSecond, elapsedSecs, received);
+    }
+
+    refill(this.globalBucket, this.maxBytesPerSecond, elapsedSecs, totalReceived);
+
+    for (const state of this.downloads.values()) {
+      const { data, maxBytesPerSecond } = state.download;
+      const canRun =
+        (maxBytesPerSecond === undefined || state.tokens >= 0) &&
+        (this.maxBytesPerSecond === undefined || this.globalBucket.tokens >= 0);
+
+      if (canRun) {
+        this.release(state);
+      } else if (data.status === "progressing" && !data.item.isPaused()) {
+        state.throttled = true;
+        state.download.pause();
+      }
+    }
+  }
+
+  /**
+   * Resumes a download that was paused by the limiter, unless it has since been paused by the user
+   */
+  private release(state: ThrottleState) {
+    if (!state.throttled) {
+      return;
+    }
+
+    state.throttled = false;
+
+    if (state.download.data.status === "progressing") {
+      state.download.resume();
+    }
+  }
+}
+
+/**
+ * Adds the tokens accumulated over the elapsed time, up to one second's worth,
+ * and takes out the bytes that have been received
+ */
+function refill(bucket: TokenBucket, maxBytesPerSecond: number | undefined, elapsedSecs: number, received: number) {
+  if (maxBytesPerSecond === undefined) {
+    bucket.tokens = 0;
+    return;
+  }
+
+  bucket.tokens = Math.min(bucket.tokens + maxBytesPerSecond * elapsedSecs, maxBytesPerSecond) - received;
+}
+
+function getReceivedBytes(data: DownloadData) {
+  return data.item.getReceivedBytes?.() || 0;
+}
+
+function normalizeMaxBytesPerSecond(maxBytesPerSecond?: number) {
+  if (maxBytesPerSecond === undefined || maxBytesPerSecond === null || maxBytesPerSecond <= 0) {
+    return undefined;
+  }
+
+  return maxBytesPerSecond;
+}
@@ -1,101 +1,321 @@
 import type { DownloadData } from "./DownloadData";
-import type { DebugLoggerFn, DownloadManagerCallbacks } from "./types";
+import { type DownloadStatus, getDownloadPhase } from "./DownloadStatus";
+import { CallbackError, type DownloadManagerError } from "./errors";
+import { type LogDetails, normalizeLogger } from "./logging";
+import type {
+  DebugLoggerFn,
+  DownloadEventDispatchFn,
+  DownloadLogger,
+  DownloadManagerCallbacks,
+  DownloadManagerEvents,
+  ProgressThrottleOptions,
+} from "./types";
 
 /**
- * Wraps around the callbacks to handle errors and logging
+ * Wraps around the callbacks to handle errors and logging.
+ * Each event is also forwarded to the manager-level listeners after the callback.
  */
 export class CallbackDispatcher {
-  protected logger: DebugLoggerFn;
+  protected logger: DownloadLogger;
+  protected dispatchEvent?: DownloadEventDispatchFn;
+  protected progressThrottle?: ProgressThrottleOptions;
+  /**
+   * The time, percent and bytes of the last progress update that was reported
+   */
+  private lastProgress?: { time: number; percentCompleted: number; receivedBytes: number };
+  /**
+   * True if a progress update was dropped by the throttle since the last one that was reported
+   */
+  private hasPendingProgress = false;
   callbacks: DownloadManagerCallbacks;
   downloadDataId: string;
 
-  constructor(downloadDataId: string, callbacks: DownloadManagerCallbacks, logger: (message: string) => void) {
+  constructor(
+    downloadDataId: string,
+    callbacks: DownloadManagerCallbacks,
+    logger: DownloadLogger | DebugLoggerFn,
+    dispatchEvent?: DownloadEventDispatchFn,
+    progressThrottle?: ProgressThrottleOptions,
+  ) {
     this.downloadDataId = downloadDataId;
     this.callbacks = callbacks;
-    this.logger = logger;
+    this.logger = normalizeLogger(logger);
+    this.dispatchEvent = dispatchEvent;
+    this.progressThrottle = progressThrottle;
   }
 
-  protected log(message: string) {
-    this.logger(`[${this.downloadDataId}] ${message}`);
+  protected log(message: string, details: LogDetails = {}) {
+    this.logger.log({ level: "debug", ...details, message, downloadId: this.downloadDataId });
+  }
+
+  /**
+   * Logs that a callback is being called
+   */
+  private logCallback(callback: keyof DownloadManagerCallbacks, message = `Calling ${callback}`) {
+    this.log(message, { event: "callback", fields: { callback } });
+  }
+
+  /**
+   * Logs an error thrown by a callback and passes it to onError as a `CallbackError`
+   */
+  private handleCallbackError(callback: keyof DownloadManagerCallbacks, error: unknown, downloadData: DownloadData) {
+    this.log(`Error during ${callback}: ${error}`, { level: "error", event: "callback-error", fields: { callback } });
+    this.handleError(
+      new CallbackError({ callback, phase: getDownloadPhase(downloadData.status), cause: error }),
+      downloadData,
+    );
+  }
+
+  protected emit<E extends keyof DownloadManagerEvents>(event: E, ...args: DownloadManagerEvents[E]) {
+    if (!this.dispatchEvent) {
+      return;
+    }
+
+    try {
+      this.dispatchEvent(event, ...args);
+    } catch (e) {
+      this.log(`Error during ${event} listener: ${e}`, {
+        level: "error",
+        event: "listener-error",
+        fields: { listener: event },
+      });
+
+      if (event !== "error") {
+        const downloadData = args[0] as DownloadData;
+
+        this.handleError(
+          new CallbackError({
+            callback: event,
+            phase: getDownloadPhase(downloadData.status),
+            cause: e,
+            listener: true,
+          }),
+          downloadData,
+        );
+      }
+    }
   }
 
   async onDownloadStarted(downloadData: DownloadData) {
     const { callbacks } = this;
 
     if (callbacks.onDownloadStarted) {
-      this.log("Calling onDownloadStarted");
+      this.logCallback("onDownloadStarted");
       try {
         await callbacks.onDownloadStarted(downloadData);
       } catch (e) {
-        this.log(`Error during onDownloadStarted: ${e}`);
-        this.handleError(e as Error);
+        this.handleCallbackError("onDownloadStarted", e, downloadData);
       }
     }
+
+    this.emit("started", downloadData);
   }
 
   async onDownloadCompleted(downloadData: DownloadData) {
     const { callbacks } = this;
     if (callbacks.onDownloadCompleted) {
-      this.log("Calling onDownloadCompleted");
+      this.logCallback("onDownloadCompleted");
 
       try {
         await callbacks.onDownloadCompleted(downloadData);
       } catch (e) {
-        this.log(`Error during onDownloadCompleted: ${e}`);
-        this.handleError(e as Error);
+        this.handleCallbackError("onDownloadCompleted", e, downloadData);
       }
     }
+
+    this.emit("completed", downloadData);
+  }
+
+  /**
+   * Returns true if the progress update should be reported, and records it as the last reported update
+   */
+  protected shouldReportProgress(downloadData: DownloadData) {
+    const { progressThrottle, lastProgress } = this;
+
+    if (!progressThrottle) {
+      return true;
+    }
+
+    const { minIntervalMs = 0, minPercentDelta = 0, minBytesDelta = 0 } = progressThrottle;
+    const time = Date.now();
+    const { percentCompleted } = downloadData;
+    const receivedBytes = minBytesDelta ? downloadData.item.getReceivedBytes() : 0;
+    // The percentage does not change when the size is unknown, so only the other minimums apply
+    const checkPercent = minPercentDelta > 0 && downloadData.item.getTotalBytes() > 0;
+
+    // The minimums are combined: the update is dropped if any of them has not been reached
+    if (
+      lastProgress &&
+      (time - lastProgress.time < minIntervalMs ||
+        (checkPercent && Math.abs(percentCompleted - lastProgress.percentCompleted) < minPercentDelta) ||
+        receivedBytes - lastProgress.receivedBytes < minBytesDelta)
+    ) {
+      return false;
+    }
+
+    this.lastProgress = { time, percentCompleted, receivedBytes };
+
+    return true;
   }
 
   async onDownloadProgress(downloadData: DownloadData) {
     const { callbacks } = this;
 
+    if (!this.shouldReportProgress(downloadData)) {
+      this.hasPendingProgress = true;
+      return;
+    }
+
+    this.hasPendingProgress = false;
+
     if (callbacks.onDownloadProgress) {
-      this.log(` Calling onDownloadProgress ${downloadData.percentCompleted}%`);
+      this.logCallback("onDownloadProgress", ` Calling onDownloadProgress ${downloadData.percentCompleted}%`);
 
       try {
         await callbacks.onDownloadProgress(downloadData);
       } catch (e) {
-        this.log(`Error during onDownloadProgress: ${e}`);
-        this.handleError(e as Error);
+        this.handleCallbackError("onDownloadProgress", e, downloadData);
       }
     }
+
+    this.emit("progress", downloadData);
+  }
+
+  /**
+   * Reports the last progress update that was dropped by the throttle, if any.
+   * Called before the download completes so the final progress is always reported.
+   */
+  async flushProgress(downloadData: DownloadData) {
+    if (!this.hasPendingProgress) {
+      return;
+    }
+
+    this.lastProgress = undefined;
+    await this.onDownloadProgress(downloadData);
   }
 
   async onDownloadCancelled(downloadData: DownloadData) {
     const { callbacks } = this;
 
     if (callbacks.onDownloadCancelled) {
-      this.log("Calling onDownloadCancelled");
+      this.logCallback("onDownloadCancelled");
 
       try {
         await callbacks.onDownloadCancelled(downloadData);
       } catch (e) {
-        this.log(`Error during onDownloadCancelled: ${e}`);
-        this.handleError(e as Error);
+        this.handleCallbackError("onDownloadCancelled", e, downloadData);
       }
     }
+
+    this.emit("cancelled", downloadData);
+  }
+
+  async onDownloadSkipped(downloadData: DownloadData) {
+    const { callbacks } = this;
+
+    if (callbacks.onDownloadSkipped) {
+      this.logCallback("onDownloadSkipped");
+
+      try {
+        await callbacks.onDownloadSkipped(downloadData);
+      } catch (e) {
+        this.handleCallbackError("onDownloadSkipped", e, downloadData);
+      }
+    }
+
+    this.emit("skipped", downloadData);
   }
 
   async onDownloadInterrupted(downloadData: DownloadData) {
     const { callbacks } = this;
 
     if (callbacks.onDownloadInterrupted) {
-      this.log("Calling onDownloadInterrupted");
+      this.logCallback("onDownloadInterrupted");
       try {
         await callbacks.onDownloadInterrupted(downloadData);
       } catch (e) {
-        this.log(`Error during onDownloadInterrupted: ${e}`);
-        this.handleError(e as Error);
+        this.handleCallbackError("onDownloadInterrupted", e, downloadData);
       }
     }
+
+    this.emit("interrupted", downloadData);
   }
 
-  handleError(error: Error, downloadData?: DownloadData) {
+  async onDownloadRetrying(downloadData: DownloadData) {
     const { callbacks } = this;
 
+    if (callbacks.onDownloadRetrying) {
+      this.logCallback("onDownloadRetrying", `Calling onDownloadRetrying (attempt ${downloadData.retryAttempt})`);
+      try {
+        await callbacks.onDownloadRetrying(downloadData);
+      } catch (e) {
+        this.handleCallbackError("onDownloadRetrying", e, downloadData);
+      }
+    }
+
+    this.emit("retrying", downloadData);
+  }
+
+  async onPostProcessingProgress(downloadData: DownloadData) {
+    const { callbacks } = this;
+
+    if (callbacks.onPostProcessingProgress) {
+      try {
+        await callbacks.onPostProcessingProgress(downloadData);
+      } catch (e) {
+        this.handleCallbackError("onPostProcessingProgress", e, downloadData);
+      }
+    }
+
+    this.emit("postProcessingProgress", downloadData);
+  }
+
+  async onLowDiskSpace(downloadData: DownloadData, freeBytes: number) {
+    const { callbacks } = this;
+
+    if (callbacks.onLowDiskSpace) {
+      this.logCallback("onLowDiskSpace", `Calling onLowDiskSpace (${freeBytes} bytes free)`);
+
+      try {
+        await callbacks.onLowDiskSpace(downloadData, freeBytes);
+      } catch (e) {
+        this.handleCallbackError("onLowDiskSpace", e, downloadData);
+      }
+    }
+
+    this.emit("lowDiskSpace", downloadData, freeBytes);
+  }
+
+  async onStatusChanged(downloadData: DownloadData, prev: DownloadStatus, next: DownloadStatus) {
+    const { callbacks } = this;
+
+    if (callbacks.onStatusChanged) {
+      this.logCallback("onStatusChanged", `Calling onStatusChanged (${prev} -> ${next})`);
+      try {
+        await callbacks.onStatusChanged(downloadData, prev, next);
+      } catch (e) {
+        this.handleCallbackError("onStatusChanged", e, downloadData);
+      }
+    }
+
+    this.emit("statusChanged", downloadData, prev, next);
+  }
+
+  /**
+   * Calls onError and emits the error. The error is also set as `DownloadData.error`.
+   */
+  handleError(error: DownloadManagerError, downloadData?: DownloadData) {
+    const { callbacks } = this;
+
+    if (downloadData) {
+      error.downloadId = error.downloadId || downloadData.id;
+      downloadData.error = error;
+    }
+
     if (callbacks.onError) {
       callbacks.onError(error, downloadData);
     }
+
+    this.emit("error", error, downloadData);
   }
 }
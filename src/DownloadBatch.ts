@@ -0,0 +1,141 @@
+import type { DownloadData } from "./DownloadData";
+import type {
+  DownloadBatchFileResult,
+  DownloadBatchOptions,
+  DownloadBatchProgress,
+  DownloadBatchResult,
+  DownloadConfig,
+} from "./types";
+import { generateRandomId } from "./utils";
+
+interface BatchFile {
+  url: string;
+  id?: string;
+  receivedBytes: number;
+  totalBytes: number;
+  result?: DownloadBatchFileResult;
+}
+
+/**
+ * Tracks the progress and results of the files in a batch started with `downloadBatch()`.
+ */
+export class DownloadBatch {
+  /**
+   * Generated id for the batch
+   */
+  id: string;
+  /**
+   * True if the batch was cancelled with `cancelBatch()`
+   */
+  cancelled: boolean;
+  private options: DownloadBatchOptions;
+  private files: BatchFile[];
+
+  constructor(configs: DownloadConfig[], options: DownloadBatchOptions = {}) {
+    this.id = generateRandomId();
+    this.cancelled = false;
+    this.options = options;
+    this.files = configs.map((config) => ({ url: config.url, receivedBytes: 0, totalBytes: 0 }));
+  }
+
+  /**
+   * Returns true if all files have ended
+   */
+  isFinished() {
+    return this.files.every((file) => file.result);
+  }
+
+  /**
+   * Returns true if the remaining files should be cancelled because of the failure policy
+   */
+  shouldCancelOnFailure() {
+    return (
+      this.options.failurePolicy === "cancel" &&
+      this.files.some((file) => file.result?.outcome === "interrupted" || file.result?.outcome === "failed")
+    );
+  }
+
+  /**
+   * Returns the ids of the downloads that have started and not ended yet
+   */
+  getDownloadIds() {
+    return this.files.filter((file) => file.id && !file.result).map((file) => file.id as string);
+  }
+
+  setDownloadId(index: number, id: string) {
+    this.files[index].id = id;
+  }
+
+  getProgress(): DownloadBatchProgress {
+    const receivedBytes = this.files.reduce((total, file) => total + file.receivedBytes, 0);
+    const totalBytes = this.files.reduce((total, file) => total + file.totalBytes, 0);
+
+    return {
+      batchId: this.id,
+      totalFiles: this.files.length,
+      finishedFiles: this.files.filter((file) => file.result).length,
+      completedFiles: this.files.filter((file) => file.result?.outcome === "completed").length,
+      receivedBytes,
+      totalBytes,
+      percentCompleted:
+        totalBytes > 0 ? Math.min(Number.parseFloat(((receivedBytes / totalBytes) * 100).toFixed(2)), 100) : 0,
+    };
+  }
+
+  /**
+   * Records the progress of a file and calls the batch progress callback
+   */
+  async updateProgress(index: number, data: DownloadData) {
+    const file = this.files[index];
+    const { item } = data;
+
+    file.receivedBytes = item.getReceivedBytes?.() || 0;
+    file.totalBytes = item.getTotalBytes?.() || 0;
+
+    await this.options.callbacks?.onBatchProgress?.(this.getProgress());
+  }
+
+  /**
+   * Records the result of a file, then calls the file callback, and the batch
+   * callback if it was the last file to end
+   */
+  async finishFile(index: number, result: Omit<DownloadBatchFileResult, "index" | "url">) {
+    const file = this.files[index];
+
+    if (file.result) {
+      return;
+    }
+
+    file.result = { index, url: file.url, ...result };
+
+    if (result.result) {
+      file.receivedBytes = result.result.receivedBytes;
+      file.totalBytes = result.result.totalBytes;
+    }
+
+    const { callbacks } = this.options;
+    const progress = this.getProgress();
+
+    await callbacks?.onFileFinished?.(file.result, progress);
+    await callbacks?.onBatchProgress?.(progress);
+
+    if (this.isFinished()) {
+      await callbacks?.onBatchCompleted?.(this.getResult());
+    }
+  }
+
+  getResult(): DownloadBatchResult {
+    const files = this.files.map((file) => file.result as DownloadBatchFileResult);
+    let outcome: DownloadBatchResult["outcome"] = "completed";
+
+    if (this.cancelled) {
+      outcome = "cancelled";
+    } else if (files.some((file) => file.outcome === "interrupted" || file.outcome === "failed")) {
+      outcome = "failed";
+    } else if (files.some((file) => file.outcome === "cancelled")) {
+      outcome = "cancelled";
+    }
+
+    return { batchId: this.id, outcome, files };
+  }
+}
@@ -1,4 +1,7 @@
 import type { DownloadItem, Event, WebContents } from "electron";
+import type { DownloadStatus } from "./DownloadStatus";
+import type { DownloadManagerError } from "./errors";
+import type { PostProcessingStepState } from "./types";
 import { generateRandomId } from "./utils";
 
 /**
@@ -14,6 +17,14 @@ export class DownloadData {
    * @see https://www.electronjs.org/docs/latest/api/download-item
    */
   item: DownloadItem;
+  /**
+   * The URL that was requested. Unlike `item.getURL()`, this is available while the download is queued.
+   */
+  url: string;
+  /**
+   * The tags defined in the download config. Used to find related downloads with `listDownloads()`.
+   */
+  tags: string[];
   /**
    * The Electron.WebContents
    * @see https://www.electronjs.org/docs/latest/api/web-contents
@@ -35,22 +46,75 @@ export class DownloadData {
    * using the save as dialog.
    */
   cancelledFromSaveAsDialog?: boolean;
+  /**
+   * If the download was cancelled, the reason why:
+   *
+   * - `save-dialog-dismissed`: The user closed the save dialog without choosing a location
+   * - `save-dialog-timeout`: No location was chosen within `saveDialogTimeoutMs`
+   * - `requested`: The download was cancelled with `cancelDownload()` or `item.cancel()`
+   */
+  cancellationReason?: "save-dialog-dismissed" | "save-dialog-timeout" | "requested";
+  /**
+   * If the download is being staged, or saved to the location chosen in the save dialog, the path the file
+   * is renamed to once it has completed. Until then, `item.getSavePath()` returns the path of the staging file.
+   */
+  finalSavePath?: string;
+  /**
+   * If the download was skipped because the file already exists, the path of the existing file
+   */
+  existingFilePath?: string;
+  /**
+   * The state of each post-processing step, in the order they run.
+   * Empty until the download has completed.
+   */
+  postProcessing: PostProcessingStepState[];
+  /**
+   * The path of the file after post-processing, if a step moved or extracted it
+   */
+  processedFilePath?: string;
   /**
    * The percentage of the download that has been completed
    */
   percentCompleted: number;
   /**
-   * The download rate in bytes per second.
+   * The download rate in bytes per second, smoothed by the rate estimator.
    */
   downloadRateBytesPerSecond: number;
+  /**
+   * The download rate in bytes per second since the previous progress update.
+   */
+  instantaneousDownloadRateBytesPerSecond: number;
   /**
    * The estimated time remaining in seconds.
    */
   estimatedTimeRemainingSeconds: number;
+  /**
+   * True once the rate has been measured for long enough for `estimatedTimeRemainingSeconds` to be reliable.
+   * Always false if the size of the file is unknown.
+   */
+  isEstimateReliable: boolean;
   /**
    * If the download was interrupted, the state in which it was interrupted from
    */
   interruptedVia?: "in-progress" | "completed";
+  /**
+   * The last error of the download, such as the `DownloadInterruptedError` of an interrupted download
+   * or the error passed to `onError`
+   */
+  error?: DownloadManagerError;
+  /**
+   * The priority of the download in the queue. Higher values are started first.
+   */
+  priority: number;
+  /**
+   * The lifecycle status of the download. Unlike the `isDownload*()` methods, this
+   * covers the states that the DownloadItem can't express, such as queued or verifying.
+   */
+  status: DownloadStatus;
+  /**
+   * The number of the current retry attempt. 0 if the download has not been retried.
+   */
+  retryAttempt: number;
 
   constructor() {
     this.id = generateRandomId();
@@ -58,10 +122,26 @@ export class DownloadData {
     this.percentCompleted = 0;
     this.cancelledFromSaveAsDialog = false;
     this.item = {} as DownloadItem;
+    this.url = "";
+    this.tags = [];
+    this.postProcessing = [];
     this.webContents = {} as WebContents;
     this.event = {} as Event;
     this.downloadRateBytesPerSecond = 0;
+    this.instantaneousDownloadRateBytesPerSecond = 0;
     this.estimatedTimeRemainingSeconds = 0;
+    this.isEstimateReliable = false;
+    this.priority = 0;
+    this.status = "pending";
+    this.retryAttempt = 0;
+  }
+
+  /**
+   * Returns true if the download is waiting in the queue for a free slot.
+   * The item is not available until the download starts.
+   */
+  isDownloadQueued() {
+    return this.status === "queued";
   }
 
   isDownloadInProgress() {
@@ -1,14 +1,117 @@
+import { existsSync } from "node:fs";
+import { rename, rm, unlink } from "node:fs/promises";
 import * as path from "node:path";
-import type { DownloadItem, Event, SaveDialogOptions, WebContents } from "electron";
+import {
+  BrowserWindow,
+  type DownloadItem,
+  type Event,
+  type SaveDialogOptions,
+  type Session,
+  type WebContents,
+  dialog,
+} from "electron";
+import UnusedFilename from "unused-filename";
+import type { BandwidthLimiter } from "./BandwidthLimiter";
 import { CallbackDispatcher } from "./CallbackDispatcher";
 import { DownloadData } from "./DownloadData";
-import type { DownloadConfig, DownloadManagerCallbacks } from "./types";
-import { calculateDownloadMetrics, determineFilePath } from "./utils";
+import { type DownloadStatus, isValidStatusTransition } from "./DownloadStatus";
+import { SlidingWindowRateEstimator } from "./RateEstimator";
+import { type LogDetails, normalizeLogger } from "./logging";
+import {
+  ChecksumMismatchError,
+  DownloadInterruptedError,
+  DownloadManagerError,
+  DownloadStartError,
+  FileExistsError,
+  InsufficientDiskSpaceError,
+  PathResolutionError,
+  type PolicyViolationError,
+  PostProcessingError,
+  SaveDialogError,
+  StagingError,
+  VerificationError,
+} from "./errors";
+import type {
+  DebugLoggerFn,
+  DiskSpaceOptions,
+  DownloadConfig,
+  DownloadEventDispatchFn,
+  DownloadIntegrityOptions,
+  DownloadLogger,
+  DownloadManagerCallbacks,
+  DownloadPhase,
+  DownloadPolicy,
+  DownloadRetryOptions,
+  DownloadStagingOptions,
+  FileConflictStrategy,
+  PostProcessingStep,
+  ProgressThrottleOptions,
+  RateEstimator,
+  SanitizeFilenameFn,
+} from "./types";
+import {
+  calculateDownloadMetrics,
+  calculateRetryDelay,
+  checkDownloadPolicy,
+  determineFilePath,
+  getFreeDiskSpace,
+  getStagingFilePath,
+  hashFile,
+  movePath,
+  parseIntegrity,
+  resolveConflictStrategy,
+  truncateUrl,
+} from "./utils";
+
+type WillDownloadHandler = (event: Event, item: DownloadItem, webContents: WebContents) => void;
 
 interface DownloadInitiatorConstructorParams {
-  debugLogger?: (message: string) => void;
+  debugLogger?: DebugLoggerFn;
+  /**
+   * Receives structured log entries. Used instead of `debugLogger` if defined.
+   */
+  logger?: DownloadLogger;
   onCleanup?: (id: DownloadData) => void;
   onDownloadInit?: (id: DownloadData) => void;
+  /**
+   * Existing data to use for the download, such as the placeholder
+   * created when the download was queued. A new one is created if not defined.
+   */
+  downloadData?: DownloadData;
+  /**
+   * Used to run the `will-download` registration when a download has to be restarted
+   * from scratch, so it does not race with other downloads being started.
+   */
+  scheduleWillDownload?: (task: () => Promise<string>) => Promise<string>;
+  /**
+   * Registers the handler for the `will-download` event of a restarted download,
+   * so it is routed to the download on a session attached to the manager
+   */
+  onceWillDownload?: (session: Session, url: string, handler: WillDownloadHandler) => void;
+  /**
+   * Forwards the download events to the manager-level listeners
+   */
+  dispatchEvent?: DownloadEventDispatchFn;
+  /**
+   * Limits the download rate of the download
+   */
+  bandwidthLimiter?: BandwidthLimiter;
+  /**
+   * The post-processing steps defined in the manager, which run before the steps of the download
+   */
+  postProcessing?: PostProcessingStep[];
+  /**
+   * The policy defined in the manager, which is checked along with the policy of the download
+   */
+  policy?: DownloadPolicy;
+  /**
+   * The progress throttle defined in the manager, used if the download does not define one
+   */
+  progressThrottle?: ProgressThrottleOptions;
+  /**
+   * Creates the rate estimator defined in the manager, used if the download does not define one
+   */
+  rateEstimator?: () => RateEstimator;
 }
 
 interface WillOnDownloadParams {
@@ -23,6 +126,10 @@ interface WillOnDownloadParams {
    * @see https://www.electronjs.org/docs/latest/api/dialog#dialogshowsavedialogbrowserwindow-options
    */
   saveDialogOptions?: SaveDialogOptions;
+  /**
+   * If defined, the download is cancelled if no location has been chosen in the save dialog in time
+   */
+  saveDialogTimeoutMs?: number;
   /**
    * The filename to save the file as. If not defined, the filename
    * from the server will be used.
@@ -40,10 +147,63 @@ interface WillOnDownloadParams {
    * @default false
    */
   overwrite?: boolean;
+  /**
+   * What to do if a file with the same name already exists
+   */
+  conflictStrategy?: FileConflictStrategy;
+  /**
+   * The filename to save the file as, with placeholders for the download's details
+   */
+  filenameTemplate?: string;
+  /**
+   * Makes the filename safe to save, or a function to sanitize it
+   */
+  sanitizeFilename?: boolean | SanitizeFilenameFn;
+  /**
+   * If defined, the file is written to a staging file and renamed to its final path once it has completed
+   */
+  staging?: boolean | DownloadStagingOptions;
+  /**
+   * Checks the free space on the volume the file is saved to, or false to skip the check
+   */
+  diskSpace?: false | DiskSpaceOptions;
+  /**
+   * If defined, interrupted downloads will be retried with an exponential backoff.
+   */
+  retry?: DownloadRetryOptions;
+  /**
+   * The full path to save the file to. Takes precedence over `directory` and `saveAsFilename`.
+   * Used when restoring a download that already has a partial file on disk.
+   */
+  savePath?: string;
+  /**
+   * If defined, the file is hashed after the download completes and compared against the expected digest.
+   */
+  integrity?: string | DownloadIntegrityOptions;
+  /**
+   * The maximum download rate of the download in bytes per second
+   */
+  maxBytesPerSecond?: number;
+  /**
+   * Steps to run once the download has completed and its integrity has been verified
+   */
+  postProcessing?: PostProcessingStep[];
+  /**
+   * Restricts what the download can fetch, checked along with the policy of the manager
+   */
+  policy?: DownloadPolicy;
+  /**
+   * Limits how often progress is reported, or false to report every update
+   */
+  progressThrottle?: false | ProgressThrottleOptions;
+  /**
+   * Creates the estimator of the download rate
+   */
+  rateEstimator?: () => RateEstimator;
 }
 
 export class DownloadInitiator {
-  protected logger: (message: string) => void;
+  protected logger: DownloadLogger;
   /**
    * The handler for the DownloadItem's `updated` event.
    */
@@ -60,6 +220,59 @@ export class DownloadInitiator {
    * When cleanup is called
    */
   private onCleanup: (data: DownloadData) => void;
+  /**
+   * Runs the `will-download` registration when restarting a download
+   */
+  private scheduleWillDownload: (task: () => Promise<string>) => Promise<string>;
+  /**
+   * Registers the handler for the `will-download` event when restarting a download
+   */
+  private onceWillDownload: (session: Session, url: string, handler: WillDownloadHandler) => void;
+  /**
+   * Forwards the download events to the manager-level listeners
+   */
+  private dispatchEvent?: DownloadEventDispatchFn;
+  /**
+   * Limits the download rate of the download
+   */
+  private bandwidthLimiter?: BandwidthLimiter;
+  /**
+   * The post-processing steps defined in the manager
+   */
+  private managerPostProcessing: PostProcessingStep[];
+  /**
+   * The policy defined in the manager
+   */
+  private managerPolicy?: DownloadPolicy;
+  /**
+   * The progress throttle defined in the manager
+   */
+  private managerProgressThrottle?: ProgressThrottleOptions;
+  /**
+   * Creates the rate estimator defined in the manager
+   */
+  private managerRateEstimator?: () => RateEstimator;
+  /**
+   * Estimates the download rate from the received bytes at each progress update
+   */
+  private rateEstimator: RateEstimator;
+  /**
+   * True if a file already existed at the final path of a staged download when the path was chosen,
+   * in which case the conflict strategy or the save dialog has already handled it
+   */
+  private finalSavePathExisted = false;
+  /**
+   * Restores the pause and resume methods of the item replaced to record the requests made before it is augmented
+   */
+  private restorePauseRequests?: () => void;
+  /**
+   * The timer for a scheduled retry
+   */
+  private retryTimeout?: NodeJS.Timeout;
+  /**
+   * The timer for checking the free disk space while the download runs
+   */
+  private diskSpaceInterval?: NodeJS.Timeout;
   /**
    * The callback dispatcher for handling download events.
    */
@@ -72,18 +285,28 @@ export class DownloadInitiator {
   private onUpdateHandler?: (_event: Event, state: "progressing" | "interrupted") => void;
 
   constructor(config: DownloadInitiatorConstructorParams) {
-    this.downloadData = new DownloadData();
-    this.logger = config.debugLogger || (() => {});
+    this.downloadData = config.downloadData || new DownloadData();
+    this.logger = normalizeLogger(config.logger || config.debugLogger);
     this.onItemUpdated = () => Promise.resolve();
     this.onItemDone = () => Promise.resolve();
     this.onCleanup = config.onCleanup || (() => {});
     this.onDownloadInit = config.onDownloadInit || (() => {});
+    this.scheduleWillDownload = config.scheduleWillDownload || ((task) => task());
+    this.onceWillDownload =
+      config.onceWillDownload || ((session, _url, handler) => session.once("will-download", handler));
+    this.dispatchEvent = config.dispatchEvent;
+    this.bandwidthLimiter = config.bandwidthLimiter;
+    this.managerPostProcessing = config.postProcessing || [];
+    this.managerPolicy = config.policy;
+    this.managerProgressThrottle = config.progressThrottle;
+    this.managerRateEstimator = config.rateEstimator;
+    this.rateEstimator = new SlidingWindowRateEstimator();
     this.config = {} as DownloadConfig;
-    this.callbackDispatcher = {} as CallbackDispatcher;
+    this.callbackDispatcher = new CallbackDispatcher(this.downloadData.id, {}, this.logger, this.dispatchEvent);
   }
 
-  protected log(message: string) {
-    this.logger(`[${this.downloadData.id}] ${message}`);
+  protected log(message: string, details: LogDetails = {}) {
+    this.logger.log({ level: "debug", ...details, message, downloadId: this.downloadData.id });
   }
 
   /**
@@ -100,16 +323,56 @@ export class DownloadInitiator {
     return this.downloadData;
   }
 
+  /**
+   * Moves the download to a new lifecycle status and calls the status changed callback.
+   * Transitions that the state machine does not allow are ignored.
+   */
+  protected setStatus(next: DownloadStatus) {
+    const prev = this.downloadData.status;
+
+    if (prev === next) {
+      return;
+    }
+
+    if (!isValidStatusTransition(prev, next)) {
+      this.log(`Ignoring invalid status transition: ${prev} -> ${next}`, { level: "warn" });
+      return;
+    }
+
+    this.log(`Status changed: ${prev} -> ${next}`, {
+      event: "status-changed",
+      fields: { previousStatus: prev, status: next },
+    });
+    this.downloadData.status = next;
+
+    if (prev === "progressing") {
+      // The time the download is not progressing does not count towards its rate
+      this.rateEstimator.pause();
+    }
+
+    this.callbackDispatcher.onStatusChanged(this.downloadData, prev, next);
+  }
+
   /**
    * Generates the handler that attaches to the session `will-download` event,
    * which will execute the workflows for handling a download.
    */
   generateOnWillDownload(downloadParams: WillOnDownloadParams) {
     this.config = downloadParams;
-    this.callbackDispatcher = new CallbackDispatcher(this.downloadData.id, downloadParams.callbacks, this.logger);
+    const { progressThrottle = this.managerProgressThrottle } = downloadParams;
+    this.callbackDispatcher = new CallbackDispatcher(
+      this.downloadData.id,
+      downloadParams.callbacks,
+      this.logger,
+      this.dispatchEvent,
+      progressThrottle || undefined,
+    );
+    const createRateEstimator = downloadParams.rateEstimator || this.managerRateEstimator;
+    this.rateEstimator = createRateEstimator ? createRateEstimator() : new SlidingWindowRateEstimator();
 
     return async (event: Event, item: DownloadItem, webContents: WebContents): Promise<void> => {
       item.pause();
+      this.recordPauseRequests(item);
       this.downloadData.item = item;
       this.downloadData.webContents = webContents;
       this.downloadData.event = event;
@@ -118,8 +381,20 @@ export class DownloadInitiator {
         this.onDownloadInit(this.downloadData);
       }
 
+      const violation = this.checkPolicy({
+        urls: item.getURLChain(),
+        mimeType: item.getMimeType(),
+        filename: item.getFilename(),
+        totalBytes: item.getTotalBytes(),
+      });
+
+      if (violation) {
+        this.rejectDownload(violation);
+        return;
+      }
+
       if (this.config.saveDialogOptions) {
-        this.initSaveAsInteractiveDownload();
+        await this.initSaveAsInteractiveDownload();
         return;
       }
 
@@ -129,70 +404,198 @@ export class DownloadInitiator {
 
   /**
    * Flow for handling a download that requires user interaction via a "Save as" dialog.
+   * The dialog suggests the given path, or the path from the config if not defined.
+   *
+   * Electron only uses the save path of the item if it is set synchronously in the `will-download` event,
+   * and shows its own dialog otherwise. So the item is saved to the staging file of the suggested path
+   * before the dialog is shown, and the file is moved to the chosen path once it has completed.
+   * Must be called synchronously from the `will-download` handler.
    */
-  protected initSaveAsInteractiveDownload() {
+  protected async initSaveAsInteractiveDownload(suggestedPath?: string) {
     this.log("Prompting save as dialog");
-    const { directory, overwrite, saveDialogOptions } = this.config;
-    const { item } = this.downloadData;
+    this.setStatus("awaiting-save-path");
 
-    const filePath = determineFilePath({ directory, item, overwrite });
+    const { directory, overwrite, sanitizeFilename, staging } = this.config;
+    const { item } = this.downloadData;
 
-    // This actually isn't what shows the save dialog
-    // If item.setSavePath() isn't called at all after some tiny period of time,
-    // then the save dialog will show up, and it will use the options we set it to here
-    item.setSaveDialogOptions({ ...saveDialogOptions, defaultPath: filePath });
+    let defaultPath: string;
 
-    // Because the download happens concurrently as the user is choosing a save location
-    // we need to wait for the save location to be chosen before we can start to fire out events
-    // there's no good way to listen for this, so we need to poll
-    const interval = setInterval(async () => {
-      // It seems to unpause sometimes in the dialog situation ???
-      // item.getState() value becomes 'completed' for small files
-      // before item.resume() is called
-      item.pause();
+    try {
+      defaultPath = suggestedPath || determineFilePath({ directory, item, overwrite, sanitizeFilename });
+      const stagingPath = getStagingFilePath(defaultPath, this.downloadData.id, staging || true);
 
-      if (item.getSavePath()) {
-        clearInterval(interval);
+      this.log(`Staging download to ${stagingPath} until a location is chosen`);
+      this.downloadData.finalSavePath = defaultPath;
+      item.setSavePath(stagingPath);
+    } catch (e) {
+      this.rejectDownload(this.getSavePathError(e));
+      return;
+    }
 
-        this.log(`User selected save path to ${item.getSavePath()}`);
-        this.log("Initiating download item handlers");
+    let result: { filePath?: string; timedOut?: boolean };
 
-        this.downloadData.resolvedFilename = path.basename(item.getSavePath());
+    try {
+      result = await this.promptSavePath(defaultPath);
+    } catch (e) {
+      this.log(`Save dialog failed: ${e}`, { level: "error" });
+      this.failDownload(new SaveDialogError(e));
+      return;
+    }
 
-        this.augmentDownloadItem(item);
-        await this.callbackDispatcher.onDownloadStarted(this.downloadData);
-        // If for some reason the above pause didn't work...
-        // We'll manually call the completed handler
-        if (this.downloadData.isDownloadCompleted()) {
-          await this.callbackDispatcher.onDownloadCompleted(this.downloadData);
-        } else {
-          this.onUpdateHandler = this.generateItemOnUpdated();
-          item.on("updated", this.onUpdateHandler);
-          item.once("done", this.generateItemOnDone());
-        }
+    const { filePath, timedOut } = result;
 
-        if (!item["_userInitiatedPause"]) {
-          item.resume();
-        }
-      } else if (this.downloadData.isDownloadCancelled()) {
-        clearInterval(interval);
-        this.log("Download was cancelled");
-        this.downloadData.cancelledFromSaveAsDialog = true;
-        await this.callbackDispatcher.onDownloadCancelled(this.downloadData);
+    // The download can also be cancelled by the application while the dialog is open
+    if (!filePath || this.downloadData.isDownloadCancelled()) {
+      if (this.downloadData.isDownloadCancelled()) {
+        this.log("Download was cancelled while the save dialog was open");
+        this.downloadData.cancellationReason = "requested";
       } else {
-        this.log("Waiting for save path to be chosen by user");
+        this.log(timedOut ? "Save dialog timed out" : "Save dialog was dismissed");
+        this.downloadData.cancellationReason = timedOut ? "save-dialog-timeout" : "save-dialog-dismissed";
+        this.stopRecordingPauseRequests();
+        item.cancel();
+      }
+
+      this.downloadData.cancelledFromSaveAsDialog = true;
+      this.setStatus("cancelled");
+      await this.callbackDispatcher.onDownloadCancelled(this.downloadData);
+      this.cleanup();
+      return;
+    }
+
+    this.log(`User selected save path to ${filePath}`, { fields: { savePath: filePath } });
+
+    const violation = this.checkPolicy({ filename: path.basename(filePath) });
+
+    if (violation) {
+      // The will-download event can't be rejected after the dialog, so the download is cancelled instead
+      this.failDownload(violation);
+      return;
+    }
+
+    // The dialog has asked the user to confirm replacing an existing file
+    this.downloadData.finalSavePath = filePath;
+    this.finalSavePathExisted = existsSync(filePath);
+
+    if (!(await this.checkDiskSpace())) {
+      return;
+    }
+
+    this.log("Initiating download item handlers", {
+      level: "info",
+      event: "download-started",
+      fields: { url: item.getURL(), savePath: filePath, totalBytes: item.getTotalBytes() },
+    });
+
+    this.downloadData.resolvedFilename = path.basename(filePath);
+
+    this.augmentDownloadItem(item);
+    this.setStatus(item["_userInitiatedPause"] ? "paused" : "progressing");
+    await this.callbackDispatcher.onDownloadStarted(this.downloadData);
+
+    // Small files may have finished before the handlers could be attached
+    if (this.downloadData.isDownloadCompleted()) {
+      await this.completeDownload();
+      this.cleanup();
+      return;
+    }
+
+    this.attachItemHandlers(item);
+    this.startDiskSpaceMonitor();
+
+    if (!item["_userInitiatedPause"]) {
+      item.resume();
+    }
+  }
+
+  /**
+   * Shows the save dialog, suggesting the given path.
+   * Resolves without a file path if the dialog was dismissed or timed out.
+   */
+  protected async promptSavePath(defaultPath: string): Promise<{ filePath?: string; timedOut?: boolean }> {
+    const { saveDialogOptions, saveDialogTimeoutMs } = this.config;
+    const window = BrowserWindow.fromWebContents(this.downloadData.webContents);
+    const options = { ...saveDialogOptions, defaultPath };
+
+    const result = (window ? dialog.showSaveDialog(window, options) : dialog.showSaveDialog(options)).then(
+      ({ canceled, filePath }) => ({ filePath: canceled ? undefined : filePath }),
+    );
+
+    if (!saveDialogTimeoutMs) {
+      return result;
+    }
+
+    let timeout: NodeJS.Timeout | undefined;
+
+    const timedOut = new Promise<{ timedOut: boolean }>((resolve) => {
+      timeout = setTimeout(() => resolve({ timedOut: true }), saveDialogTimeoutMs);
+    });
+
+    try {
+      const first = await Promise.race([result, timedOut]);
+
+      if ("timedOut" in first) {
+        // Electron can't close the dialog, so it stays open until the user closes it and its result is ignored
+        result.then(
+          ({ filePath }) => filePath && this.log(`Ignoring ${filePath}, chosen after the save dialog timed out`),
+          (e) => this.log(`Save dialog failed after it timed out: ${e}`, { level: "warn" }),
+        );
       }
-    }, 1000);
+
+      return first;
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  /**
+   * Records the pause and resume requests made before the item is augmented, such as while the save dialog
+   * is open, so the download is left paused once it has been initialized if the user paused it.
+   * The item stays paused until then, so a resume request only clears the recorded pause.
+   */
+  private recordPauseRequests(item: DownloadItem) {
+    item["_userInitiatedPause"] = false;
+
+    const { pause, resume } = item;
+
+    item.pause = () => {
+      item["_userInitiatedPause"] = true;
+      pause.call(item);
+    };
+
+    item.resume = () => {
+      item["_userInitiatedPause"] = false;
+    };
+
+    this.restorePauseRequests = () => {
+      item.pause = pause;
+      item.resume = resume;
+    };
+  }
+
+  /**
+   * Restores the pause and resume methods of the item if the requests made before it is augmented are still recorded
+   */
+  private stopRecordingPauseRequests() {
+    if (this.restorePauseRequests) {
+      this.restorePauseRequests();
+      this.restorePauseRequests = undefined;
+    }
   }
 
   private augmentDownloadItem(item: DownloadItem) {
     // This covers if the user manually pauses the download
     // before we have set up the event listeners on the item
-    item["_userInitiatedPause"] = false;
+    if (this.restorePauseRequests) {
+      this.stopRecordingPauseRequests();
+    } else {
+      item["_userInitiatedPause"] = false;
+    }
 
     const oldPause = item.pause.bind(item);
     item.pause = () => {
       item["_userInitiatedPause"] = true;
+      this.setStatus("paused");
 
       if (this.onUpdateHandler) {
         // Don't fire progress updates in a paused state
@@ -211,40 +614,356 @@ export class DownloadInitiator {
         item.on("updated", this.onUpdateHandler);
       }
 
+      this.setStatus("progressing");
       oldResume();
     };
+
+    const oldCancel = item.cancel.bind(item);
+
+    item.cancel = () => {
+      if (this.cancelPendingRetry()) {
+        return;
+      }
+
+      oldCancel();
+    };
+
+    // The limiter pauses and resumes the item without it counting as a user pause
+    this.bandwidthLimiter?.add({
+      data: this.downloadData,
+      pause: oldPause,
+      resume: oldResume,
+      maxBytesPerSecond: this.config.maxBytesPerSecond,
+    });
+  }
+
+  /**
+   * Attaches the handlers for the DownloadItem's `updated` and `done` events.
+   */
+  private attachItemHandlers(item: DownloadItem) {
+    this.onUpdateHandler = this.generateItemOnUpdated();
+    item.on("updated", this.onUpdateHandler);
+    this.onItemDone = this.generateItemOnDone();
+    item.once("done", this.onItemDone);
+  }
+
+  /**
+   * Removes the handlers for the DownloadItem's `updated` and `done` events.
+   */
+  private detachItemHandlers(item: DownloadItem) {
+    this.stopRecordingPauseRequests();
+
+    if (this.onUpdateHandler) {
+      item.removeListener("updated", this.onUpdateHandler);
+      this.onUpdateHandler = undefined;
+    }
+
+    item.removeListener("done", this.onItemDone);
   }
 
   /**
    * Flow for handling a download that doesn't require user interaction.
    */
   protected async initNonInteractiveDownload() {
-    const { directory, saveAsFilename, overwrite } = this.config;
+    const { directory, saveAsFilename, filenameTemplate, overwrite, conflictStrategy, sanitizeFilename, savePath } =
+      this.config;
     const { item } = this.downloadData;
 
-    const filePath = determineFilePath({ directory, saveAsFilename, item, overwrite });
+    let filePath: string;
+
+    try {
+      filePath =
+        savePath ||
+        determineFilePath({
+          directory,
+          saveAsFilename,
+          filenameTemplate,
+          item,
+          id: this.downloadData.id,
+          overwrite,
+          conflictStrategy,
+          sanitizeFilename,
+        });
+    } catch (e) {
+      this.rejectDownload(this.getSavePathError(e));
+      return;
+    }
+
+    // A restored download resumes into its own partial file, so it is not a conflict
+    if (!savePath) {
+      const strategy = resolveConflictStrategy({ conflictStrategy, overwrite, saveAsFilename });
+
+      if ((strategy === "skip" || strategy === "error" || strategy === "prompt") && existsSync(filePath)) {
+        await this.handleFileConflict(strategy, filePath);
+        return;
+      }
+    }
+
+    // The filename may differ from the one sent by the server, such as with saveAsFilename or a template
+    const violation = this.checkPolicy({ filename: path.basename(filePath) });
+
+    if (violation) {
+      this.rejectDownload(violation);
+      return;
+    }
+
+    this.log(`Setting save path to ${filePath}`, { fields: { savePath: filePath } });
 
-    this.log(`Setting save path to ${filePath}`);
-    item.setSavePath(filePath);
-    this.log("Initiating download item handlers");
+    try {
+      this.setSavePath(filePath);
+    } catch (e) {
+      this.rejectDownload(this.getSavePathError(e));
+      return;
+    }
+
+    // The will-download event can't be rejected after this, so the download is cancelled instead
+    if (!(await this.checkDiskSpace())) {
+      return;
+    }
+
+    this.log("Initiating download item handlers", {
+      level: "info",
+      event: "download-started",
+      fields: { url: item.getURL(), savePath: filePath, totalBytes: item.getTotalBytes() },
+    });
 
     this.downloadData.resolvedFilename = path.basename(filePath);
 
     this.augmentDownloadItem(item);
+    this.setStatus(item["_userInitiatedPause"] ? "paused" : "progressing");
     await this.callbackDispatcher.onDownloadStarted(this.downloadData);
-    this.onUpdateHandler = this.generateItemOnUpdated();
-    item.on("updated", this.onUpdateHandler);
-    item.once("done", this.generateItemOnDone());
+    this.attachItemHandlers(item);
+    this.startDiskSpaceMonitor();
 
     if (!item["_userInitiatedPause"]) {
       item.resume();
     }
   }
 
+  /**
+   * Sets the path of the DownloadItem. When staging, the item is saved to the staging file instead
+   * and the path is kept as `DownloadData.finalSavePath`. A restored download already saves to its staging file.
+   */
+  protected setSavePath(filePath: string) {
+    const { staging, savePath } = this.config;
+
+    if (staging && !savePath) {
+      const stagingPath = getStagingFilePath(filePath, this.downloadData.id, staging);
+
+      this.log(`Staging download to ${stagingPath}`);
+      this.downloadData.finalSavePath = filePath;
+      this.finalSavePathExisted = existsSync(filePath);
+      this.downloadData.item.setSavePath(stagingPath);
+      return;
+    }
+
+    this.downloadData.item.setSavePath(filePath);
+  }
+
+  /**
+   * Checks that the remaining size of the file, plus the safety margin, fits on the volume it is saved to.
+   * If it doesn't, the download is cancelled and the error callback is called with an `InsufficientDiskSpaceError`.
+   * Returns true if the download can start, including when the size or free space is unknown.
+   */
+  protected async checkDiskSpace(): Promise<boolean> {
+    const { diskSpace = {} } = this.config;
+    const { item } = this.downloadData;
+    const totalBytes = item.getTotalBytes();
+
+    if (diskSpace === false || !totalBytes) {
+      return true;
+    }
+
+    const directory = path.dirname(item.getSavePath());
+    const freeBytes = await getFreeDiskSpace(directory);
+
+    if (freeBytes === undefined) {
+      this.log(`Unable to determine the free space in ${directory}`, { level: "warn" });
+      return true;
+    }
+
+    const requiredBytes = totalBytes - item.getReceivedBytes() + (diskSpace.safetyMarginBytes || 0);
+
+    if (freeBytes >= requiredBytes) {
+      return true;
+    }
+
+    this.log(`Not enough free space in ${directory}: ${requiredBytes} bytes needed, ${freeBytes} bytes free`, {
+      level: "warn",
+      event: "insufficient-disk-space",
+      fields: { directory, requiredBytes, freeBytes },
+    });
+    this.failDownload(new InsufficientDiskSpaceError({ requiredBytes, freeBytes, directory }));
+
+    return false;
+  }
+
+  /**
+   * Checks the details of the download against the policy of the manager, then the policy of the download
+   */
+  protected checkPolicy(
+    details: Parameters<typeof checkDownloadPolicy>[1],
+    phase: DownloadPhase = "initialization",
+  ): PolicyViolationError | undefined {
+    for (const policy of [this.managerPolicy, this.config.policy]) {
+      const violation = policy && checkDownloadPolicy(policy, details, phase);
+
+      if (violation) {
+        return violation;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Starts checking the free space while the download runs if `diskSpace.pauseBelowBytes` is defined
+   */
+  private startDiskSpaceMonitor() {
+    const { diskSpace } = this.config;
+
+    if (!diskSpace || diskSpace.pauseBelowBytes === undefined || this.diskSpaceInterval) {
+      return;
+    }
+
+    const { pauseBelowBytes, checkIntervalMs = 5000 } = diskSpace;
+
+    this.diskSpaceInterval = setInterval(() => this.checkLowDiskSpace(pauseBelowBytes), checkIntervalMs);
+    this.diskSpaceInterval.unref?.();
+  }
+
+  /**
+   * Pauses the download and calls the low disk space callback if the free space has dropped below the threshold
+   */
+  protected async checkLowDiskSpace(pauseBelowBytes: number) {
+    const { item } = this.downloadData;
+
+    if (this.downloadData.status !== "progressing") {
+      return;
+    }
+
+    const freeBytes = await getFreeDiskSpace(path.dirname(item.getSavePath()));
+
+    // The download may have been paused or finished while the free space was checked
+    if (freeBytes === undefined || freeBytes >= pauseBelowBytes || this.downloadData.status !== "progressing") {
+      return;
+    }
+
+    this.log(`Pausing download, only ${freeBytes} bytes free`, {
+      level: "warn",
+      event: "low-disk-space",
+      fields: { freeBytes },
+    });
+    item.pause();
+    await this.callbackDispatcher.onLowDiskSpace(this.downloadData, freeBytes);
+  }
+
+  /**
+   * Handles a file that already exists at the save path with the `skip`, `error` or `prompt` conflict strategy.
+   * The download is rejected before it has started, except with `prompt`.
+   * Must be called synchronously from the `will-download` handler, like `initSaveAsInteractiveDownload()`.
+   */
+  protected async handleFileConflict(strategy: "skip" | "error" | "prompt", filePath: string) {
+    if (strategy === "prompt") {
+      this.log(`File already exists at ${filePath}, prompting for another location`);
+      // Sets the staging path of the item before its first await, while the will-download event is still running
+      await this.initSaveAsInteractiveDownload(filePath);
+      return;
+    }
+
+    if (strategy === "error") {
+      this.rejectDownload(new FileExistsError(filePath));
+      return;
+    }
+
+    this.log(`File already exists at ${filePath}, skipping the download`, {
+      level: "info",
+      event: "download-skipped",
+      fields: { savePath: filePath },
+    });
+    // The will-download event can only be rejected synchronously, before the first await
+    this.downloadData.event.preventDefault();
+    this.downloadData.existingFilePath = filePath;
+    this.downloadData.resolvedFilename = path.basename(filePath);
+    this.setStatus("skipped");
+    await this.callbackDispatcher.onDownloadSkipped(this.downloadData);
+    this.cleanup();
+  }
+
+  /**
+   * Cancels a download that has already started, such as when it violates the policy,
+   * and calls onError with the error.
+   */
+  protected failDownload(error: DownloadManagerError) {
+    const { item } = this.downloadData;
+
+    this.log(`Failing download: ${error.message}`, {
+      level: "warn",
+      event: "download-failed",
+      fields: { error: error.name, receivedBytes: item.getReceivedBytes() },
+    });
+    this.detachItemHandlers(item);
+    item.cancel();
+    this.setStatus("failed");
+    this.callbackDispatcher.handleError(error, this.downloadData);
+    this.cleanup();
+  }
+
+  /**
+   * Rejects the download before it has started and calls onError with the error.
+   * The will-download event can only be rejected synchronously, so this must be called before the first await.
+   */
+  protected rejectDownload(error: DownloadManagerError) {
+    this.log(`Rejecting download: ${error.message}`, {
+      level: "warn",
+      event: "download-rejected",
+      fields: { error: error.name },
+    });
+    this.downloadData.event.preventDefault();
+    this.setStatus("failed");
+    this.callbackDispatcher.handleError(error, this.downloadData);
+    this.cleanup();
+  }
+
+  /**
+   * Returns the error to fail the download with for an error thrown while resolving or setting its save path.
+   * The errors of the library, such as a `PathTraversalError`, are returned as they are.
+   */
+  private getSavePathError(error: unknown): DownloadManagerError {
+    return error instanceof DownloadManagerError ? error : new PathResolutionError(error);
+  }
+
+  /**
+   * Sets the status to interrupted, with a `DownloadInterruptedError` describing the interruption as `DownloadData.error`
+   */
+  private setInterrupted() {
+    const { id, item, interruptedVia } = this.downloadData;
+    const error = new DownloadInterruptedError({
+      interruptedVia,
+      canResume: item.canResume(),
+      receivedBytes: item.getReceivedBytes(),
+      totalBytes: item.getTotalBytes(),
+    });
+
+    error.downloadId = id;
+    this.downloadData.error = error;
+    this.setStatus("interrupted");
+  }
+
+  /**
+   * Returns the received and total bytes of the download, for the fields of a log entry
+   */
+  private getByteFields() {
+    const { item } = this.downloadData;
+
+    return { receivedBytes: item.getReceivedBytes(), totalBytes: item.getTotalBytes() };
+  }
+
   protected updateProgress() {
     const { item } = this.downloadData;
 
-    const metrics = calculateDownloadMetrics(item);
+    this.rateEstimator.addSample(item.getReceivedBytes());
+    const metrics = calculateDownloadMetrics(item, this.rateEstimator.getEstimate());
 
     const downloadedBytes = item.getReceivedBytes();
     const totalBytes = item.getTotalBytes();
@@ -255,7 +974,9 @@ export class DownloadInitiator {
     }
 
     this.downloadData.downloadRateBytesPerSecond = metrics.downloadRateBytesPerSecond;
+    this.downloadData.instantaneousDownloadRateBytesPerSecond = metrics.instantaneousDownloadRateBytesPerSecond;
     this.downloadData.estimatedTimeRemainingSeconds = metrics.estimatedTimeRemainingSeconds;
+    this.downloadData.isEstimateReliable = metrics.isEstimateReliable;
     this.downloadData.percentCompleted = metrics.percentCompleted;
   }
 
@@ -266,17 +987,32 @@ export class DownloadInitiator {
     return async (_event: Event, state: "progressing" | "interrupted") => {
       switch (state) {
         case "progressing": {
+          // The size sent by the server was checked before the download started, but it may not have sent one
+          const violation = this.checkPolicy({ totalBytes: this.downloadData.item.getReceivedBytes() }, "transfer");
+
+          if (violation) {
+            this.failDownload(violation);
+            break;
+          }
+
           this.updateProgress();
+          this.setStatus("progressing");
           await this.callbackDispatcher.onDownloadProgress(this.downloadData);
           break;
         }
         case "interrupted": {
           this.downloadData.interruptedVia = "in-progress";
+
+          if (await this.scheduleRetry()) {
+            break;
+          }
+
+          this.setInterrupted();
           await this.callbackDispatcher.onDownloadInterrupted(this.downloadData);
           break;
         }
         default:
-          this.log(`Unexpected itemOnUpdated state: ${state}`);
+          this.log(`Unexpected itemOnUpdated state: ${state}`, { level: "warn" });
       }
     };
   }
@@ -288,36 +1024,451 @@ export class DownloadInitiator {
     return async (_event: Event, state: "completed" | "cancelled" | "interrupted") => {
       switch (state) {
         case "completed": {
-          this.log(`Download completed. Total bytes: ${this.downloadData.item.getTotalBytes()}`);
-          await this.callbackDispatcher.onDownloadCompleted(this.downloadData);
+          this.log(`Download completed. Total bytes: ${this.downloadData.item.getTotalBytes()}`, {
+            level: "info",
+            event: "download-completed",
+            fields: { totalBytes: this.downloadData.item.getTotalBytes() },
+          });
+          await this.callbackDispatcher.flushProgress(this.downloadData);
+          await this.completeDownload();
           break;
         }
         case "cancelled":
-          this.log(`Download cancelled. Total bytes: ${this.downloadData.item.getReceivedBytes()} / ${this.downloadData.item.getTotalBytes()}`);
+          this.log(
+            `Download cancelled. Total bytes: ${this.downloadData.item.getReceivedBytes()} / ${this.downloadData.item.getTotalBytes()}`,
+            { level: "info", event: "download-cancelled", fields: this.getByteFields() },
+          );
+          this.downloadData.cancellationReason = "requested";
+          this.setStatus("cancelled");
           await this.callbackDispatcher.onDownloadCancelled(this.downloadData);
           break;
         case "interrupted":
-          this.log(`Download interrupted. Total bytes: ${this.downloadData.item.getReceivedBytes()} / ${this.downloadData.item.getTotalBytes()}`);
+          this.log(
+            `Download interrupted. Total bytes: ${this.downloadData.item.getReceivedBytes()} / ${this.downloadData.item.getTotalBytes()}`,
+            { level: "warn", event: "download-interrupted", fields: this.getByteFields() },
+          );
           this.downloadData.interruptedVia = "completed";
+
+          if (await this.scheduleRetry()) {
+            // The download will be resumed or restarted, so don't clean up
+            return;
+          }
+
+          this.setInterrupted();
           await this.callbackDispatcher.onDownloadInterrupted(this.downloadData);
           break;
         default:
-          this.log(`Unexpected itemOnDone state: ${state}`);
+          this.log(`Unexpected itemOnDone state: ${state}`, { level: "warn" });
       }
 
       this.cleanup();
     };
   }
 
+  /**
+   * Verifies the downloaded file if an integrity check has been configured
+   * and runs the post-processing steps, then calls the completed callback.
+   */
+  protected async completeDownload() {
+    // The size sent by the server was checked before the download started, but it may not have sent one
+    const violation = this.checkPolicy({ totalBytes: this.downloadData.item.getReceivedBytes() }, "completion");
+
+    if (violation) {
+      await this.discardFile();
+      this.setStatus("failed");
+      this.callbackDispatcher.handleError(violation, this.downloadData);
+      return;
+    }
+
+    if (this.config.integrity) {
+      this.setStatus("verifying");
+
+      if (!(await this.verifyIntegrity(this.config.integrity))) {
+        this.setStatus("failed");
+        return;
+      }
+    }
+
+    if (this.downloadData.finalSavePath && !(await this.commitStagedFile(this.downloadData.finalSavePath))) {
+      this.setStatus("failed");
+      return;
+    }
+
+    const steps = [...this.managerPostProcessing, ...(this.config.postProcessing || [])];
+
+    if (steps.length) {
+      this.setStatus("processing");
+
+      if (!(await this.runPostProcessing(steps))) {
+        this.setStatus("failed");
+        return;
+      }
+    }
+
+    this.setStatus("completed");
+    await this.callbackDispatcher.onDownloadCompleted(this.downloadData);
+  }
+
+  /**
+   * Renames the staging file to its final path. On failure, the staging file is kept and the error callback is called.
+   * Returns true if the file was renamed.
+   *
+   * Another download may have saved a file to the final path while this one was staged,
+   * so the conflict strategy is applied again: the path is made unique with `uniquify`, the file is replaced
+   * with `overwrite`, and the download fails with a `FileExistsError` with the other strategies.
+   */
+  protected async commitStagedFile(finalSavePath: string): Promise<boolean> {
+    const stagingPath = this.downloadData.item.getSavePath();
+    let filePath = finalSavePath;
+
+    if (!this.finalSavePathExisted && existsSync(filePath)) {
+      const { conflictStrategy, overwrite, saveAsFilename } = this.config;
+      const strategy = resolveConflictStrategy({ conflictStrategy, overwrite, saveAsFilename });
+
+      if (strategy === "uniquify") {
+        filePath = UnusedFilename.sync(filePath);
+        this.log(`A file was saved to the final path while staging, moving to ${filePath} instead`);
+        this.downloadData.finalSavePath = filePath;
+        this.downloadData.resolvedFilename = path.basename(filePath);
+      } else if (strategy !== "overwrite") {
+        this.log(`A file was saved to ${filePath} while staging, keeping the staged file`, { level: "warn" });
+        this.callbackDispatcher.handleError(new FileExistsError(filePath, "finalization"), this.downloadData);
+        return false;
+      }
+    }
+
+    this.log(`Moving staged file ${stagingPath} to ${filePath}`);
+
+    try {
+      await movePath(stagingPath, filePath);
+      return true;
+    } catch (e) {
+      this.log(`Failed to move staged file: ${e}`, { level: "error" });
+      this.callbackDispatcher.handleError(new StagingError(stagingPath, filePath, e), this.downloadData);
+      return false;
+    }
+  }
+
+  /**
+   * Deletes the staging file of a download that was cancelled, failed or ended interrupted
+   */
+  protected async removeStagedFile() {
+    const stagingPath = this.downloadData.item.getSavePath?.();
+
+    if (!stagingPath) {
+      return;
+    }
+
+    this.log(`Deleting staged file ${stagingPath}`);
+
+    try {
+      await rm(stagingPath, { force: true });
+    } catch (e) {
+      this.log(`Failed to delete staged file: ${e}`, { level: "warn" });
+    }
+  }
+
+  /**
+   * Runs the post-processing steps in order, passing each one the path returned by the previous one.
+   * When a step fails, the remaining steps are skipped and the error callback is called.
+   * Returns true if every step succeeded.
+   */
+  protected async runPostProcessing(steps: PostProcessingStep[]): Promise<boolean> {
+    const { downloadData } = this;
+    let filePath = downloadData.finalSavePath || downloadData.item.getSavePath();
+
+    downloadData.postProcessing = steps.map((step) => ({ name: step.name, status: "pending", percentCompleted: 0 }));
+
+    for (const [index, step] of steps.entries()) {
+      const state = downloadData.postProcessing[index];
+
+      this.log(`Running post-processing step ${step.name} on ${filePath}`);
+      state.status = "running";
+      await this.callbackDispatcher.onPostProcessingProgress(downloadData);
+
+      try {
+        const result = await step.run({
+          filePath,
+          downloadData,
+          reportProgress: (percentCompleted) => {
+            if (state.status !== "running") {
+              return;
+            }
+
+            state.percentCompleted = Math.min(Math.max(percentCompleted, 0), 100);
+            this.callbackDispatcher.onPostProcessingProgress(downloadData);
+          },
+        });
+
+        if (result?.filePath) {
+          filePath = result.filePath;
+          state.filePath = filePath;
+          downloadData.processedFilePath = filePath;
+        }
+      } catch (e) {
+        const error = e instanceof Error ? e : new Error(String(e));
+
+        this.log(`Post-processing step ${step.name} failed: ${error}`, {
+          level: "error",
+          event: "post-processing-failed",
+          fields: { step: step.name },
+        });
+        state.status = "failed";
+        state.error = error;
+
+        for (const remaining of downloadData.postProcessing.slice(index + 1)) {
+          remaining.status = "skipped";
+        }
+
+        await this.callbackDispatcher.onPostProcessingProgress(downloadData);
+        this.callbackDispatcher.handleError(new PostProcessingError(step.name, filePath, error), downloadData);
+
+        return false;
+      }
+
+      state.status = "completed";
+      state.percentCompleted = 100;
+      await this.callbackDispatcher.onPostProcessingProgress(downloadData);
+    }
+
+    return true;
+  }
+
+  /**
+   * Deletes the downloaded file, which is the staging file when staging
+   */
+  protected async discardFile() {
+    const filePath = this.downloadData.item.getSavePath();
+
+    try {
+      this.log(`Deleting file ${filePath}`);
+      await rm(filePath, { force: true });
+    } catch (e) {
+      this.log(`Failed to delete file: ${e}`, { level: "error" });
+    }
+  }
+
+  /**
+   * Hashes the downloaded file and compares it against the expected digest. On a mismatch,
+   * the file is deleted or quarantined and the error callback is called.
+   * Returns true if the file is valid.
+   */
+  protected async verifyIntegrity(integrity: string | DownloadIntegrityOptions): Promise<boolean> {
+    const filePath = this.downloadData.item.getSavePath();
+    const onMismatch = typeof integrity === "string" ? "delete" : integrity.onMismatch || "delete";
+
+    let error: DownloadManagerError;
+
+    try {
+      const { algorithm, digests, encoding } = parseIntegrity(integrity);
+
+      this.log(`Verifying ${algorithm} checksum of ${filePath}`);
+
+      const actual = await hashFile(filePath, algorithm, encoding);
+
+      if (digests.includes(actual)) {
+        this.log("Checksum verified");
+        return true;
+      }
+
+      this.log(`Checksum mismatch. Expected ${digests.join(" or ")}, got ${actual}`, {
+        level: "warn",
+        event: "checksum-mismatch",
+        fields: { algorithm, actual },
+      });
+
+      let quarantinePath: string | undefined;
+
+      try {
+        if (onMismatch === "quarantine") {
+          this.log(`Quarantining file to ${filePath}.quarantine`);
+          await rename(filePath, `${filePath}.quarantine`);
+          quarantinePath = `${filePath}.quarantine`;
+        } else {
+          this.log(`Deleting file ${filePath}`);
+          await unlink(filePath);
+        }
+      } catch (e) {
+        this.log(`Failed to ${onMismatch} file: ${e}`, { level: "error" });
+      }
+
+      error = new ChecksumMismatchError({ algorithm, expected: digests, actual, filePath, quarantinePath });
+    } catch (e) {
+      this.log(`Error during checksum verification: ${e}`, { level: "error" });
+      error = e instanceof DownloadManagerError ? e : new VerificationError(filePath, e);
+    }
+
+    this.callbackDispatcher.handleError(error, this.downloadData);
+
+    return false;
+  }
+
+  /**
+   * Schedules a retry of an interrupted download if the retry options allow it.
+   * Returns true if a retry was scheduled.
+   */
+  protected async scheduleRetry(): Promise<boolean> {
+    const { retry } = this.config;
+    const { interruptedVia } = this.downloadData;
+
+    if (!retry || this.retryTimeout) {
+      return false;
+    }
+
+    const retryOn = retry.retryOn || ["in-progress", "completed"];
+
+    if (!interruptedVia || !retryOn.includes(interruptedVia)) {
+      return false;
+    }
+
+    if (this.downloadData.retryAttempt >= retry.maxAttempts) {
+      this.log(`Retries exhausted after ${this.downloadData.retryAttempt} attempts`, { level: "warn" });
+      return false;
+    }
+
+    this.downloadData.retryAttempt++;
+
+    const delay = calculateRetryDelay(this.downloadData.retryAttempt, retry);
+
+    this.log(`Retrying download in ${delay}ms (attempt ${this.downloadData.retryAttempt} of ${retry.maxAttempts})`, {
+      level: "info",
+      event: "download-retrying",
+      fields: { attempt: this.downloadData.retryAttempt, delayMs: delay, ...this.getByteFields() },
+    });
+
+    this.retryTimeout = setTimeout(() => {
+      this.retryTimeout = undefined;
+      this.retryDownload();
+    }, delay);
+
+    this.setStatus("retrying");
+    await this.callbackDispatcher.onDownloadRetrying(this.downloadData);
+
+    return true;
+  }
+
+  /**
+   * Resumes the download if possible, otherwise restarts it from scratch.
+   */
+  protected retryDownload() {
+    const { item } = this.downloadData;
+
+    if (item.canResume()) {
+      this.log("Resuming interrupted download");
+
+      if (this.downloadData.interruptedVia === "completed") {
+        // The done handler has already fired, so it needs to be attached again
+        this.detachItemHandlers(item);
+        this.attachItemHandlers(item);
+      }
+
+      item.resume();
+      return;
+    }
+
+    this.restartDownload();
+  }
+
+  /**
+   * Starts the download again from scratch using a new DownloadItem,
+   * saving to the same path as the original download.
+   */
+  protected restartDownload() {
+    const { item, webContents } = this.downloadData;
+    const savePath = item.getSavePath();
+    const url = item.getURL();
+
+    if (!webContents?.session) {
+      // Restored downloads are not associated with a WebContents that can start a new download
+      this.log("Cannot restart a download without a WebContents", { level: "warn" });
+      this.setInterrupted();
+      this.callbackDispatcher.onDownloadInterrupted(this.downloadData).then(() => this.cleanup());
+      return;
+    }
+
+    this.log(`Restarting download from scratch for url: ${truncateUrl(url)}`, { level: "info", fields: { url } });
+    this.detachItemHandlers(item);
+
+    if (this.downloadData.interruptedVia === "in-progress") {
+      item.cancel();
+    }
+
+    this.scheduleWillDownload(
+      () =>
+        new Promise<string>((resolve) => {
+          this.onceWillDownload(webContents.session, url, (event: Event, newItem: DownloadItem) => {
+            newItem.setSavePath(savePath);
+
+            this.downloadData.item = newItem;
+            this.downloadData.event = event;
+            this.downloadData.interruptedVia = undefined;
+
+            this.augmentDownloadItem(newItem);
+            this.attachItemHandlers(newItem);
+
+            resolve(this.downloadData.id);
+          });
+
+          webContents.downloadURL(url);
+        }),
+    ).catch((e) => {
+      this.log(`Failed to restart download: ${e}`, { level: "error" });
+      this.setStatus("failed");
+      this.callbackDispatcher.handleError(new DownloadStartError(e, "transfer"), this.downloadData);
+      this.cleanup();
+    });
+  }
+
+  /**
+   * Cancels a scheduled retry. Returns true if the cancellation has been handled,
+   * which is the case when the DownloadItem is already done and can't be cancelled itself.
+   */
+  private cancelPendingRetry(): boolean {
+    if (!this.retryTimeout) {
+      return false;
+    }
+
+    this.log("Cancelling scheduled retry");
+    clearTimeout(this.retryTimeout);
+    this.retryTimeout = undefined;
+
+    if (this.downloadData.interruptedVia === "completed") {
+      this.downloadData.cancellationReason = "requested";
+      this.setStatus("cancelled");
+      this.callbackDispatcher.onDownloadCancelled(this.downloadData).then(() => this.cleanup());
+      return true;
+    }
+
+    return false;
+  }
+
   protected cleanup() {
     const { item } = this.downloadData;
 
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = undefined;
+    }
+
+    if (this.diskSpaceInterval) {
+      clearInterval(this.diskSpaceInterval);
+      this.diskSpaceInterval = undefined;
+    }
+
     if (item) {
       this.log("Cleaning up download item event listeners");
       item.removeListener("updated", this.onItemUpdated);
       item.removeListener("done", this.onItemDone);
     }
 
+    this.bandwidthLimiter?.remove(this.downloadData.id);
+
+    const { status, finalSavePath } = this.downloadData;
+
+    if (finalSavePath && (status === "cancelled" || status === "failed" || status === "interrupted")) {
+      this.removeStagedFile();
+    }
+
     if (this.onCleanup) {
       this.onCleanup(this.downloadData);
     }
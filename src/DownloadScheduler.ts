@@ -0,0 +1,191 @@
+import type { DownloadData } from "./DownloadData";
+import type { DownloadConfig } from "./types";
+
+/**
+ * A download that has been registered with the manager but has not started yet.
+ */
+export interface QueuedDownload {
+  /**
+   * The id of the download
+   */
+  id: string;
+  /**
+   * Higher values are started first. Downloads with the same priority
+   * are started in the order they were queued.
+   */
+  priority: number;
+  /**
+   * The config the download was started with
+   */
+  config: DownloadConfig;
+  /**
+   * The placeholder data for the download. The item will be populated
+   * once the download has started.
+   */
+  downloadData: DownloadData;
+}
+
+interface DownloadSchedulerConstructorParams {
+  /**
+   * The maximum number of downloads that can run at the same time.
+   * @default Infinity
+   */
+  maxConcurrentDownloads?: number;
+  /**
+   * Called when a queued download has been given a slot and should be started.
+   */
+  onStart: (entry: QueuedDownload) => void;
+}
+
+/**
+ * Limits the number of downloads that run at the same time. Downloads that
+ * cannot be started right away are held in a priority queue until a slot frees up.
+ */
+export class DownloadScheduler {
+  private maxConcurrentDownloads: number;
+  private onStart: (entry: QueuedDownload) => void;
+  /**
+   * Ids of downloads that currently occupy a slot
+   */
+  private active: Set<string>;
+  /**
+   * Downloads waiting for a slot, in the order they will be started
+   */
+  private queue: QueuedDownload[];
+
+  constructor(params: DownloadSchedulerConstructorParams) {
+    this.maxConcurrentDownloads = normalizeMaxConcurrentDownloads(params.maxConcurrentDownloads);
+    this.onStart = params.onStart;
+    this.active = new Set();
+    this.queue = [];
+  }
+
+  /**
+   * Returns true if a new download can be started right away
+   */
+  hasCapacity() {
+    return this.queue.length === 0 && this.active.size < this.maxConcurrentDownloads;
+  }
+
+  /**
+   * Marks a download as occupying a slot
+   */
+  markActive(id: string) {
+    this.active.add(id);
+  }
+
+  /**
+   * Frees the slot held by a download and starts the next queued download, if any
+   */
+  release(id: string) {
+    if (this.active.delete(id)) {
+      this.drain();
+    }
+  }
+
+  /**
+   * Adds a download to the queue based on its priority
+   */
+  enqueue(entry: QueuedDownload) {
+    const index = this.queue.findIndex((queued) => queued.priority < entry.priority);
+
+    if (index === -1) {
+      this.queue.push(entry);
+    } else {
+      this.queue.splice(index, 0, entry);
+    }
+  }
+
+  /**
+   * Removes a download from the queue. Returns the removed entry, if it was queued.
+   */
+  remove(id: string): QueuedDownload | undefined {
+    const index = this.queue.findIndex((queued) => queued.id === id);
+
+    if (index === -1) {
+      return undefined;
+    }
+
+    return this.queue.splice(index, 1)[0];
+  }
+
+  /**
+   * Changes the priority of a queued download, moving it to its new position
+   * in the queue. Returns false if the download is not queued.
+   */
+  setPriority(id: string, priority: number) {
+    const entry = this.remove(id);
+
+    if (!entry) {
+      return false;
+    }
+
+    entry.priority = priority;
+    entry.downloadData.priority = priority;
+    this.enqueue(entry);
+
+    return true;
+  }
+
+  /**
+   * Moves a queued download to the front of the queue so it is the next one
+   * to start. Its priority is raised to match the download it overtook.
+   * Returns false if the download is not queued.
+   */
+  promote(id: string) {
+    const entry = this.remove(id);
+
+    if (!entry) {
+      return false;
+    }
+
+    if (this.queue.length > 0 && this.queue[0].priority > entry.priority) {
+      entry.priority = this.queue[0].priority;
+      entry.downloadData.priority = entry.priority;
+    }
+
+    this.queue.unshift(entry);
+
+    return true;
+  }
+
+  /**
+   * Returns true if the download is waiting in the queue
+   */
+  isQueued(id: string) {
+    return this.queue.some((queued) => queued.id === id);
+  }
+
+  /**
+   * Returns the ids of the queued downloads, in the order they will be started
+   */
+  getQueuedIds(): string[] {
+    return this.queue.map((queued) => queued.id);
+  }
+
+  /**
+   * Changes the number of downloads that can run at the same time. Raising
+   * the limit will start queued downloads right away. Lowering it does not
+   * stop downloads that are already running.
+   */
+  setMaxConcurrentDownloads(maxConcurrentDownloads?: number) {
+    this.maxConcurrentDownloads = normalizeMaxConcurrentDownloads(maxConcurrentDownloads);
+    this.drain();
+  }
+
+  private drain() {
+    while (this.queue.length > 0 && this.active.size < this.maxConcurrentDownloads) {
+      const entry = this.queue.shift() as QueuedDownload;
+      this.active.add(entry.id);
+      this.onStart(entry);
+    }
+  }
+}
+
+function normalizeMaxConcurrentDownloads(maxConcurrentDownloads?: number) {
+  if (maxConcurrentDownloads === undefined || maxConcurrentDownloads <= 0) {
+    return Number.POSITIVE_INFINITY;
+  }
+
+  return maxConcurrentDownloads;
+}
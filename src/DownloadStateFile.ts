@@ -0,0 +1,97 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { app } from "electron";
+import type { DownloadData } from "./DownloadData";
+import { ConfigValidationError } from "./errors";
+import type { PersistedDownload } from "./types";
+
+/**
+ * Reads and writes the state of in-progress downloads to a JSON file.
+ */
+export class DownloadStateFile {
+  private filePath: string;
+  /**
+   * Used to make sure writes to the file happen one at a time
+   */
+  private pending: Promise<unknown>;
+
+  constructor(filePath?: string) {
+    if (filePath && !path.isAbsolute(filePath)) {
+      throw new ConfigValidationError("The `downloadStateFilePath` option must be an absolute path", {
+        option: "downloadStateFilePath",
+      });
+    }
+
+    this.filePath = filePath || path.join(app?.getPath("userData"), "download-state.json");
+    this.pending = Promise.resolve();
+  }
+
+  /**
+   * Returns the saved downloads. Returns an empty list if nothing has been saved.
+   */
+  async read(): Promise<PersistedDownload[]> {
+    await this.pending;
+
+    try {
+      const downloads = JSON.parse(await readFile(this.filePath, "utf-8"));
+      return Array.isArray(downloads) ? downloads : [];
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw e;
+      }
+
+      return [];
+    }
+  }
+
+  /**
+   * Replaces the saved downloads
+   */
+  write(downloads: PersistedDownload[]): Promise<void> {
+    const result = this.pending.then(async () => {
+      // Write to a temporary file first so a crash mid-write doesn't corrupt the state
+      const tmpPath = `${this.filePath}.tmp`;
+
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(tmpPath, JSON.stringify(downloads), "utf-8");
+      await rename(tmpPath, this.filePath);
+    });
+
+    this.pending = result.catch(() => {});
+    return result;
+  }
+}
+
+/**
+ * Captures the state of a download from its DownloadItem.
+ * Returns undefined if the download cannot be restored later.
+ */
+export function getPersistedDownload(data: DownloadData): PersistedDownload | undefined {
+  const { item } = data;
+
+  if (data.isDownloadQueued() || !item.getState) {
+    return undefined;
+  }
+
+  const state = item.getState();
+  const savePath = item.getSavePath();
+
+  if ((state !== "progressing" && state !== "interrupted") || !savePath) {
+    return undefined;
+  }
+
+  return {
+    id: data.id,
+    urlChain: item.getURLChain(),
+    savePath,
+    resolvedFilename: data.resolvedFilename,
+    mimeType: item.getMimeType(),
+    receivedBytes: item.getReceivedBytes(),
+    totalBytes: item.getTotalBytes(),
+    eTag: item.getETag(),
+    lastModified: item.getLastModifiedTime(),
+    startTime: item.getStartTime(),
+    tags: data.tags,
+    finalSavePath: data.finalSavePath,
+  };
+}
@@ -0,0 +1,106 @@
+import type { DownloadPhase } from "./types";
+
+/**
+ * The lifecycle status of a download
+ *
+ * - `pending`: The download has been created and is waiting for Electron to create the DownloadItem
+ * - `queued`: The download is waiting in the queue for a free slot
+ * - `awaiting-save-path`: The "save as" dialog is waiting for the user to choose a location
+ * - `progressing`: The download is in progress
+ * - `paused`: The download has been paused
+ * - `retrying`: The download was interrupted and a retry has been scheduled
+ * - `verifying`: The download has finished and its checksum is being verified
+ * - `processing`: The download has finished and its post-processing steps are running
+ * - `completed`: The download has completed
+ * - `cancelled`: The download has been cancelled
+ * - `skipped`: The file already exists and `conflictStrategy` is `skip`, so it was not downloaded again
+ * - `interrupted`: The download was interrupted
+ * - `failed`: The download ended with an error, such as a checksum mismatch
+ */
+export type DownloadStatus =
+  | "pending"
+  | "queued"
+  | "awaiting-save-path"
+  | "progressing"
+  | "paused"
+  | "retrying"
+  | "verifying"
+  | "processing"
+  | "completed"
+  | "cancelled"
+  | "skipped"
+  | "interrupted"
+  | "failed";
+
+/**
+ * The statuses each status is allowed to move to
+ */
+export const DOWNLOAD_STATUS_TRANSITIONS: Record<DownloadStatus, DownloadStatus[]> = {
+  pending: [
+    "queued",
+    "awaiting-save-path",
+    "progressing",
+    "paused",
+    "verifying",
+    "processing",
+    "completed",
+    "cancelled",
+    "skipped",
+    "failed",
+  ],
+  queued: ["pending", "cancelled", "failed"],
+  "awaiting-save-path": ["progressing", "paused", "verifying", "processing", "completed", "cancelled", "failed"],
+  progressing: ["paused", "retrying", "verifying", "processing", "completed", "cancelled", "interrupted", "failed"],
+  paused: ["progressing", "retrying", "verifying", "processing", "completed", "cancelled", "interrupted", "failed"],
+  retrying: ["progressing", "paused", "cancelled", "interrupted", "failed"],
+  verifying: ["processing", "completed", "failed"],
+  processing: ["completed", "failed"],
+  // An interruption while in progress can still be resumed, and is followed by the done event
+  interrupted: [
+    "progressing",
+    "retrying",
+    "verifying",
+    "processing",
+    "completed",
+    "cancelled",
+    "interrupted",
+    "failed",
+  ],
+  completed: [],
+  cancelled: [],
+  skipped: [],
+  failed: [],
+};
+
+/**
+ * Returns true if a download is allowed to move from one status to another
+ */
+export function isValidStatusTransition(prev: DownloadStatus, next: DownloadStatus) {
+  return DOWNLOAD_STATUS_TRANSITIONS[prev].includes(next);
+}
+
+/**
+ * The phase of the download lifecycle each status belongs to
+ */
+const DOWNLOAD_STATUS_PHASES: Record<DownloadStatus, DownloadPhase> = {
+  pending: "initialization",
+  queued: "queue",
+  "awaiting-save-path": "save-dialog",
+  progressing: "transfer",
+  paused: "transfer",
+  retrying: "transfer",
+  verifying: "verification",
+  processing: "post-processing",
+  interrupted: "completion",
+  completed: "completion",
+  cancelled: "completion",
+  skipped: "completion",
+  failed: "completion",
+};
+
+/**
+ * Returns the phase of the download lifecycle a status belongs to, such as `transfer` for `paused`
+ */
+export function getDownloadPhase(status: DownloadStatus): DownloadPhase {
+  return DOWNLOAD_STATUS_PHASES[status];
+}
@@ -1,13 +1,50 @@
-import type { BrowserWindow } from "electron";
-import type { DownloadData } from "./DownloadData";
+import { EventEmitter } from "node:events";
+import { stat } from "node:fs/promises";
+import type { BrowserWindow, DownloadItem, Event, Session, WebContents } from "electron";
+import { BandwidthLimiter } from "./BandwidthLimiter";
+import { CallbackDispatcher } from "./CallbackDispatcher";
+import { DownloadBatch } from "./DownloadBatch";
+import { DownloadData } from "./DownloadData";
 import { DownloadInitiator } from "./DownloadInitiator";
+import { DownloadScheduler, type QueuedDownload } from "./DownloadScheduler";
+import type { DownloadStatus } from "./DownloadStatus";
+import { DownloadStateFile, getPersistedDownload } from "./DownloadStateFile";
+import { JsonFileHistoryStore } from "./JsonFileHistoryStore";
+import { ProgressIndicator } from "./ProgressIndicator";
+import { ConfigValidationError, DownloadFailedError, DownloadManagerError, DownloadStartError } from "./errors";
+import { type LogDetails, normalizeLogger } from "./logging";
 import type {
-  DebugLoggerFn,
+  AggregateProgress,
+  DownloadBatchFileResult,
+  DownloadBatchOptions,
   DownloadConfig,
+  DownloadEventDispatchFn,
+  DownloadFilter,
+  DownloadHistoryQuery,
+  DownloadHistoryQueryResult,
+  DownloadHistoryStore,
+  DownloadLogger,
   DownloadManagerConstructorParams,
+  DownloadManagerEvents,
+  DownloadPolicy,
+  DownloadResult,
   IElectronDownloadManager,
+  PersistedDownload,
+  PostProcessingStep,
+  ProgressThrottleOptions,
+  RateEstimator,
+  RestoreDownloadsParams,
+  SessionDownloadDecision,
+  SessionDownloadPolicyFn,
 } from "./types";
-import { truncateUrl } from "./utils";
+import {
+  calculateAggregateProgress,
+  checkDownloadPolicy,
+  matchesDownloadFilter,
+  normalizeUrl,
+  parseIntegrity,
+  truncateUrl,
+} from "./utils";
 
 /**
  * This is used to solve an issue where multiple downloads are started at the same time.
@@ -25,26 +62,148 @@ class DownloadQueue {
   private promise = Promise.resolve() as unknown as Promise<string>;
 
   add(task: () => Promise<string>): Promise<string> {
-    this.promise = this.promise.then(() => task());
-    return this.promise;
+    const result = this.promise.then(() => task());
+    // A download that fails to start should not block the ones after it
+    this.promise = result.catch(() => "");
+    return result;
   }
 }
 
+type WillDownloadHandler = (event: Event, item: DownloadItem, webContents: WebContents) => void;
+
+/**
+ * A session attached with `attachToSession()`
+ */
+interface AttachedSession {
+  policy: SessionDownloadPolicyFn;
+  listener: WillDownloadHandler;
+  /**
+   * The handlers of the downloads started by the manager that are waiting for their
+   * `will-download` event, so they are not mistaken for downloads started by the user
+   */
+  pending: Array<{ url: string; handler: WillDownloadHandler }>;
+}
+
 /**
  * Enables handling downloads in Electron.
+ *
+ * Also emits the events of every download it manages, see `DownloadManagerEvents`.
  */
-export class ElectronDownloadManager implements IElectronDownloadManager {
+export class ElectronDownloadManager extends EventEmitter<DownloadManagerEvents> implements IElectronDownloadManager {
   protected downloadData: Record<string, DownloadData>;
-  protected logger: DebugLoggerFn;
+  protected logger: DownloadLogger;
   private downloadQueue = new DownloadQueue();
+  private downloadScheduler: DownloadScheduler;
+  protected historyStore?: DownloadHistoryStore;
+  private downloadStateFilePath?: string;
+  private downloadStateFile?: DownloadStateFile;
+  /**
+   * True once the download state has been saved, so finished downloads
+   * are removed from the saved state as they complete
+   */
+  private downloadStateSaved = false;
+  /**
+   * Called when a download started with `downloadAndWait()` is cleaned up,
+   * to settle its promise if it hasn't been already
+   */
+  private downloadEndedHandlers: Record<string, (data: DownloadData) => void> = {};
+  /**
+   * Shows the aggregate progress in the taskbar / dock if enabled
+   */
+  private progressIndicator?: ProgressIndicator;
+  /**
+   * Limits the download rate of the downloads
+   */
+  private bandwidthLimiter: BandwidthLimiter;
+  /**
+   * The batches started with `downloadBatch()` that have not finished yet
+   */
+  private batches: Record<string, DownloadBatch> = {};
+  /**
+   * The sessions attached with `attachToSession()`
+   */
+  private attachedSessions = new Map<Session, AttachedSession>();
+  /**
+   * The post-processing steps to run on every completed download
+   */
+  private postProcessing: PostProcessingStep[];
+  /**
+   * The policy that every download must be allowed by
+   */
+  private policy?: DownloadPolicy;
+  /**
+   * The progress throttle used by downloads that don't define one
+   */
+  private progressThrottle?: ProgressThrottleOptions;
+  /**
+   * Creates the rate estimator of downloads that don't define one
+   */
+  private rateEstimator?: () => RateEstimator;
+  /**
+   * Saves the download state periodically if `downloadStateSaveIntervalMs` is set
+   */
+  private downloadStateSaveInterval?: NodeJS.Timeout;
 
   constructor(params: DownloadManagerConstructorParams = {}) {
+    super();
     this.downloadData = {};
-    this.logger = params.debugLogger || (() => {});
+    this.logger = normalizeLogger(params.logger || params.debugLogger);
+    this.historyStore = params.history === true ? new JsonFileHistoryStore() : params.history || undefined;
+    this.downloadScheduler = new DownloadScheduler({
+      maxConcurrentDownloads: params.maxConcurrentDownloads,
+      onStart: (entry) => this.startQueuedDownload(entry),
+    });
+    this.downloadStateFilePath = params.downloadStateFilePath;
+    this.bandwidthLimiter = new BandwidthLimiter({ maxBytesPerSecond: params.maxBytesPerSecond });
+    this.postProcessing = params.postProcessing || [];
+    this.policy = params.policy;
+    this.progressThrottle = params.progressThrottle;
+    this.rateEstimator = params.rateEstimator;
+
+    if (params.progressIndicator) {
+      this.progressIndicator = new ProgressIndicator(params.progressIndicator);
+    }
+
+    if (params.downloadStateSaveIntervalMs) {
+      this.downloadStateSaveInterval = setInterval(() => {
+        this.saveDownloadState().catch((e) => {
+          this.log(`Failed to save download state: ${e}`, { level: "error", event: "state-save-failed" });
+        });
+      }, params.downloadStateSaveIntervalMs);
+      this.downloadStateSaveInterval.unref?.();
+    }
   }
 
-  protected log(message: string) {
-    this.logger(message);
+  protected log(message: string, details: LogDetails = {}) {
+    this.logger.log({ level: "debug", ...details, message });
+  }
+
+  /**
+   * Forwards the events of a download to the manager-level listeners
+   */
+  protected dispatchEvent: DownloadEventDispatchFn = (event, ...args) => {
+    this.updateProgressIndicator();
+
+    // Emitting "error" without a listener throws, so only emit it if someone is listening
+    if (event === "error" && this.listenerCount("error") === 0) {
+      return;
+    }
+
+    (this.emit as (event: string, ...args: unknown[]) => boolean)(event, ...args);
+  };
+
+  /**
+   * Updates the taskbar / dock progress with the current aggregate progress
+   */
+  private updateProgressIndicator() {
+    this.progressIndicator?.update(this.getAggregateProgress());
+  }
+
+  /**
+   * Returns the combined progress of all active downloads
+   */
+  getAggregateProgress(): AggregateProgress {
+    return calculateAggregateProgress(Object.values(this.downloadData));
   }
 
   /**
@@ -59,12 +218,21 @@ export class ElectronDownloadManager implements IElectronDownloadManager {
    */
   cancelDownload(id: string) {
     const data = this.downloadData[id];
+    const queued = this.downloadScheduler.remove(id);
 
-    if (data?.item) {
-      this.log(`[${id}] Cancelling download`);
+    if (queued) {
+      this.log("Cancelling queued download", { downloadId: id });
+      delete this.downloadData[id];
+      queued.downloadData.cancellationReason = "requested";
+      const callbackDispatcher = new CallbackDispatcher(id, queued.config.callbacks, this.logger, this.dispatchEvent);
+      this.setQueuedDownloadStatus(queued.downloadData, callbackDispatcher, "cancelled").then(() =>
+        callbackDispatcher.onDownloadCancelled(queued.downloadData),
+      );
+    } else if (data?.item) {
+      this.log("Cancelling download", { downloadId: id });
       data.item.cancel();
     } else {
-      this.log(`[${id}] Download ${id} not found for cancellation`);
+      this.log(`Download ${id} not found for cancellation`, { downloadId: id });
     }
   }
 
@@ -74,63 +242,585 @@ export class ElectronDownloadManager implements IElectronDownloadManager {
   pauseDownload(id: string) {
     const data = this.downloadData[id];
 
-    if (data?.item) {
-      this.log(`[${id}] Pausing download`);
+    if (data?.isDownloadQueued()) {
+      this.log(`Download ${id} is queued and cannot be paused`, { downloadId: id });
+    } else if (data?.item) {
+      this.log("Pausing download", { downloadId: id });
       data.item.pause();
     } else {
-      this.log(`[${id}] Download ${id} not found for pausing`);
+      this.log(`Download ${id} not found for pausing`, { downloadId: id });
     }
   }
 
   /**
-   * Resumes a download
+   * Resumes a download. A download that is only paused by the bandwidth limiter
+   * is left for the limiter to resume once it is back under its limit.
    */
   resumeDownload(id: string) {
     const data = this.downloadData[id];
 
-    if (data?.item?.isPaused()) {
-      this.log(`[${id}] Resuming download`);
+    if (data?.status === "progressing" && this.bandwidthLimiter.isThrottled(id)) {
+      this.log(`Download ${id} is paused by the bandwidth limiter and will resume once it is under its limit`, {
+        downloadId: id,
+      });
+    } else if (!data?.isDownloadQueued() && data?.item?.isPaused()) {
+      this.log("Resuming download", { downloadId: id });
       data.item.resume();
     } else {
-      this.log(`[${id}] Download ${id} not found or is not in a paused state`);
+      this.log(`Download ${id} not found or is not in a paused state`, { downloadId: id });
+    }
+  }
+
+  /**
+   * Returns the downloads that have not finished yet, including queued downloads, that match the filter
+   */
+  listDownloads(filter?: DownloadFilter): DownloadData[] {
+    return Object.values(this.downloadData).filter((data) => matchesDownloadFilter(data, filter));
+  }
+
+  /**
+   * Cancels the downloads that match the filter. Returns the ids of the cancelled downloads.
+   */
+  cancelAll(filter?: DownloadFilter): string[] {
+    const ids = this.listDownloads(filter).map((data) => data.id);
+
+    for (const id of ids) {
+      this.cancelDownload(id);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Pauses the downloads in progress that match the filter. Returns the ids of the paused downloads.
+   */
+  pauseAll(filter?: DownloadFilter): string[] {
+    const ids = this.listDownloads(filter)
+      .filter((data) => data.status === "progressing")
+      .map((data) => data.id);
+
+    for (const id of ids) {
+      this.pauseDownload(id);
     }
+
+    return ids;
+  }
+
+  /**
+   * Resumes the paused downloads that match the filter. Returns the ids of the resumed downloads.
+   */
+  resumeAll(filter?: DownloadFilter): string[] {
+    const ids = this.listDownloads(filter)
+      .filter((data) => data.status === "paused")
+      .map((data) => data.id);
+
+    for (const id of ids) {
+      this.resumeDownload(id);
+    }
+
+    return ids;
   }
 
   /**
    * Returns the number of active downloads
    */
   getActiveDownloadCount() {
-    return Object.values(this.downloadData).filter((data) => data.isDownloadInProgress()).length;
+    return Object.values(this.downloadData).filter(
+      // A download started from the queue has no item until Electron creates it
+      (data) => !data.isDownloadQueued() && data.item.getState !== undefined && data.isDownloadInProgress(),
+    ).length;
+  }
+
+  /**
+   * Returns the ids of the downloads waiting in the queue, in the order they will be started
+   */
+  getQueuedDownloadIds(): string[] {
+    return this.downloadScheduler.getQueuedIds();
+  }
+
+  /**
+   * Changes the priority of a queued download. Returns false if the download is not queued.
+   */
+  setQueuedDownloadPriority(id: string, priority: number): boolean {
+    this.log(`Setting queued download priority to ${priority}`, { downloadId: id });
+    return this.downloadScheduler.setPriority(id, priority);
+  }
+
+  /**
+   * Moves a queued download to the front of the queue. Returns false if the download is not queued.
+   */
+  promoteQueuedDownload(id: string): boolean {
+    this.log("Promoting queued download", { downloadId: id });
+    return this.downloadScheduler.promote(id);
+  }
+
+  /**
+   * Removes a download from the queue without starting it. No callbacks are called.
+   * Returns false if the download is not queued.
+   */
+  removeQueuedDownload(id: string): boolean {
+    if (!this.downloadScheduler.remove(id)) {
+      this.log(`Download ${id} not found in the queue for removal`, { downloadId: id });
+      return false;
+    }
+
+    this.log("Removed download from the queue", { downloadId: id });
+    this.downloadData[id].status = "cancelled";
+    this.notifyDownloadEnded(this.downloadData[id]);
+    delete this.downloadData[id];
+    this.updateProgressIndicator();
+    return true;
+  }
+
+  /**
+   * Changes the maximum number of downloads that can run at the same time.
+   * Raising the limit starts queued downloads right away.
+   */
+  setMaxConcurrentDownloads(maxConcurrentDownloads?: number) {
+    this.log(`Setting max concurrent downloads to ${maxConcurrentDownloads}`);
+    this.downloadScheduler.setMaxConcurrentDownloads(maxConcurrentDownloads);
+  }
+
+  /**
+   * Changes the maximum combined download rate of all downloads. Removes the limit if not defined.
+   */
+  setMaxBytesPerSecond(maxBytesPerSecond?: number) {
+    this.log(`Setting max bytes per second to ${maxBytesPerSecond}`);
+    this.bandwidthLimiter.setMaxBytesPerSecond(maxBytesPerSecond);
+  }
+
+  /**
+   * Changes the maximum download rate of a download. Removes the limit if not defined.
+   * Returns false if the download has not started or has finished.
+   */
+  setDownloadMaxBytesPerSecond(id: string, maxBytesPerSecond?: number): boolean {
+    this.log(`Setting max bytes per second to ${maxBytesPerSecond}`, { downloadId: id });
+
+    if (!this.bandwidthLimiter.setDownloadMaxBytesPerSecond(id, maxBytesPerSecond)) {
+      this.log(`Download ${id} not found for setting the max bytes per second`, { downloadId: id });
+      return false;
+    }
+
+    return true;
   }
 
   /**
    * Starts a download. If saveDialogOptions has been defined in the config,
    * the saveAs dialog will show up first.
    *
-   * Returns the id of the download.
+   * If the maximum number of concurrent downloads has been reached, the download
+   * is queued and the id is returned right away.
+   *
+   * Returns the id of the download. Throws a `PolicyViolationError` if the URL is not allowed by the policy,
+   * a `ConfigValidationError` if the options are invalid and a `DownloadStartError` if the download can't be started.
    */
   async download(params: DownloadConfig): Promise<string> {
+    for (const policy of [this.policy, params.policy]) {
+      const violation = policy && checkDownloadPolicy(policy, { urls: [params.url] }, "validation");
+
+      if (violation) {
+        throw violation;
+      }
+    }
+
+    if (params.saveAsFilename && params.saveDialogOptions) {
+      throw new ConfigValidationError(
+        "You cannot define both saveAsFilename and saveDialogOptions to start a download",
+        {
+          option: "saveAsFilename",
+        },
+      );
+    }
+
+    if (params.saveAsFilename && params.filenameTemplate) {
+      throw new ConfigValidationError(
+        "You cannot define both saveAsFilename and filenameTemplate to start a download",
+        {
+          option: "saveAsFilename",
+        },
+      );
+    }
+
+    if (params.integrity) {
+      // A malformed value would otherwise only be found once the whole file has been downloaded
+      parseIntegrity(params.integrity, "validation");
+    }
+
+    const downloadData = new DownloadData();
+    downloadData.priority = params.priority || 0;
+    downloadData.url = params.url;
+    downloadData.tags = params.tags || [];
+    // Set before the download starts so queued downloads can be traced back to their window
+    downloadData.webContents = params.window.webContents;
+
+    if (!this.downloadScheduler.hasCapacity()) {
+      this.log(`Queueing download for url: ${truncateUrl(params.url)}`, {
+        level: "info",
+        event: "download-queued",
+        downloadId: downloadData.id,
+        fields: { url: params.url, priority: downloadData.priority },
+      });
+      this.setQueuedDownloadStatus(
+        downloadData,
+        new CallbackDispatcher(downloadData.id, params.callbacks, this.logger, this.dispatchEvent),
+        "queued",
+      );
+      this.downloadData[downloadData.id] = downloadData;
+      this.downloadScheduler.enqueue({
+        id: downloadData.id,
+        priority: downloadData.priority,
+        config: params,
+        downloadData,
+      });
+
+      return downloadData.id;
+    }
+
+    this.downloadScheduler.markActive(downloadData.id);
+
+    try {
+      return await this.startDownload(params, downloadData);
+    } catch (e) {
+      this.downloadScheduler.release(downloadData.id);
+      throw e instanceof DownloadManagerError ? e : new DownloadStartError(e);
+    }
+  }
+
+  /**
+   * Starts a download and waits until it has completed, been cancelled, been skipped or been interrupted.
+   *
+   * Rejects with a `DownloadFailedError` if the download fails to start or ends
+   * without one of those outcomes, such as when its checksum does not match.
+   */
+  async downloadAndWait(params: DownloadConfig): Promise<DownloadResult> {
+    const { result } = await this.startAndWait(params);
+    return result;
+  }
+
+  /**
+   * Starts a download. Resolves with its id once it has started or been queued, along with
+   * a promise of its result. Used by `downloadAndWait()` and `downloadBatch()`.
+   */
+  private async startAndWait(params: DownloadConfig): Promise<{ id: string; result: Promise<DownloadResult> }> {
+    const startTime = Date.now();
+    const { callbacks } = params;
+
+    let settled = false;
+    let lastError: DownloadManagerError | undefined;
+    let lastErrorData: DownloadData | undefined;
+    let resolveResult: (result: DownloadResult) => void = () => {};
+    let rejectResult: (error: Error) => void = () => {};
+
+    const result = new Promise<DownloadResult>((resolve, reject) => {
+      resolveResult = resolve;
+      rejectResult = reject;
+    });
+
+    const settle = (outcome: DownloadResult["outcome"], data: DownloadData) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      delete this.downloadEndedHandlers[data.id];
+
+      const { item } = data;
+
+      resolveResult({
+        id: data.id,
+        outcome,
+        savePath: data.processedFilePath || data.existingFilePath || data.finalSavePath || item.getSavePath?.() || "",
+        receivedBytes: item.getReceivedBytes?.() || 0,
+        totalBytes: item.getTotalBytes?.() || 0,
+        durationMs: Date.now() - startTime,
+        downloadData: data,
+      });
+    };
+
+    const fail = (id: string, data?: DownloadData) => {
+      if (settled) {
+        return;
+      }
+
+      settled = true;
+      rejectResult(
+        new DownloadFailedError(
+          lastError ? `Download failed: ${lastError.message}` : "Download ended without completing",
+          {
+            downloadId: id,
+            downloadData: data,
+            cause: lastError,
+          },
+        ),
+      );
+    };
+
+    let id: string;
+
+    try {
+      id = await this.download({
+        ...params,
+        callbacks: {
+          ...callbacks,
+          onDownloadCompleted: async (data) => {
+            try {
+              await callbacks.onDownloadCompleted?.(data);
+            } finally {
+              settle("completed", data);
+            }
+          },
+          onDownloadCancelled: async (data) => {
+            try {
+              await callbacks.onDownloadCancelled?.(data);
+            } finally {
+              settle("cancelled", data);
+            }
+          },
+          onDownloadSkipped: async (data) => {
+            try {
+              await callbacks.onDownloadSkipped?.(data);
+            } finally {
+              settle("skipped", data);
+            }
+          },
+          onDownloadInterrupted: async (data) => {
+            try {
+              await callbacks.onDownloadInterrupted?.(data);
+            } finally {
+              settle("interrupted", data);
+            }
+          },
+          onError: (error, data) => {
+            lastError = error;
+            lastErrorData = data;
+            return callbacks.onError?.(error, data);
+          },
+        },
+      });
+    } catch (e) {
+      throw new DownloadFailedError(`Download failed to start: ${(e as Error).message}`, { cause: e as Error });
+    }
+
+    if (!settled) {
+      if (this.downloadData[id]) {
+        this.downloadEndedHandlers[id] = (data) => fail(id, data);
+      } else {
+        // The download was rejected in will-download, such as by the policy, so it has already ended
+        fail(id, lastErrorData);
+      }
+    }
+
+    return { id, result };
+  }
+
+  /**
+   * Starts a group of downloads that is tracked as one, with combined progress and a single
+   * `onBatchCompleted` callback. The files are subject to `maxConcurrentDownloads` like any other download.
+   *
+   * Returns the id of the batch.
+   */
+  async downloadBatch(configs: DownloadConfig[], options: DownloadBatchOptions = {}): Promise<string> {
+    if (configs.length === 0) {
+      throw new ConfigValidationError("A batch must contain at least one download");
+    }
+
+    const batch = new DownloadBatch(configs, options);
+    this.batches[batch.id] = batch;
+
+    this.log(`[batch ${batch.id}] Starting batch of ${configs.length} downloads`, { fields: { batchId: batch.id } });
+
+    await Promise.all(configs.map((config, index) => this.startBatchDownload(batch, config, index)));
+
+    return batch.id;
+  }
+
+  /**
+   * Starts a file in a batch and records its result in the batch
+   */
+  private async startBatchDownload(batch: DownloadBatch, config: DownloadConfig, index: number) {
+    const { callbacks } = config;
+
+    const handleBatchError = (e: unknown) => {
+      this.log(`[batch ${batch.id}] Error in a batch callback: ${e}`, {
+        level: "error",
+        event: "callback-error",
+        fields: { batchId: batch.id },
+      });
+    };
+
+    const finish = (result: Omit<DownloadBatchFileResult, "index" | "url">) => {
+      batch
+        .finishFile(index, result)
+        .catch(handleBatchError)
+        .finally(() => {
+          if (batch.isFinished()) {
+            this.log(`[batch ${batch.id}] Batch has finished`, { fields: { batchId: batch.id } });
+            delete this.batches[batch.id];
+          } else if (batch.shouldCancelOnFailure()) {
+            this.log(`[batch ${batch.id}] Cancelling the rest of the batch after a failure`, {
+              fields: { batchId: batch.id },
+            });
+            this.cancelBatchDownloads(batch);
+          }
+        });
+    };
+
+    let started: { id: string; result: Promise<DownloadResult> };
+
+    try {
+      started = await this.startAndWait({
+        ...config,
+        callbacks: {
+          ...callbacks,
+          onDownloadStarted: async (data) => {
+            await callbacks.onDownloadStarted?.(data);
+            await batch.updateProgress(index, data).catch(handleBatchError);
+          },
+          onDownloadProgress: async (data) => {
+            await callbacks.onDownloadProgress?.(data);
+            await batch.updateProgress(index, data).catch(handleBatchError);
+          },
+        },
+      });
+    } catch (e) {
+      finish({ outcome: "failed", error: e as Error });
+      return;
+    }
+
+    batch.setDownloadId(index, started.id);
+
+    started.result.then(
+      (result) => finish({ id: result.id, outcome: result.outcome, result }),
+      (e) => finish({ id: started.id, outcome: "failed", error: e as Error }),
+    );
+
+    // The batch may have been cancelled while the download was starting
+    if (batch.cancelled || batch.shouldCancelOnFailure()) {
+      this.cancelDownload(started.id);
+    }
+  }
+
+  /**
+   * Cancels the files in a batch that have not ended yet. Returns false if the batch is not found.
+   */
+  cancelBatch(batchId: string): boolean {
+    const batch = this.batches[batchId];
+
+    if (!batch) {
+      this.log(`[batch ${batchId}] Batch not found for cancellation`, { fields: { batchId } });
+      return false;
+    }
+
+    this.log(`[batch ${batchId}] Cancelling batch`, { fields: { batchId } });
+    batch.cancelled = true;
+    this.cancelBatchDownloads(batch);
+    return true;
+  }
+
+  private cancelBatchDownloads(batch: DownloadBatch) {
+    for (const id of batch.getDownloadIds()) {
+      this.cancelDownload(id);
+    }
+  }
+
+  /**
+   * Pauses the files in a batch. Returns false if the batch is not found.
+   */
+  pauseBatch(batchId: string): boolean {
+    const batch = this.batches[batchId];
+
+    if (!batch) {
+      this.log(`[batch ${batchId}] Batch not found for pausing`, { fields: { batchId } });
+      return false;
+    }
+
+    for (const id of batch.getDownloadIds()) {
+      this.pauseDownload(id);
+    }
+
+    return true;
+  }
+
+  /**
+   * Resumes the files in a batch. Returns false if the batch is not found.
+   */
+  resumeBatch(batchId: string): boolean {
+    const batch = this.batches[batchId];
+
+    if (!batch) {
+      this.log(`[batch ${batchId}] Batch not found for resuming`, { fields: { batchId } });
+      return false;
+    }
+
+    for (const id of batch.getDownloadIds()) {
+      this.resumeDownload(id);
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the ids of the downloads in a batch that have started and not ended yet
+   */
+  getBatchDownloadIds(batchId: string): string[] {
+    return this.batches[batchId]?.getDownloadIds() || [];
+  }
+
+  /**
+   * Sets the status of a download moving in or out of the queue. Once a download has
+   * started, its status is managed by the DownloadInitiator instead.
+   */
+  private setQueuedDownloadStatus(
+    downloadData: DownloadData,
+    callbackDispatcher: CallbackDispatcher,
+    next: DownloadStatus,
+  ) {
+    const prev = downloadData.status;
+    downloadData.status = next;
+    return callbackDispatcher.onStatusChanged(downloadData, prev, next);
+  }
+
+  /**
+   * Starts a download that has been given a slot after waiting in the queue
+   */
+  protected startQueuedDownload({ id, config, downloadData }: QueuedDownload) {
+    this.log("Starting queued download", { downloadId: id });
+    this.setQueuedDownloadStatus(
+      downloadData,
+      new CallbackDispatcher(id, config.callbacks, this.logger, this.dispatchEvent),
+      "pending",
+    );
+
+    this.startDownload(config, downloadData).catch((e) => {
+      this.log(`Failed to start queued download: ${e}`, { level: "error", downloadId: id });
+      delete this.downloadData[id];
+      this.downloadScheduler.release(id);
+      new CallbackDispatcher(id, config.callbacks, this.logger, this.dispatchEvent).handleError(
+        new DownloadStartError(e),
+        downloadData,
+      );
+    });
+  }
+
+  /**
+   * Registers the download with the session and initiates the transfer
+   */
+  protected startDownload(params: DownloadConfig, downloadData: DownloadData): Promise<string> {
     return this.downloadQueue.add(
       () =>
         new Promise<string>((resolve, reject) => {
           try {
-            if (params.saveAsFilename && params.saveDialogOptions) {
-              return reject(Error("You cannot define both saveAsFilename and saveDialogOptions to start a download"));
-            }
+            const downloadInitiator = this.createDownloadInitiator(downloadData, resolve);
 
-            const downloadInitiator = new DownloadInitiator({
-              debugLogger: this.logger,
-              onCleanup: (data) => {
-                this.cleanup(data);
-              },
-              onDownloadInit: (data) => {
-                this.downloadData[data.id] = data;
-                resolve(data.id);
-              },
+            this.log(`Registering download for url: ${truncateUrl(params.url)}`, {
+              downloadId: downloadInitiator.getDownloadId(),
+              fields: { url: params.url },
             });
-
-            this.log(`[${downloadInitiator.getDownloadId()}] Registering download for url: ${truncateUrl(params.url)}`);
-            params.window.webContents.session.once("will-download", downloadInitiator.generateOnWillDownload(params));
+            this.onceWillDownload(
+              params.window.webContents.session,
+              params.url,
+              downloadInitiator.generateOnWillDownload(params),
+            );
             params.window.webContents.downloadURL(params.url, params.downloadURLOptions);
           } catch (e) {
             reject(e);
@@ -139,8 +829,390 @@ export class ElectronDownloadManager implements IElectronDownloadManager {
     );
   }
 
+  /**
+   * Registers the handler for the `will-download` event of a download started by the manager.
+   * On an attached session, the event is matched to the handler by URL instead.
+   */
+  private onceWillDownload(session: Session, url: string, handler: WillDownloadHandler) {
+    const attached = this.attachedSessions.get(session);
+
+    if (attached) {
+      attached.pending.push({ url: normalizeUrl(url), handler });
+    } else {
+      session.once("will-download", handler);
+    }
+  }
+
+  /**
+   * Handles every download started in the session, such as from the user clicking a link,
+   * with the same flow and callbacks as `download()`. The policy decides where to save the file,
+   * whether to show the save dialog, or rejects the download. Downloads are accepted with
+   * the default options if no policy is defined.
+   *
+   * Downloads started by the user start right away and count towards `maxConcurrentDownloads`.
+   *
+   * Returns a function that detaches the session.
+   */
+  attachToSession(session: Session, policy: SessionDownloadPolicyFn = () => ({})): () => void {
+    const existing = this.attachedSessions.get(session);
+
+    if (existing) {
+      this.log("Session is already attached, replacing its policy");
+      existing.policy = policy;
+      return () => this.detachFromSession(session);
+    }
+
+    const attached: AttachedSession = {
+      policy,
+      pending: [],
+      listener: (event, item, webContents) => {
+        const url = normalizeUrl(item.getURLChain()[0] || item.getURL());
+        const index = attached.pending.findIndex((pending) => pending.url === url);
+
+        if (index !== -1) {
+          const [{ handler }] = attached.pending.splice(index, 1);
+          handler(event, item, webContents);
+          return;
+        }
+
+        this.handleSessionDownload(attached.policy, event, item, webContents);
+      },
+    };
+
+    this.log("Attaching to session");
+    this.attachedSessions.set(session, attached);
+    session.on("will-download", attached.listener);
+
+    return () => this.detachFromSession(session);
+  }
+
+  private detachFromSession(session: Session) {
+    const attached = this.attachedSessions.get(session);
+
+    if (!attached) {
+      return;
+    }
+
+    this.log("Detaching from session");
+    this.attachedSessions.delete(session);
+    session.off("will-download", attached.listener);
+
+    // Downloads started by the manager that are still waiting for their event go back to a one-shot listener
+    for (const { handler } of attached.pending) {
+      session.once("will-download", handler);
+    }
+  }
+
+  /**
+   * Runs a download started by the user in an attached session through the download flow
+   */
+  protected handleSessionDownload(
+    policy: SessionDownloadPolicyFn,
+    event: Event,
+    item: DownloadItem,
+    webContents: WebContents,
+  ) {
+    const url = item.getURL();
+    let decision: SessionDownloadDecision | false;
+
+    try {
+      decision = policy({ item, webContents, url, filename: item.getFilename(), mimeType: item.getMimeType() });
+    } catch (e) {
+      this.log(`Rejecting download for url ${truncateUrl(url)}, the policy threw: ${e}`, {
+        level: "error",
+        event: "download-rejected",
+        fields: { url },
+      });
+      event.preventDefault();
+      return;
+    }
+
+    if (!decision) {
+      this.log(`Download for url ${truncateUrl(url)} was rejected by the policy`, {
+        level: "info",
+        event: "download-rejected",
+        fields: { url },
+      });
+      event.preventDefault();
+      return;
+    }
+
+    const { callbacks = {}, tags, ...config } = decision;
+    const downloadData = new DownloadData();
+    downloadData.url = url;
+    downloadData.tags = tags || [];
+
+    this.log(`Handling download started in the session for url: ${truncateUrl(url)}`, {
+      downloadId: downloadData.id,
+      fields: { url },
+    });
+    this.downloadScheduler.markActive(downloadData.id);
+
+    const downloadInitiator = this.createDownloadInitiator(downloadData, () => {});
+
+    // Not deferred: the save path, including the staging path used while the save dialog is open,
+    // has to be set before the will-download listener returns
+    downloadInitiator
+      .generateOnWillDownload({ ...config, callbacks })(event, item, webContents)
+      .catch((e) => {
+        this.log(`Failed to handle download started in the session: ${e}`, {
+          level: "error",
+          downloadId: downloadData.id,
+        });
+        delete this.downloadData[downloadData.id];
+        this.downloadScheduler.release(downloadData.id);
+        new CallbackDispatcher(downloadData.id, callbacks, this.logger, this.dispatchEvent).handleError(
+          new DownloadStartError(e),
+          downloadData,
+        );
+      });
+  }
+
+  /**
+   * Creates the initiator that runs the download flow, calling onInit once
+   * the DownloadItem is available
+   */
+  protected createDownloadInitiator(downloadData: DownloadData, onInit: (id: string) => void) {
+    return new DownloadInitiator({
+      logger: this.logger,
+      downloadData,
+      scheduleWillDownload: (task) => this.downloadQueue.add(task),
+      onceWillDownload: (session, url, handler) => this.onceWillDownload(session, url, handler),
+      dispatchEvent: this.dispatchEvent,
+      bandwidthLimiter: this.bandwidthLimiter,
+      postProcessing: this.postProcessing,
+      policy: this.policy,
+      progressThrottle: this.progressThrottle,
+      rateEstimator: this.rateEstimator,
+      onCleanup: (data) => {
+        this.cleanup(data);
+      },
+      onDownloadInit: (data) => {
+        this.downloadData[data.id] = data;
+        onInit(data.id);
+      },
+    });
+  }
+
+  /**
+   * Saves the state of the in-progress downloads to disk so they can be restored
+   * with `restoreDownloads()` after an app restart. Returns the saved state.
+   */
+  async saveDownloadState(): Promise<PersistedDownload[]> {
+    const downloads = Object.values(this.downloadData)
+      .map((data) => getPersistedDownload(data))
+      .filter((download): download is PersistedDownload => !!download);
+
+    await this.getDownloadStateFile().write(downloads);
+    this.downloadStateSaved = true;
+
+    return downloads;
+  }
+
+  /**
+   * Stops saving the download state periodically, such as before the manager is discarded.
+   * The state can still be saved with `saveDownloadState()`.
+   */
+  stopSavingDownloadState() {
+    if (this.downloadStateSaveInterval) {
+      clearInterval(this.downloadStateSaveInterval);
+      this.downloadStateSaveInterval = undefined;
+    }
+  }
+
+  /**
+   * Restores the downloads saved by `saveDownloadState()` into the session and resumes them.
+   * Downloads whose partial file no longer exists are skipped.
+   *
+   * Restored downloads start right away and count towards `maxConcurrentDownloads`.
+   *
+   * Returns the ids of the restored downloads.
+   */
+  async restoreDownloads(session: Session, params: RestoreDownloadsParams = {}): Promise<string[]> {
+    const downloads = await this.getDownloadStateFile().read();
+    const ids: string[] = [];
+
+    for (const download of downloads) {
+      if (this.downloadData[download.id]) {
+        this.log("Download is already active, skipping restore", { downloadId: download.id });
+        continue;
+      }
+
+      try {
+        await stat(download.savePath);
+      } catch (e) {
+        this.log(`Partial file ${download.savePath} not found, skipping restore`, {
+          level: "warn",
+          downloadId: download.id,
+        });
+        continue;
+      }
+
+      try {
+        ids.push(await this.restoreDownload(session, download, params));
+      } catch (e) {
+        this.log(`Failed to restore download: ${e}`, {
+          level: "error",
+          event: "restore-failed",
+          downloadId: download.id,
+        });
+      }
+    }
+
+    await this.saveDownloadState();
+
+    return ids;
+  }
+
+  /**
+   * Recreates a saved download in the session and attaches the download flow to it
+   */
+  protected async restoreDownload(
+    session: Session,
+    download: PersistedDownload,
+    params: RestoreDownloadsParams,
+  ): Promise<string> {
+    const downloadData = new DownloadData();
+    downloadData.id = download.id;
+    downloadData.resolvedFilename = download.resolvedFilename;
+    downloadData.url = download.urlChain[0] || "";
+    downloadData.tags = download.tags || [];
+    downloadData.finalSavePath = download.finalSavePath;
+
+    const callbacks = typeof params.callbacks === "function" ? params.callbacks(download) : params.callbacks || {};
+
+    this.downloadScheduler.markActive(downloadData.id);
+
+    try {
+      return await this.downloadQueue.add(
+        () =>
+          new Promise<string>((resolve, reject) => {
+            try {
+              const downloadInitiator = this.createDownloadInitiator(downloadData, resolve);
+
+              this.log(`Restoring download for url: ${truncateUrl(download.urlChain.at(-1) || "")}`, {
+                level: "info",
+                event: "download-restoring",
+                downloadId: download.id,
+                fields: { url: download.urlChain.at(-1), receivedBytes: download.receivedBytes },
+              });
+              this.onceWillDownload(
+                session,
+                download.urlChain[0] || "",
+                downloadInitiator.generateOnWillDownload({
+                  callbacks,
+                  retry: params.retry,
+                  savePath: download.savePath,
+                }),
+              );
+              session.createInterruptedDownload({
+                path: download.savePath,
+                urlChain: download.urlChain,
+                mimeType: download.mimeType,
+                offset: download.receivedBytes,
+                length: download.totalBytes,
+                lastModified: download.lastModified,
+                eTag: download.eTag,
+                startTime: download.startTime,
+              });
+            } catch (e) {
+              reject(e);
+            }
+          }),
+      );
+    } catch (e) {
+      this.downloadScheduler.release(downloadData.id);
+      throw e;
+    }
+  }
+
+  private getDownloadStateFile() {
+    if (!this.downloadStateFile) {
+      this.downloadStateFile = new DownloadStateFile(this.downloadStateFilePath);
+    }
+
+    return this.downloadStateFile;
+  }
+
+  /**
+   * Returns the finished downloads that match the query, newest first.
+   * Returns no entries if history has not been enabled.
+   */
+  async getDownloadHistory(query?: DownloadHistoryQuery): Promise<DownloadHistoryQueryResult> {
+    if (!this.historyStore) {
+      return { entries: [], total: 0 };
+    }
+
+    return this.historyStore.query(query);
+  }
+
+  /**
+   * Removes all entries from the download history
+   */
+  async clearDownloadHistory() {
+    await this.historyStore?.clear();
+  }
+
+  /**
+   * Lets `downloadAndWait()` know that a download has ended
+   */
+  private notifyDownloadEnded(data: DownloadData) {
+    const handler = this.downloadEndedHandlers[data.id];
+
+    if (handler) {
+      delete this.downloadEndedHandlers[data.id];
+      handler(data);
+    }
+  }
+
   protected cleanup(data: DownloadData) {
+    this.notifyDownloadEnded(data);
     delete this.downloadData[data.id];
+    this.downloadScheduler.release(data.id);
+    this.recordHistory(data);
+    this.updateProgressIndicator();
+
+    if (this.downloadStateSaved) {
+      // Remove the finished download from the saved state
+      this.saveDownloadState().catch((e) => {
+        this.log(`Failed to save download state: ${e}`, { level: "error", event: "state-save-failed" });
+      });
+    }
+  }
+
+  /**
+   * Adds a finished download to the history store, if enabled
+   */
+  protected recordHistory(data: DownloadData) {
+    const { item, status: outcome } = data;
+
+    if (!this.historyStore || !item.getState) {
+      return;
+    }
+
+    // The status is used rather than the state of the item, which is "completed" for a download whose checksum
+    // did not match. Skipped downloads did not download anything.
+    if (outcome !== "completed" && outcome !== "cancelled" && outcome !== "interrupted" && outcome !== "failed") {
+      return;
+    }
+
+    this.historyStore
+      .add({
+        id: data.id,
+        url: item.getURL(),
+        savePath: data.finalSavePath || item.getSavePath(),
+        filename: data.resolvedFilename,
+        totalBytes: item.getTotalBytes(),
+        receivedBytes: item.getReceivedBytes(),
+        mimeType: item.getMimeType(),
+        outcome,
+        startTime: item.getStartTime() * 1000,
+        endTime: Date.now(),
+        interruptedVia: data.interruptedVia,
+      })
+      .catch((e) => {
+        this.log(`Failed to record download history: ${e}`, { level: "error", downloadId: data.id });
+      });
   }
 
   /**
@@ -1,15 +1,65 @@
+import { EventEmitter } from "node:events";
+import type { Session } from "electron";
 import { DownloadData } from "./DownloadData";
-import type { DownloadConfig, IElectronDownloadManager } from "./types";
+import type {
+  AggregateProgress,
+  DownloadBatchOptions,
+  DownloadConfig,
+  DownloadFilter,
+  DownloadHistoryQuery,
+  DownloadHistoryQueryResult,
+  DownloadManagerEvents,
+  DownloadResult,
+  IElectronDownloadManager,
+  PersistedDownload,
+  RestoreDownloadsParams,
+  SessionDownloadPolicyFn,
+} from "./types";
 
 /**
  * Mock version of ElectronDownloadManager
  * that can be used for testing purposes
  */
-export class ElectronDownloadManagerMock implements IElectronDownloadManager {
+export class ElectronDownloadManagerMock
+  extends EventEmitter<DownloadManagerEvents>
+  implements IElectronDownloadManager
+{
   async download(_params: DownloadConfig): Promise<string> {
     return "mock-download-id";
   }
 
+  async downloadAndWait(_params: DownloadConfig): Promise<DownloadResult> {
+    return {
+      id: "mock-download-id",
+      outcome: "completed",
+      savePath: "",
+      receivedBytes: 0,
+      totalBytes: 0,
+      durationMs: 0,
+      downloadData: this.getDownloadData("mock-download-id"),
+    };
+  }
+
+  async downloadBatch(_configs: DownloadConfig[], _options?: DownloadBatchOptions): Promise<string> {
+    return "mock-batch-id";
+  }
+
+  cancelBatch(_batchId: string): boolean {
+    return false;
+  }
+
+  pauseBatch(_batchId: string): boolean {
+    return false;
+  }
+
+  resumeBatch(_batchId: string): boolean {
+    return false;
+  }
+
+  getBatchDownloadIds(_batchId: string): string[] {
+    return [];
+  }
+
   cancelDownload(_id: string): void {}
 
   pauseDownload(_id: string): void {}
@@ -20,9 +70,84 @@ export class ElectronDownloadManagerMock implements IElectronDownloadManager {
     return 0;
   }
 
+  getAggregateProgress(): AggregateProgress {
+    return {
+      activeCount: 0,
+      pausedCount: 0,
+      queuedCount: 0,
+      totalBytes: 0,
+      receivedBytes: 0,
+      downloadRateBytesPerSecond: 0,
+      estimatedTimeRemainingSeconds: 0,
+      percentCompleted: 0,
+      hasUnknownSize: false,
+      hasInterrupted: false,
+    };
+  }
+
   getDownloadData(id: string) {
     const downloadData = new DownloadData();
     downloadData.id = id;
     return downloadData;
   }
+
+  listDownloads(_filter?: DownloadFilter): DownloadData[] {
+    return [];
+  }
+
+  cancelAll(_filter?: DownloadFilter): string[] {
+    return [];
+  }
+
+  pauseAll(_filter?: DownloadFilter): string[] {
+    return [];
+  }
+
+  resumeAll(_filter?: DownloadFilter): string[] {
+    return [];
+  }
+
+  getQueuedDownloadIds(): string[] {
+    return [];
+  }
+
+  setQueuedDownloadPriority(_id: string, _priority: number): boolean {
+    return false;
+  }
+
+  promoteQueuedDownload(_id: string): boolean {
+    return false;
+  }
+
+  removeQueuedDownload(_id: string): boolean {
+    return false;
+  }
+
+  setMaxConcurrentDownloads(_maxConcurrentDownloads?: number): void {}
+
+  setMaxBytesPerSecond(_maxBytesPerSecond?: number): void {}
+
+  setDownloadMaxBytesPerSecond(_id: string, _maxBytesPerSecond?: number): boolean {
+    return false;
+  }
+
+  async getDownloadHistory(_query?: DownloadHistoryQuery): Promise<DownloadHistoryQueryResult> {
+    return { entries: [], total: 0 };
+  }
+
+  async clearDownloadHistory(): Promise<void> {}
+
+  async saveDownloadState(): Promise<PersistedDownload[]> {
+    return [];
+  }
+
+  stopSavingDownloadState(): void {}
+
+  async restoreDownloads(_session: Session, _params?: RestoreDownloadsParams): Promise<string[]> {
+    return [];
+  }
+
+  attachToSession(_session: Session, _policy?: SessionDownloadPolicyFn): () => void {
+    return () => {};
+  }
 }
@@ -0,0 +1,151 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { app } from "electron";
+import { ConfigValidationError } from "./errors";
+import type {
+  DownloadHistoryEntry,
+  DownloadHistoryQuery,
+  DownloadHistoryQueryResult,
+  DownloadHistoryStore,
+} from "./types";
+
+interface JsonFileHistoryStoreConstructorParams {
+  /**
+   * The path of the JSON file to store the history in. Must be an absolute path.
+   * @default <userData>/download-history.json
+   */
+  filePath?: string;
+  /**
+   * The maximum number of entries to keep. The oldest entries are removed first.
+   * @default 1000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Stores the download history in a JSON file.
+ */
+export class JsonFileHistoryStore implements DownloadHistoryStore {
+  private filePath: string;
+  private maxEntries: number;
+  /**
+   * The entries, newest first. Loaded from the file on first use.
+   */
+  private entries?: DownloadHistoryEntry[];
+  /**
+   * Used to make sure reads and writes to the file happen one at a time
+   */
+  private pending: Promise<unknown>;
+
+  constructor(params: JsonFileHistoryStoreConstructorParams = {}) {
+    if (params.filePath && !path.isAbsolute(params.filePath)) {
+      throw new ConfigValidationError("The `filePath` option must be an absolute path", { option: "filePath" });
+    }
+
+    this.filePath = params.filePath || path.join(app?.getPath("userData"), "download-history.json");
+    this.maxEntries = params.maxEntries || 1000;
+    this.pending = Promise.resolve();
+  }
+
+  async add(entry: DownloadHistoryEntry) {
+    await this.enqueue(async () => {
+      const entries = (await this.load()).filter((existing) => existing.id !== entry.id);
+      entries.unshift(entry);
+      entries.sort((a, b) => b.endTime - a.endTime);
+      this.entries = entries.slice(0, this.maxEntries);
+      await this.save();
+    });
+  }
+
+  async query(query: DownloadHistoryQuery = {}): Promise<DownloadHistoryQueryResult> {
+    const entries = await this.enqueue(() => this.load());
+    return queryHistoryEntries(entries, query);
+  }
+
+  async remove(id: string) {
+    await this.enqueue(async () => {
+      this.entries = (await this.load()).filter((entry) => entry.id !== id);
+      await this.save();
+    });
+  }
+
+  async clear() {
+    await this.enqueue(async () => {
+      this.entries = [];
+      await this.save();
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.pending.then(task);
+    this.pending = result.catch(() => {});
+    return result;
+  }
+
+  private async load(): Promise<DownloadHistoryEntry[]> {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    try {
+      const contents = await readFile(this.filePath, "utf-8");
+      const entries = JSON.parse(contents);
+      this.entries = Array.isArray(entries) ? entries : [];
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw e;
+      }
+
+      this.entries = [];
+    }
+
+    return this.entries;
+  }
+
+  private async save() {
+    // Write to a temporary file first so a crash mid-write doesn't corrupt the history
+    const tmpPath = `${this.filePath}.tmp`;
+
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    await writeFile(tmpPath, JSON.stringify(this.entries), "utf-8");
+    await rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * Filters and paginates history entries. Can be used by custom stores
+ * that keep their entries in memory.
+ */
+export function queryHistoryEntries(
+  entries: DownloadHistoryEntry[],
+  query: DownloadHistoryQuery = {},
+): DownloadHistoryQueryResult {
+  const { outcome, url, since, until, offset = 0, limit } = query;
+
+  const matches = entries
+    .filter((entry) => {
+      if (outcome && entry.outcome !== outcome) {
+        return false;
+      }
+
+      if (url !== undefined && !(typeof url === "string" ? entry.url.includes(url) : url.test(entry.url))) {
+        return false;
+      }
+
+      if (since !== undefined && entry.endTime < since) {
+        return false;
+      }
+
+      if (until !== undefined && entry.endTime >= until) {
+        return false;
+      }
+
+      return true;
+    })
+    .sort((a, b) => b.endTime - a.endTime);
+
+  return {
+    entries: matches.slice(offset, limit === undefined ? undefined : offset + limit),
+    total: matches.length,
+  };
+}
@@ -0,0 +1,62 @@
+import { BrowserWindow, app } from "electron";
+import type { AggregateProgress, ProgressIndicatorOptions } from "./types";
+
+/**
+ * Mirrors the aggregate progress of the downloads to the taskbar / dock progress bar
+ * and the app badge count.
+ */
+export class ProgressIndicator {
+  private options: ProgressIndicatorOptions;
+  /**
+   * The last badge count that was set, so it is only updated when it changes
+   */
+  private badgeCount: number;
+
+  constructor(options: ProgressIndicatorOptions = {}) {
+    this.options = options;
+    this.badgeCount = 0;
+  }
+
+  update(progress: AggregateProgress) {
+    if (this.options.progressBar !== false) {
+      this.updateProgressBar(progress);
+    }
+
+    if (this.options.badgeCount) {
+      this.updateBadgeCount(progress.activeCount + progress.queuedCount);
+    }
+  }
+
+  private updateProgressBar(progress: AggregateProgress) {
+    const windows = this.options.window ? [this.options.window] : BrowserWindow.getAllWindows();
+
+    for (const window of windows) {
+      if (window.isDestroyed()) {
+        continue;
+      }
+
+      if (progress.activeCount === 0) {
+        // A negative value removes the progress bar
+        window.setProgressBar(-1);
+      } else if (progress.hasInterrupted) {
+        window.setProgressBar(progress.percentCompleted / 100, { mode: "error" });
+      } else if (progress.pausedCount === progress.activeCount) {
+        window.setProgressBar(progress.percentCompleted / 100, { mode: "paused" });
+      } else if (progress.hasUnknownSize) {
+        // A value greater than 1 shows an indeterminate progress bar on macOS and Linux
+        window.setProgressBar(2, { mode: "indeterminate" });
+      } else {
+        window.setProgressBar(progress.percentCompleted / 100);
+      }
+    }
+  }
+
+  private updateBadgeCount(count: number) {
+    if (count === this.badgeCount) {
+      return;
+    }
+
+    this.badgeCount = count;
+    app.setBadgeCount(count);
+  }
+}
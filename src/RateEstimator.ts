@@ -0,0 +1,177 @@
+import type { RateEstimate, RateEstimator, RateSample } from "./types";
+
+interface RateEstimatorConstructorParams {
+  /**
+   * How long the rate has to be measured for, in milliseconds, before the estimate is reliable
+   * @default 3000
+   */
+  minReliableDurationMs?: number;
+  /**
+   * The maximum number of samples kept in the history. The oldest samples are dropped first.
+   * @default 1000
+   */
+  maxSamples?: number;
+}
+
+/**
+ * Keeps the sample history and turns consecutive samples into intervals of download time.
+ * The time between a pause and the next sample is not counted.
+ */
+abstract class IntervalRateEstimator implements RateEstimator {
+  private minReliableDurationMs: number;
+  private maxSamples: number;
+  private samples: RateSample[];
+  /**
+   * The sample the next interval starts from. Undefined after a pause.
+   */
+  private lastSample?: RateSample;
+  /**
+   * The total time measured, in milliseconds
+   */
+  private measuredMs: number;
+  private instantaneousBytesPerSecond: number;
+
+  constructor(params: RateEstimatorConstructorParams = {}) {
+    this.minReliableDurationMs = params.minReliableDurationMs ?? 3000;
+    this.maxSamples = params.maxSamples || 1000;
+    this.samples = [];
+    this.measuredMs = 0;
+    this.instantaneousBytesPerSecond = 0;
+  }
+
+  addSample(receivedBytes: number, timeMs = Date.now()) {
+    const sample = { receivedBytes, timeMs };
+    const { lastSample } = this;
+
+    this.samples.push(sample);
+
+    if (this.samples.length > this.maxSamples) {
+      this.samples.shift();
+    }
+
+    if (lastSample && timeMs <= lastSample.timeMs) {
+      return;
+    }
+
+    this.lastSample = sample;
+
+    // The download has been restarted from scratch if fewer bytes have been received
+    if (!lastSample || receivedBytes < lastSample.receivedBytes) {
+      return;
+    }
+
+    const durationMs = timeMs - lastSample.timeMs;
+    const bytes = receivedBytes - lastSample.receivedBytes;
+
+    this.measuredMs += durationMs;
+    this.instantaneousBytesPerSecond = (bytes / durationMs) * 1000;
+    this.addInterval(durationMs, bytes);
+  }
+
+  pause() {
+    this.lastSample = undefined;
+    this.instantaneousBytesPerSecond = 0;
+  }
+
+  getEstimate(): RateEstimate {
+    return {
+      bytesPerSecond: this.getRate(),
+      instantaneousBytesPerSecond: this.instantaneousBytesPerSecond,
+      reliable: this.measuredMs >= this.minReliableDurationMs,
+    };
+  }
+
+  getSamples() {
+    return [...this.samples];
+  }
+
+  /**
+   * Adds the bytes received over an interval of download time
+   */
+  protected abstract addInterval(durationMs: number, bytes: number): void;
+
+  /**
+   * Returns the smoothed rate in bytes per second
+   */
+  protected abstract getRate(): number;
+}
+
+interface SlidingWindowRateEstimatorConstructorParams extends RateEstimatorConstructorParams {
+  /**
+   * The amount of download time the rate is averaged over, in milliseconds
+   * @default 5000
+   */
+  windowMs?: number;
+}
+
+/**
+ * Estimates the rate as the average over the last few seconds of download time
+ */
+export class SlidingWindowRateEstimator extends IntervalRateEstimator {
+  private windowMs: number;
+  private intervals: Array<{ durationMs: number; bytes: number }>;
+  private windowDurationMs: number;
+  private windowBytes: number;
+
+  constructor(params: SlidingWindowRateEstimatorConstructorParams = {}) {
+    super(params);
+    this.windowMs = params.windowMs || 5000;
+    this.intervals = [];
+    this.windowDurationMs = 0;
+    this.windowBytes = 0;
+  }
+
+  protected addInterval(durationMs: number, bytes: number) {
+    this.intervals.push({ durationMs, bytes });
+    this.windowDurationMs += durationMs;
+    this.windowBytes += bytes;
+
+    // Keep the newest interval even if it is longer than the window
+    while (this.intervals.length > 1 && this.windowDurationMs - this.intervals[0].durationMs >= this.windowMs) {
+      const oldest = this.intervals.shift() as { durationMs: number; bytes: number };
+      this.windowDurationMs -= oldest.durationMs;
+      this.windowBytes -= oldest.bytes;
+    }
+  }
+
+  protected getRate() {
+    return this.windowDurationMs > 0 ? (this.windowBytes / this.windowDurationMs) * 1000 : 0;
+  }
+}
+
+interface EwmaRateEstimatorConstructorParams extends RateEstimatorConstructorParams {
+  /**
+   * The amount of download time after which a measurement has half of its weight, in milliseconds
+   * @default 2000
+   */
+  halfLifeMs?: number;
+}
+
+/**
+ * Estimates the rate with an exponentially weighted moving average, weighted by the duration of each interval
+ */
+export class EwmaRateEstimator extends IntervalRateEstimator {
+  private halfLifeMs: number;
+  private rate?: number;
+
+  constructor(params: EwmaRateEstimatorConstructorParams = {}) {
+    super(params);
+    this.halfLifeMs = params.halfLifeMs || 2000;
+  }
+
+  protected addInterval(durationMs: number, bytes: number) {
+    const intervalRate = (bytes / durationMs) * 1000;
+
+    if (this.rate === undefined) {
+      this.rate = intervalRate;
+      return;
+    }
+
+    const weight = 1 - 2 ** (-durationMs / this.halfLifeMs);
+    this.rate += weight * (intervalRate - this.rate);
+  }
+
+  protected getRate() {
+    return this.rate || 0;
+  }
+}
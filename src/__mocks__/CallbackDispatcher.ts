@@ -3,8 +3,14 @@ export const CallbackDispatcher = jest.fn().mockImplementation(() => {
     onDownloadStarted: jest.fn(),
     onDownloadCompleted: jest.fn(),
     onDownloadCancelled: jest.fn(),
+    onDownloadSkipped: jest.fn(),
     onDownloadProgress: jest.fn(),
+    flushProgress: jest.fn(),
     onDownloadInterrupted: jest.fn(),
+    onDownloadRetrying: jest.fn(),
+    onPostProcessingProgress: jest.fn(),
+    onLowDiskSpace: jest.fn(),
+    onStatusChanged: jest.fn(),
     handleError: jest.fn(),
   };
 });
@@ -24,12 +24,20 @@ export function createMockDownloadData() {
     isPaused: jest.fn(),
     getState: jest.fn(),
     getFilename: jest.fn().mockReturnValue("filename.txt"),
+    getMimeType: jest.fn().mockReturnValue("text/plain"),
+    getURL: jest.fn().mockReturnValue("https://example.com/filename.txt"),
+    canResume: jest.fn(),
+    getURLChain: jest.fn().mockReturnValue(["https://example.com/filename.txt"]),
+    getETag: jest.fn().mockReturnValue("etag"),
+    getLastModifiedTime: jest.fn().mockReturnValue("Wed, 21 Oct 2015 07:28:00 GMT"),
     // @ts-ignore
     on: itemEmitter.on.bind(itemEmitter) as DownloadItem["on"],
     // @ts-ignore
     once: itemEmitter.once.bind(itemEmitter) as DownloadItem["once"],
     // @ts-ignore
     off: itemEmitter.off.bind(itemEmitter) as DownloadItem["off"],
+    // @ts-ignore
+    removeListener: itemEmitter.removeListener.bind(itemEmitter) as DownloadItem["removeListener"],
   };
 
   const downloadData: jest.Mocked<ActualDownloadData> = {
@@ -37,10 +45,19 @@ export function createMockDownloadData() {
     cancelledFromSaveAsDialog: false,
     percentCompleted: 0,
     downloadRateBytesPerSecond: 0,
+    instantaneousDownloadRateBytesPerSecond: 0,
     estimatedTimeRemainingSeconds: 0,
+    isEstimateReliable: false,
+    priority: 0,
+    status: "pending",
+    retryAttempt: 0,
     resolvedFilename: `${generateRandomId()}.txt`,
+    url: "https://example.com/filename.txt",
+    tags: [],
+    postProcessing: [],
     webContents: {} as WebContents,
     event: {} as Event,
+    isDownloadQueued: jest.fn(),
     isDownloadInProgress: jest.fn(),
     isDownloadCompleted: jest.fn(),
     isDownloadCancelled: jest.fn(),
@@ -15,13 +15,28 @@ export const DownloadInitiator = jest.fn().mockImplementation((config) => {
     getDownloadId: jest.fn(),
     getDownloadData: jest.fn(),
     generateOnWillDownload: jest.fn(() => async () => {
-      config.onDownloadInit(new DownloadData());
+      config.onDownloadInit(config.downloadData || new DownloadData());
     }),
     initSaveAsInteractiveDownload: jest.fn(),
     initNonInteractiveDownload: jest.fn(),
+    handleFileConflict: jest.fn(),
+    rejectDownload: jest.fn(),
+    promptSavePath: jest.fn(),
     generateItemOnUpdated: jest.fn(),
     generateItemOnDone: jest.fn(),
     cleanup: jest.fn(),
+    completeDownload: jest.fn(),
+    verifyIntegrity: jest.fn(),
+    commitStagedFile: jest.fn(),
+    removeStagedFile: jest.fn(),
+    setSavePath: jest.fn(),
+    checkDiskSpace: jest.fn(),
+    checkLowDiskSpace: jest.fn(),
+    runPostProcessing: jest.fn(),
+    scheduleRetry: jest.fn(),
+    retryDownload: jest.fn(),
+    restartDownload: jest.fn(),
+    setStatus: jest.fn(),
     updateProgress: jest.fn(),
   };
 
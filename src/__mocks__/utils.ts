@@ -1,4 +1,18 @@
 export const truncateUrl = jest.fn();
+export const normalizeUrl = jest.fn();
 export const getFilenameFromMime = jest.fn();
 export const generateRandomId = jest.fn();
 export const determineFilePath = jest.fn();
+export const sanitizeFilename = jest.fn();
+export const isPathInsideDirectory = jest.fn();
+export const getStagingFilePath = jest.fn();
+export const movePath = jest.fn();
+export const getFreeDiskSpace = jest.fn();
+export const resolveConflictStrategy = jest.fn();
+export const resolveFilenameTemplate = jest.fn();
+export const calculateRetryDelay = jest.fn();
+export const parseIntegrity = jest.fn();
+export const hashFile = jest.fn();
+export const calculateAggregateProgress = jest.fn();
+export const matchesDownloadFilter = jest.fn();
+export const checkDownloadPolicy = jest.fn();
@@ -0,0 +1,456 @@
+import type { DownloadData } from "./DownloadData";
+import type { ArchiveLimit, DownloadErrorCode, DownloadPhase, DownloadPolicyRule } from "./types";
+
+/**
+ * Returns the message of a thrown value, which is not always an Error
+ */
+function getErrorMessage(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * The base class of the errors passed to `onError`, emitted as `error` and thrown by the manager.
+ * The `code` is stable across releases, so failures can be classified without matching on the message.
+ */
+export class DownloadManagerError extends Error {
+  /**
+   * The stable code of the error
+   */
+  code: DownloadErrorCode;
+  /**
+   * The phase of the download lifecycle the error happened in
+   */
+  phase: DownloadPhase;
+  /**
+   * The id of the download, if it was assigned one
+   */
+  downloadId?: string;
+
+  constructor(
+    message: string,
+    {
+      code,
+      phase,
+      downloadId,
+      cause,
+    }: { code: DownloadErrorCode; phase: DownloadPhase; downloadId?: string; cause?: unknown },
+  ) {
+    super(message, { cause });
+    this.name = "DownloadManagerError";
+    this.code = code;
+    this.phase = phase;
+    this.downloadId = downloadId;
+  }
+}
+
+/**
+ * Thrown when an option is invalid, such as when both `saveAsFilename` and `saveDialogOptions` are defined
+ */
+export class ConfigValidationError extends DownloadManagerError {
+  /**
+   * The name of the invalid option, if the error is about a single option
+   */
+  option?: string;
+
+  constructor(message: string, { option, phase = "validation" }: { option?: string; phase?: DownloadPhase } = {}) {
+    super(message, { code: "CONFIG_INVALID", phase });
+    this.name = "ConfigValidationError";
+    this.option = option;
+  }
+}
+
+/**
+ * Passed to `onError` when the save path of a download can't be determined or set.
+ * The original error is the `cause`.
+ */
+export class PathResolutionError extends DownloadManagerError {
+  constructor(cause: unknown) {
+    super(`Unable to resolve the save path: ${getErrorMessage(cause)}`, {
+      code: "PATH_RESOLUTION_FAILED",
+      phase: "initialization",
+      cause,
+    });
+    this.name = "PathResolutionError";
+  }
+}
+
+/**
+ * Passed to `onError` when the "Save as" dialog fails to open.
+ * The original error is the `cause`.
+ */
+export class SaveDialogError extends DownloadManagerError {
+  constructor(cause: unknown) {
+    super(`The save dialog failed: ${getErrorMessage(cause)}`, {
+      code: "SAVE_DIALOG_FAILED",
+      phase: "save-dialog",
+      cause,
+    });
+    this.name = "SaveDialogError";
+  }
+}
+
+/**
+ * Passed to `onError` when a callback or an event listener throws.
+ * The thrown value is the `cause`.
+ */
+export class CallbackError extends DownloadManagerError {
+  /**
+   * The name of the callback, such as `onDownloadCompleted`, or of the event if `listener` is true
+   */
+  callback: string;
+  /**
+   * True if the error was thrown by a listener of a manager event rather than by a callback
+   */
+  listener: boolean;
+
+  constructor({
+    callback,
+    phase,
+    cause,
+    listener = false,
+  }: { callback: string; phase: DownloadPhase; cause: unknown; listener?: boolean }) {
+    super(`The ${callback} ${listener ? "listener" : "callback"} threw an error: ${getErrorMessage(cause)}`, {
+      code: "CALLBACK_FAILED",
+      phase,
+      cause,
+    });
+    this.name = "CallbackError";
+    this.callback = callback;
+    this.listener = listener;
+  }
+}
+
+/**
+ * Set as `DownloadData.error` when a download ends interrupted, such as after a network failure.
+ * Electron does not expose Chromium's interrupt reason, so the error describes the state the item was
+ * interrupted in and whether it could be resumed instead.
+ */
+export class DownloadInterruptedError extends DownloadManagerError {
+  /**
+   * The state in which the download was interrupted
+   */
+  interruptedVia?: "in-progress" | "completed";
+  /**
+   * True if Electron reported that the download could be resumed
+   */
+  canResume: boolean;
+  /**
+   * The number of bytes received before the interruption
+   */
+  receivedBytes: number;
+  /**
+   * The size of the file in bytes, or 0 if unknown
+   */
+  totalBytes: number;
+
+  constructor({
+    interruptedVia,
+    canResume,
+    receivedBytes,
+    totalBytes,
+  }: { interruptedVia?: "in-progress" | "completed"; canResume: boolean; receivedBytes: number; totalBytes: number }) {
+    super(`Download interrupted after ${receivedBytes} of ${totalBytes} bytes`, {
+      code: "DOWNLOAD_INTERRUPTED",
+      phase: "transfer",
+    });
+    this.name = "DownloadInterruptedError";
+    this.interruptedVia = interruptedVia;
+    this.canResume = canResume;
+    this.receivedBytes = receivedBytes;
+    this.totalBytes = totalBytes;
+  }
+}
+
+/**
+ * Passed to `onError` when a download can't be started, such as when a queued download
+ * fails to start or a retry fails to restart it. The original error is the `cause`.
+ */
+export class DownloadStartError extends DownloadManagerError {
+  constructor(cause: unknown, phase: DownloadPhase = "initialization") {
+    super(`Download failed to start: ${getErrorMessage(cause)}`, { code: "START_FAILED", phase, cause });
+    this.name = "DownloadStartError";
+  }
+}
+
+/**
+ * Thrown when the digest of a downloaded file does not match the expected digest
+ */
+export class ChecksumMismatchError extends DownloadManagerError {
+  /**
+   * The hash algorithm that was used
+   */
+  algorithm: string;
+  /**
+   * The expected digest(s)
+   */
+  expected: string[];
+  /**
+   * The digest of the downloaded file
+   */
+  actual: string;
+  /**
+   * The path the file was downloaded to
+   */
+  filePath: string;
+  /**
+   * The path the file was moved to, if it was quarantined. Undefined if the file was deleted.
+   */
+  quarantinePath?: string;
+
+  constructor({
+    algorithm,
+    expected,
+    actual,
+    filePath,
+    quarantinePath,
+  }: {
+    algorithm: string;
+    expected: string[];
+    actual: string;
+    filePath: string;
+    quarantinePath?: string;
+  }) {
+    super(`Checksum mismatch for ${filePath}: expected ${algorithm} ${expected.join(" or ")}, got ${actual}`, {
+      code: "CHECKSUM_MISMATCH",
+      phase: "verification",
+    });
+    this.name = "ChecksumMismatchError";
+    this.algorithm = algorithm;
+    this.expected = expected;
+    this.actual = actual;
+    this.filePath = filePath;
+    this.quarantinePath = quarantinePath;
+  }
+}
+
+/**
+ * Passed to `onError` when the checksum of a downloaded file can't be computed, such as when the file can't be read.
+ * The original error is the `cause`.
+ */
+export class VerificationError extends DownloadManagerError {
+  /**
+   * The path of the file that was verified
+   */
+  filePath: string;
+
+  constructor(filePath: string, cause: unknown) {
+    super(`Unable to verify ${filePath}: ${getErrorMessage(cause)}`, {
+      code: "VERIFICATION_FAILED",
+      phase: "verification",
+      cause,
+    });
+    this.name = "VerificationError";
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Passed to `onError` when a staged download can't be moved to its final path.
+ * The staging file is kept, and the original error is the `cause`.
+ */
+export class StagingError extends DownloadManagerError {
+  /**
+   * The path of the staging file
+   */
+  stagingPath: string;
+  /**
+   * The path the file should have been moved to
+   */
+  filePath: string;
+
+  constructor(stagingPath: string, filePath: string, cause: unknown) {
+    super(`Unable to move the staged file ${stagingPath} to ${filePath}: ${getErrorMessage(cause)}`, {
+      code: "STAGING_FAILED",
+      phase: "finalization",
+      cause,
+    });
+    this.name = "StagingError";
+    this.stagingPath = stagingPath;
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Passed to `onError` when the file already exists and `conflictStrategy` is `error`
+ */
+export class FileExistsError extends DownloadManagerError {
+  /**
+   * The path of the existing file
+   */
+  filePath: string;
+
+  constructor(filePath: string, phase: DownloadPhase = "initialization") {
+    super(`File already exists: ${filePath}`, { code: "FILE_EXISTS", phase });
+    this.name = "FileExistsError";
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Passed to `onError` when the save path of a download resolves outside of its directory,
+ * such as from a filename containing `../`
+ */
+export class PathTraversalError extends DownloadManagerError {
+  /**
+   * The resolved save path
+   */
+  filePath: string;
+  /**
+   * The directory the file should have been saved to
+   */
+  directory: string;
+
+  constructor(filePath: string, directory: string, phase: DownloadPhase = "initialization") {
+    super(`The save path ${filePath} is outside of the directory ${directory}`, { code: "PATH_TRAVERSAL", phase });
+    this.name = "PathTraversalError";
+    this.filePath = filePath;
+    this.directory = directory;
+  }
+}
+
+/**
+ * Passed to `onError` when the volume a download is saved to does not have enough free space for the file
+ */
+export class InsufficientDiskSpaceError extends DownloadManagerError {
+  /**
+   * The number of bytes needed, including the safety margin
+   */
+  requiredBytes: number;
+  /**
+   * The number of bytes free on the volume
+   */
+  freeBytes: number;
+  /**
+   * The directory the file is saved to
+   */
+  directory: string;
+
+  constructor({
+    requiredBytes,
+    freeBytes,
+    directory,
+  }: { requiredBytes: number; freeBytes: number; directory: string }) {
+    super(`Not enough free space in ${directory}: ${requiredBytes} bytes needed, ${freeBytes} bytes free`, {
+      code: "INSUFFICIENT_DISK_SPACE",
+      phase: "initialization",
+    });
+    this.name = "InsufficientDiskSpaceError";
+    this.requiredBytes = requiredBytes;
+    this.freeBytes = freeBytes;
+    this.directory = directory;
+  }
+}
+
+/**
+ * Passed to `onError` when a download is not allowed by a `DownloadPolicy`.
+ * Thrown by `download()` when the URL is not allowed.
+ */
+export class PolicyViolationError extends DownloadManagerError {
+  /**
+   * The option of the policy that the download violated
+   */
+  rule: DownloadPolicyRule;
+  /**
+   * The value that violated the rule, such as the URL, MIME type, filename or number of bytes
+   */
+  value: string | number;
+  /**
+   * The pattern of `blockedUrls` that matched the URL
+   */
+  pattern?: string | RegExp;
+
+  constructor({
+    rule,
+    value,
+    pattern,
+    phase = "initialization",
+  }: { rule: DownloadPolicyRule; value: string | number; pattern?: string | RegExp; phase?: DownloadPhase }) {
+    super(`Download not allowed by the ${rule} policy: ${value}`, { code: "POLICY_VIOLATION", phase });
+    this.name = "PolicyViolationError";
+    this.rule = rule;
+    this.value = value;
+    this.pattern = pattern;
+  }
+}
+
+/**
+ * Passed to `onError` when a post-processing step of a download fails.
+ * The error thrown by the step is the `cause`.
+ */
+export class PostProcessingError extends DownloadManagerError {
+  /**
+   * The name of the step that failed
+   */
+  step: string;
+  /**
+   * The path of the file the step was processing
+   */
+  filePath: string;
+
+  constructor(step: string, filePath: string, cause: Error) {
+    super(`Post-processing step ${step} failed for ${filePath}: ${cause.message}`, {
+      code: "POST_PROCESSING_FAILED",
+      phase: "post-processing",
+      cause,
+    });
+    this.name = "PostProcessingError";
+    this.step = step;
+    this.filePath = filePath;
+  }
+}
+
+/**
+ * Thrown by the `extractArchive()` step when an archive exceeds one of its limits,
+ * such as an archive that expands to more than `maxTotalSizeBytes`
+ */
+export class ArchiveLimitError extends DownloadManagerError {
+  /**
+   * The option of `ExtractArchiveOptions` that the archive exceeded
+   */
+  limit: ArchiveLimit;
+  /**
+   * The value of the limit
+   */
+  maxValue: number;
+  /**
+   * The name of the entry that exceeded the limit, if it is about one
+   */
+  entryName?: string;
+
+  constructor({ limit, maxValue, entryName }: { limit: ArchiveLimit; maxValue: number; entryName?: string }) {
+    super(`The archive exceeds the ${limit} limit of ${maxValue}${entryName ? ` at ${entryName}` : ""}`, {
+      code: "ARCHIVE_LIMIT_EXCEEDED",
+      phase: "post-processing",
+    });
+    this.name = "ArchiveLimitError";
+    this.limit = limit;
+    this.maxValue = maxValue;
+    this.entryName = entryName;
+  }
+}
+
+/**
+ * Thrown by `downloadAndWait()` when a download ends without completing,
+ * being cancelled or being interrupted, such as when it fails to start
+ * or its checksum does not match. The phase is the one of the `cause` if it is a `DownloadManagerError`.
+ */
+export class DownloadFailedError extends DownloadManagerError {
+  /**
+   * The data for the download, if it was started
+   */
+  downloadData?: DownloadData;
+
+  constructor(
+    message: string,
+    { downloadId, downloadData, cause }: { downloadId?: string; downloadData?: DownloadData; cause?: Error } = {},
+  ) {
+    super(message, {
+      code: "DOWNLOAD_FAILED",
+      phase: cause instanceof DownloadManagerError ? cause.phase : "completion",
+      downloadId,
+      cause,
+    });
+    this.name = "DownloadFailedError";
+    this.downloadData = downloadData;
+  }
+}
@@ -0,0 +1,88 @@
+import { type IpcRendererEvent, contextBridge, ipcRenderer } from "electron";
+import { DOWNLOAD_IPC_EVENT_CHANNEL, DOWNLOAD_IPC_OPERATIONS, getIpcChannel } from "./ipcChannels";
+import type {
+  DownloadIpcOperation,
+  DownloadManagerRendererApi,
+  ExposeDownloadManagerOptions,
+  RendererDownloadEvent,
+} from "./types";
+
+/**
+ * Creates the renderer API for the download manager. Must be called from a preload script.
+ * Use `exposeDownloadManager()` instead to expose it to the renderer.
+ */
+export function createDownloadManagerRendererApi(
+  operations: DownloadIpcOperation[] = DOWNLOAD_IPC_OPERATIONS,
+): DownloadManagerRendererApi {
+  const api: DownloadManagerRendererApi = {};
+  let subscriberCount = 0;
+
+  if (operations.includes("download")) {
+    api.download = (params) => ipcRenderer.invoke(getIpcChannel("download"), params);
+  }
+
+  if (operations.includes("cancelDownload")) {
+    api.cancelDownload = (id) => ipcRenderer.invoke(getIpcChannel("cancelDownload"), id);
+  }
+
+  if (operations.includes("pauseDownload")) {
+    api.pauseDownload = (id) => ipcRenderer.invoke(getIpcChannel("pauseDownload"), id);
+  }
+
+  if (operations.includes("resumeDownload")) {
+    api.resumeDownload = (id) => ipcRenderer.invoke(getIpcChannel("resumeDownload"), id);
+  }
+
+  if (operations.includes("getDownloadData")) {
+    api.getDownloadData = (id) => ipcRenderer.invoke(getIpcChannel("getDownloadData"), id);
+  }
+
+  if (operations.includes("subscribe")) {
+    api.subscribe = (listener) => {
+      // Don't pass the IpcRendererEvent to the renderer as it gives access to ipcRenderer
+      const onEvent = (_event: IpcRendererEvent, downloadEvent: RendererDownloadEvent) => listener(downloadEvent);
+
+      ipcRenderer.on(DOWNLOAD_IPC_EVENT_CHANNEL, onEvent);
+
+      if (subscriberCount++ === 0) {
+        ipcRenderer.send(getIpcChannel("subscribe"));
+      }
+
+      let subscribed = true;
+
+      return () => {
+        if (!subscribed) {
+          return;
+        }
+
+        subscribed = false;
+        ipcRenderer.removeListener(DOWNLOAD_IPC_EVENT_CHANNEL, onEvent);
+
+        if (--subscriberCount === 0) {
+          ipcRenderer.send(getIpcChannel("unsubscribe"));
+        }
+      };
+    };
+  }
+
+  return api;
+}
+
+/**
+ * Exposes the download manager API to the renderer. Must be called from a preload script,
+ * and requires `registerIpcHandlers()` to be called in the main process.
+ *
+ * Returns the exposed API.
+ */
+export function exposeDownloadManager(options: ExposeDownloadManagerOptions = {}) {
+  const apiKey = options.apiKey || "downloadManager";
+  const api = createDownloadManagerRendererApi(options.operations);
+
+  if (process.contextIsolated) {
+    contextBridge.exposeInMainWorld(apiKey, api);
+  } else {
+    globalThis[apiKey] = api;
+  }
+
+  return api;
+}
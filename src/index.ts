@@ -1,9 +1,25 @@
 export * from "./types";
+export * from "./BandwidthLimiter";
 export * from "./ElectronDownloadManager";
 export * from "./CallbackDispatcher";
+export * from "./DownloadBatch";
 export * from "./DownloadData";
 export * from "./DownloadInitiator";
+export * from "./DownloadScheduler";
+export * from "./DownloadStatus";
+export * from "./DownloadStateFile";
 export * from "./ElectronDownloadManagerMock";
+export * from "./exposeDownloadManager";
+export * from "./ipcChannels";
+export * from "./JsonFileHistoryStore";
+export { consoleLogAdapter, debugLogAdapter, pinoLogAdapter, winstonLogAdapter } from "./logging";
+export * from "./postProcessing";
+export * from "./ProgressIndicator";
+export * from "./RateEstimator";
+export * from "./registerIpcHandlers";
+export * from "./errors";
 export { getFilenameFromMime } from "./utils";
 export { generateRandomId } from "./utils";
 export { truncateUrl } from "./utils";
+export { calculateAggregateProgress } from "./utils";
+export { sanitizeFilename } from "./utils";
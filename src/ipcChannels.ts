@@ -0,0 +1,25 @@
+import type { DownloadIpcOperation } from "./types";
+
+/**
+ * All the operations that can be exposed to the renderer
+ */
+export const DOWNLOAD_IPC_OPERATIONS: DownloadIpcOperation[] = [
+  "download",
+  "cancelDownload",
+  "pauseDownload",
+  "resumeDownload",
+  "getDownloadData",
+  "subscribe",
+];
+
+/**
+ * The channel the main process sends download events to subscribed renderers on
+ */
+export const DOWNLOAD_IPC_EVENT_CHANNEL = "electron-dl-manager:event";
+
+/**
+ * Returns the IPC channel name for an operation
+ */
+export function getIpcChannel(operation: DownloadIpcOperation | "unsubscribe") {
+  return `electron-dl-manager:${operation}`;
+}
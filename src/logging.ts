@@ -0,0 +1,93 @@
+import type { DebugLoggerFn, DownloadLogger, LogEntry, LogLevel, PinoStyleLogger, WinstonStyleLogger } from "./types";
+import { truncateUrl } from "./utils";
+
+/**
+ * The levels from the least to the most severe
+ */
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+
+/**
+ * The details passed to the log methods of the classes along with the message.
+ * The level defaults to `debug`.
+ */
+export type LogDetails = Partial<Omit<LogEntry, "message">>;
+
+/**
+ * Formats the entry as a message prefixed with the download id, such as `[abc123] Pausing download`
+ */
+function formatMessage({ downloadId, message }: LogEntry) {
+  return downloadId ? `[${downloadId}] ${message}` : message;
+}
+
+/**
+ * Sends the log entries to a function that takes a single string, such as the `debugLogger` option.
+ * The messages are prefixed with the download id.
+ */
+export function debugLogAdapter(debugLogger: DebugLoggerFn): DownloadLogger {
+  return {
+    log: (entry) => debugLogger(formatMessage(entry)),
+  };
+}
+
+/**
+ * Sends the log entries to the console method of their level, with the event and fields as a second argument
+ * @param level The least severe level to log
+ */
+export function consoleLogAdapter({ level = "info" }: { level?: LogLevel } = {}): DownloadLogger {
+  const minLevel = LOG_LEVELS.indexOf(level);
+
+  return {
+    log: (entry) => {
+      if (LOG_LEVELS.indexOf(entry.level) < minLevel) {
+        return;
+      }
+
+      const { event, fields } = entry;
+      const details = event || fields ? [{ event, ...fields }] : [];
+
+      console[entry.level](formatMessage(entry), ...details);
+    },
+  };
+}
+
+/**
+ * Sends the log entries to a logger with a method per level that takes the fields first, such as pino
+ */
+export function pinoLogAdapter(logger: PinoStyleLogger): DownloadLogger {
+  return {
+    log: ({ level, message, downloadId, event, fields }) => {
+      logger[level]({ downloadId, event, ...fields }, message);
+    },
+  };
+}
+
+/**
+ * Sends the log entries to a logger that takes a single object with the level and message, such as winston
+ */
+export function winstonLogAdapter(logger: WinstonStyleLogger): DownloadLogger {
+  return {
+    log: ({ level, message, downloadId, event, fields }) => {
+      logger.log({ level, message, downloadId, event, ...fields });
+    },
+  };
+}
+
+/**
+ * Wraps a structured logger or a debug logger function. The `url` field is truncated the same way as the URLs
+ * in the messages, so full URLs are never logged. Logs nothing if no logger is defined.
+ */
+export function normalizeLogger(logger?: DownloadLogger | DebugLoggerFn): DownloadLogger {
+  if (!logger) {
+    return { log: () => {} };
+  }
+
+  const target = typeof logger === "function" ? debugLogAdapter(logger) : logger;
+
+  return {
+    log: (entry) => {
+      const url = entry.fields?.url;
+
+      target.log(typeof url === "string" ? { ...entry, fields: { ...entry.fields, url: truncateUrl(url) } } : entry);
+    },
+  };
+}
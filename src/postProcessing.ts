@@ -0,0 +1,572 @@
+import { createReadStream, existsSync } from "node:fs";
+import { type FileHandle, chmod, mkdir, open, rm, stat, unlink } from "node:fs/promises";
+import path from "node:path";
+import { Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import { createGunzip, createInflateRaw } from "node:zlib";
+import { ArchiveLimitError, FileExistsError, PathTraversalError } from "./errors";
+import type { ArchiveFormat, ArchiveLimit, ExtractArchiveOptions, MoveFileOptions, PostProcessingStep } from "./types";
+import { isPathInsideDirectory, movePath } from "./utils";
+
+const DEFAULT_MAX_ENTRIES = 10000;
+const DEFAULT_MAX_TOTAL_SIZE_BYTES = 2 * 1024 ** 3;
+
+const ARCHIVE_EXTENSIONS: Array<[extension: string, format: ArchiveFormat]> = [
+  [".tar.gz", "tar.gz"],
+  [".tgz", "tar.gz"],
+  [".tar", "tar"],
+  [".zip", "zip"],
+];
+
+/**
+ * Returns the format of an archive and its path without the archive extension,
+ * or undefined if the extension is not a supported archive format
+ */
+function getArchiveFormat(filePath: string): { format: ArchiveFormat; basePath: string } | undefined {
+  const lowerCasePath = filePath.toLowerCase();
+
+  for (const [extension, format] of ARCHIVE_EXTENSIONS) {
+    if (lowerCasePath.endsWith(extension)) {
+      return { format, basePath: filePath.slice(0, -extension.length) };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Post-processing step that extracts a zip, tar or tar.gz archive.
+ * The following steps are given the directory it was extracted to.
+ *
+ * Entries that would be extracted outside of the directory fail the step with a `PathTraversalError`,
+ * and files that already exist fail it with a `FileExistsError` unless `overwrite` is set.
+ * Archives that exceed the entry or size limits fail it with an `ArchiveLimitError`.
+ * If the step created the directory, it is deleted when the extraction fails.
+ * Symbolic links and hard links in tar archives are not extracted.
+ */
+export function extractArchive(options: ExtractArchiveOptions = {}): PostProcessingStep {
+  return {
+    name: "extract",
+    run: async ({ filePath, reportProgress }) => {
+      const detected = getArchiveFormat(filePath);
+      const format = options.format || detected?.format;
+
+      if (!format) {
+        throw new Error(`Unable to detect the archive format of ${filePath}`);
+      }
+
+      const directory = options.directory || detected?.basePath || `${filePath}.extracted`;
+
+      const limits = new ExtractionLimits(options);
+      const createdDirectory = await mkdir(directory, { recursive: true });
+
+      try {
+        if (format === "zip") {
+          await extractZip(filePath, directory, limits, reportProgress);
+        } else {
+          await extractTar(filePath, directory, format === "tar.gz", limits, reportProgress);
+        }
+      } catch (error) {
+        if (createdDirectory) {
+          await rm(createdDirectory, { recursive: true, force: true });
+        }
+
+        throw error;
+      }
+
+      if (options.deleteArchive) {
+        await unlink(filePath);
+      }
+
+      return { filePath: directory };
+    },
+  };
+}
+
+/**
+ * Post-processing step that moves the file, or the directory it was extracted to, into another directory.
+ * The following steps are given the new path.
+ */
+export function moveFile(directory: string, options: MoveFileOptions = {}): PostProcessingStep {
+  return {
+    name: "move",
+    run: async ({ filePath }) => {
+      const destination = path.join(directory, path.basename(filePath));
+
+      if (existsSync(destination)) {
+        if (!options.overwrite) {
+          throw new FileExistsError(destination, "post-processing");
+        }
+
+        await rm(destination, { recursive: true, force: true });
+      }
+
+      await mkdir(directory, { recursive: true });
+      await movePath(filePath, destination);
+
+      return { filePath: destination };
+    },
+  };
+}
+
+/**
+ * Post-processing step that sets the permissions of the file, such as `0o755` to make it executable.
+ * Only the read-only flag is supported on Windows.
+ */
+export function setFilePermissions(mode: number | string): PostProcessingStep {
+  return {
+    name: "chmod",
+    run: async ({ filePath }) => {
+      await chmod(filePath, mode);
+    },
+  };
+}
+
+/**
+ * Returns the path to extract an archive entry to, making sure it stays inside of the directory
+ */
+function resolveEntryPath(directory: string, entryName: string) {
+  const entryPath = path.join(directory, entryName);
+
+  if (!isPathInsideDirectory(entryPath, directory)) {
+    throw new PathTraversalError(entryPath, directory, "post-processing");
+  }
+
+  return entryPath;
+}
+
+/**
+ * Counts the entries and bytes extracted from an archive, and throws an `ArchiveLimitError`
+ * once they exceed the limits of the options
+ */
+class ExtractionLimits {
+  readonly overwrite: boolean;
+  private readonly limits: Record<ArchiveLimit, number>;
+  private entries = 0;
+  private totalBytes = 0;
+
+  constructor(options: ExtractArchiveOptions) {
+    const maxTotalSizeBytes = options.maxTotalSizeBytes ?? DEFAULT_MAX_TOTAL_SIZE_BYTES;
+
+    this.overwrite = options.overwrite || false;
+    this.limits = {
+      maxEntries: options.maxEntries ?? DEFAULT_MAX_ENTRIES,
+      maxEntrySizeBytes: options.maxEntrySizeBytes ?? maxTotalSizeBytes,
+      maxTotalSizeBytes,
+    };
+  }
+
+  addEntry(entryName: string) {
+    this.entries++;
+    this.check("maxEntries", this.entries, entryName);
+  }
+
+  /**
+   * Checks the size of an entry, such as the size declared by its header before it is extracted
+   */
+  checkEntrySize(entryName: string, entryBytes: number) {
+    this.check("maxEntrySizeBytes", entryBytes, entryName);
+  }
+
+  /**
+   * Counts the bytes extracted for an entry. `entryBytes` is the size of the entry including them.
+   */
+  addBytes(entryName: string, entryBytes: number, bytes: number) {
+    this.checkEntrySize(entryName, entryBytes);
+    this.totalBytes += bytes;
+    this.check("maxTotalSizeBytes", this.totalBytes, entryName);
+  }
+
+  /**
+   * Returns a stream that counts the bytes of an entry as they pass through it.
+   * Used for zip entries, whose declared sizes can't be trusted.
+   */
+  createCounter(entryName: string) {
+    let entryBytes = 0;
+
+    return new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        try {
+          entryBytes += chunk.length;
+          this.addBytes(entryName, entryBytes, chunk.length);
+          callback(null, chunk);
+        } catch (error) {
+          callback(error as Error);
+        }
+      },
+    });
+  }
+
+  private check(limit: ArchiveLimit, value: number, entryName: string) {
+    if (value > this.limits[limit]) {
+      throw new ArchiveLimitError({ limit, maxValue: this.limits[limit], entryName });
+    }
+  }
+}
+
+/**
+ * Creates the file of an archive entry. An existing file is only replaced if `overwrite` is set,
+ * and is deleted first so a symbolic link in its place is not followed.
+ */
+async function createEntryFile(entryPath: string, overwrite: boolean) {
+  if (overwrite) {
+    await rm(entryPath, { force: true });
+  }
+
+  try {
+    return await open(entryPath, "wx");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "EEXIST") {
+      throw new FileExistsError(entryPath, "post-processing");
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Extracts a zip archive. The entries are read using the central directory at the end of the archive.
+ * Zip64 archives and encrypted entries are not supported.
+ */
+async function extractZip(
+  archivePath: string,
+  directory: string,
+  limits: ExtractionLimits,
+  onProgress: (percentCompleted: number) => void,
+) {
+  const handle = await open(archivePath, "r");
+
+  try {
+    const { size } = await handle.stat();
+    // The end of central directory record is 22 bytes, followed by a comment of up to 65535 bytes
+    const tail = await readAt(handle, Math.max(0, size - 22 - 0xffff), Math.min(size, 22 + 0xffff));
+    let endOfCentralDirectory = -1;
+
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === 0x06054b50) {
+        endOfCentralDirectory = i;
+        break;
+      }
+    }
+
+    if (endOfCentralDirectory === -1) {
+      throw new Error(`${archivePath} is not a zip archive`);
+    }
+
+    const entryCount = tail.readUInt16LE(endOfCentralDirectory + 10);
+    const centralDirectorySize = tail.readUInt32LE(endOfCentralDirectory + 12);
+    const centralDirectoryOffset = tail.readUInt32LE(endOfCentralDirectory + 16);
+
+    if (entryCount === 0xffff || centralDirectoryOffset === 0xffffffff) {
+      throw new Error("Zip64 archives are not supported");
+    }
+
+    const centralDirectory = await readAt(handle, centralDirectoryOffset, centralDirectorySize);
+    let position = 0;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (centralDirectory.readUInt32LE(position) !== 0x02014b50) {
+        throw new Error(`${archivePath} has an invalid central directory`);
+      }
+
+      const madeBy = centralDirectory.readUInt16LE(position + 4);
+      const flags = centralDirectory.readUInt16LE(position + 8);
+      const method = centralDirectory.readUInt16LE(position + 10);
+      const compressedSize = centralDirectory.readUInt32LE(position + 20);
+      const uncompressedSize = centralDirectory.readUInt32LE(position + 24);
+      const nameLength = centralDirectory.readUInt16LE(position + 28);
+      const extraLength = centralDirectory.readUInt16LE(position + 30);
+      const commentLength = centralDirectory.readUInt16LE(position + 32);
+      const externalAttributes = centralDirectory.readUInt32LE(position + 38);
+      const localHeaderOffset = centralDirectory.readUInt32LE(position + 42);
+      const name = centralDirectory.toString("utf8", position + 46, position + 46 + nameLength);
+
+      position += 46 + nameLength + extraLength + commentLength;
+
+      limits.addEntry(name);
+
+      const entryPath = resolveEntryPath(directory, name);
+
+      if (name.endsWith("/")) {
+        await mkdir(entryPath, { recursive: true });
+        onProgress(((i + 1) / entryCount) * 100);
+        continue;
+      }
+
+      if (flags & 0x1) {
+        throw new Error(`Encrypted zip entries are not supported: ${name}`);
+      }
+
+      if (method !== 0 && method !== 8) {
+        throw new Error(`Unsupported compression method ${method} for zip entry ${name}`);
+      }
+
+      const localHeader = await readAt(handle, localHeaderOffset, 30);
+
+      if (localHeader.readUInt32LE(0) !== 0x04034b50) {
+        throw new Error(`${archivePath} has an invalid local header for ${name}`);
+      }
+
+      const dataOffset = localHeaderOffset + 30 + localHeader.readUInt16LE(26) + localHeader.readUInt16LE(28);
+
+      limits.checkEntrySize(name, uncompressedSize);
+      await mkdir(path.dirname(entryPath), { recursive: true });
+
+      const file = await createEntryFile(entryPath, limits.overwrite);
+
+      if (!compressedSize) {
+        await file.close();
+      } else {
+        const source = createReadStream(archivePath, { start: dataOffset, end: dataOffset + compressedSize - 1 });
+
+        // The write stream closes the file once it has finished or failed
+        if (method === 8) {
+          await pipeline(source, createInflateRaw(), limits.createCounter(name), file.createWriteStream());
+        } else {
+          await pipeline(source, limits.createCounter(name), file.createWriteStream());
+        }
+      }
+
+      // The upper bits of the external attributes hold the permissions of entries made on Unix
+      const mode = madeBy >> 8 === 3 ? (externalAttributes >>> 16) & 0o777 : 0;
+
+      if (mode) {
+        await chmod(entryPath, mode);
+      }
+
+      onProgress(((i + 1) / entryCount) * 100);
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readAt(handle: FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+
+  if (bytesRead < length) {
+    throw new Error("Unexpected end of zip archive");
+  }
+
+  return buffer;
+}
+
+/**
+ * An entry of a tar archive whose data is being read
+ */
+interface TarEntry {
+  type: "file" | "long-name" | "pax" | "ignored";
+  remainingBytes: number;
+  paddingBytes: number;
+  handle?: FileHandle;
+  path?: string;
+  mode?: number;
+  chunks: Buffer[];
+}
+
+/**
+ * Extracts a tar archive, optionally gzipped, by streaming it through a ustar parser.
+ * Supports GNU long names and the `path` of pax headers.
+ */
+async function extractTar(
+  archivePath: string,
+  directory: string,
+  gzip: boolean,
+  limits: ExtractionLimits,
+  onProgress: (percentCompleted: number) => void,
+) {
+  const { size } = await stat(archivePath);
+  const input = createReadStream(archivePath);
+  const stream = gzip ? input.pipe(createGunzip()) : input;
+
+  let buffer = Buffer.alloc(0);
+  let entry: TarEntry | undefined;
+  // Set by a GNU long name or pax header for the entry that follows it
+  let nextName: string | undefined;
+
+  const finishEntry = async (current: TarEntry) => {
+    if (current.type === "file") {
+      await current.handle?.close();
+
+      if (current.path && current.mode) {
+        await chmod(current.path, current.mode);
+      }
+    } else if (current.type === "long-name") {
+      nextName = Buffer.concat(current.chunks).toString("utf8").replace(/\0.*$/s, "");
+    } else if (current.type === "pax") {
+      nextName = parsePaxPath(Buffer.concat(current.chunks)) || nextName;
+    }
+  };
+
+  try {
+    for await (const chunk of stream) {
+      buffer = buffer.length ? Buffer.concat([buffer, chunk as Buffer]) : (chunk as Buffer);
+
+      while (true) {
+        if (!entry) {
+          if (buffer.length < 512) {
+            break;
+          }
+
+          const header = buffer.subarray(0, 512);
+          buffer = buffer.subarray(512);
+
+          // The archive ends with empty blocks
+          if (header.every((byte) => byte === 0)) {
+            continue;
+          }
+
+          entry = await startTarEntry(header, directory, limits, nextName);
+
+          if (entry.type !== "long-name" && entry.type !== "pax") {
+            nextName = undefined;
+          }
+
+          continue;
+        }
+
+        if (entry.remainingBytes > 0) {
+          if (!buffer.length) {
+            break;
+          }
+
+          const data = buffer.subarray(0, entry.remainingBytes);
+          buffer = buffer.subarray(data.length);
+          entry.remainingBytes -= data.length;
+
+          if (entry.handle) {
+            await entry.handle.write(data);
+          } else if (entry.type !== "ignored") {
+            entry.chunks.push(Buffer.from(data));
+          }
+
+          continue;
+        }
+
+        if (buffer.length < entry.paddingBytes) {
+          break;
+        }
+
+        buffer = buffer.subarray(entry.paddingBytes);
+
+        const finished = entry;
+        entry = undefined;
+        await finishEntry(finished);
+      }
+
+      onProgress(Math.min((input.bytesRead / (size || 1)) * 100, 100));
+    }
+  } finally {
+    await entry?.handle?.close();
+    input.destroy();
+  }
+
+  if (entry) {
+    throw new Error(`Unexpected end of tar archive ${archivePath}`);
+  }
+}
+
+/**
+ * Reads a tar header and prepares the entry for its data. Creates the directories and opens the files.
+ * The sizes in tar headers are the exact sizes of the data that follows, so they are counted before it is extracted.
+ */
+async function startTarEntry(
+  header: Buffer,
+  directory: string,
+  limits: ExtractionLimits,
+  nextName?: string,
+): Promise<TarEntry> {
+  const readString = (start: number, end: number) => header.toString("utf8", start, end).replace(/\0.*$/s, "");
+  const type = String.fromCharCode(header[156]);
+  const fileSize = readTarNumber(header.subarray(124, 136));
+  const mode = readTarNumber(header.subarray(100, 108)) & 0o777;
+  const prefix = readString(257, 262) === "ustar" ? readString(345, 500) : "";
+  const name = nextName || (prefix ? `${prefix}/${readString(0, 100)}` : readString(0, 100));
+
+  const entry: TarEntry = {
+    type: "ignored",
+    remainingBytes: fileSize,
+    paddingBytes: (512 - (fileSize % 512)) % 512,
+    chunks: [],
+  };
+
+  if (type === "L" || type === "x") {
+    // The data of these headers is kept in memory
+    limits.checkEntrySize(name, fileSize);
+    entry.type = type === "L" ? "long-name" : "pax";
+    return entry;
+  }
+
+  limits.addEntry(name);
+
+  if (type === "5") {
+    const entryPath = path.join(directory, name);
+
+    // Archives created from the current directory contain a `./` entry
+    if (path.resolve(entryPath) !== path.resolve(directory)) {
+      await mkdir(resolveEntryPath(directory, name), { recursive: true });
+    }
+  } else if (type === "0" || type === "\0" || type === "7") {
+    const entryPath = resolveEntryPath(directory, name);
+
+    limits.addBytes(name, fileSize, fileSize);
+    await mkdir(path.dirname(entryPath), { recursive: true });
+
+    entry.type = "file";
+    entry.path = entryPath;
+    entry.mode = mode;
+    entry.handle = await createEntryFile(entryPath, limits.overwrite);
+  }
+
+  return entry;
+}
+
+/**
+ * Reads a numeric tar header field, which is either octal text or a big-endian number for large values
+ */
+function readTarNumber(field: Buffer) {
+  if (field[0] & 0x80) {
+    let value = 0;
+
+    for (let i = 1; i < field.length; i++) {
+      value = value * 256 + field[i];
+    }
+
+    return value;
+  }
+
+  return Number.parseInt(field.toString("ascii").replace(/\0.*$/s, "").trim() || "0", 8);
+}
+
+/**
+ * Returns the `path` record of a pax extended header, whose records are formatted as `<length> <key>=<value>\n`
+ */
+function parsePaxPath(data: Buffer) {
+  let position = 0;
+
+  while (position < data.length) {
+    const space = data.indexOf(0x20, position);
+
+    if (space === -1) {
+      break;
+    }
+
+    const length = Number.parseInt(data.toString("ascii", position, space), 10);
+
+    if (!length) {
+      break;
+    }
+
+    const record = data.toString("utf8", space + 1, position + length - 1);
+    const separator = record.indexOf("=");
+
+    if (record.slice(0, separator) === "path") {
+      return record.slice(separator + 1);
+    }
+
+    position += length;
+  }
+
+  return undefined;
+}
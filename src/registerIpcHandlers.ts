@@ -0,0 +1,250 @@
+import { BrowserWindow, type IpcMainEvent, type IpcMainInvokeEvent, type WebContents, ipcMain } from "electron";
+import type { DownloadData } from "./DownloadData";
+import { DOWNLOAD_IPC_EVENT_CHANNEL, DOWNLOAD_IPC_OPERATIONS, getIpcChannel } from "./ipcChannels";
+import type {
+  DownloadIpcOperation,
+  DownloadManagerEvents,
+  IElectronDownloadManager,
+  RegisterIpcHandlersOptions,
+  RendererDownloadEvent,
+  RendererDownloadParams,
+  RendererSaveDialogOptions,
+  SerializedDownloadData,
+} from "./types";
+import { sanitizeFilename, truncateUrl } from "./utils";
+
+/**
+ * Copies only the options a renderer is allowed to set, checking their types at runtime.
+ * The options that control where and how the file is written are not copied, so a compromised renderer
+ * can't write outside of the directory chosen in the main process.
+ */
+function getRendererDownloadParams(params: RendererDownloadParams): RendererDownloadParams {
+  const { url, saveAsFilename, priority, tags, saveDialogOptions } = params;
+  const result: RendererDownloadParams = { url };
+
+  if (typeof saveAsFilename === "string") {
+    result.saveAsFilename = sanitizeFilename(saveAsFilename);
+  }
+
+  if (typeof priority === "number" && Number.isFinite(priority)) {
+    result.priority = priority;
+  }
+
+  if (Array.isArray(tags)) {
+    result.tags = tags.filter((tag) => typeof tag === "string");
+  }
+
+  if (saveDialogOptions && typeof saveDialogOptions === "object") {
+    result.saveDialogOptions = getRendererSaveDialogOptions(saveDialogOptions);
+  }
+
+  return result;
+}
+
+/**
+ * Copies the text and filters of the save dialog. The default path is always chosen by the main process.
+ */
+function getRendererSaveDialogOptions(options: RendererSaveDialogOptions): RendererSaveDialogOptions {
+  const result: RendererSaveDialogOptions = {};
+
+  for (const key of ["title", "buttonLabel", "message", "nameFieldLabel"] as const) {
+    if (typeof options[key] === "string") {
+      result[key] = options[key];
+    }
+  }
+
+  if (Array.isArray(options.filters)) {
+    result.filters = options.filters
+      .filter((filter) => typeof filter?.name === "string" && Array.isArray(filter.extensions))
+      .map(({ name, extensions }) => ({ name, extensions: extensions.filter((ext) => typeof ext === "string") }));
+  }
+
+  return result;
+}
+
+/**
+ * Copies the parts of the DownloadData that can be sent over IPC
+ */
+export function serializeDownloadData(data: DownloadData): SerializedDownloadData {
+  const { item } = data;
+
+  return {
+    id: data.id,
+    // The item is not available while the download is queued
+    url: item.getURL?.() || "",
+    status: data.status,
+    filename: data.resolvedFilename,
+    savePath: data.finalSavePath || item.getSavePath?.() || "",
+    receivedBytes: item.getReceivedBytes?.() || 0,
+    totalBytes: item.getTotalBytes?.() || 0,
+    percentCompleted: data.percentCompleted,
+    downloadRateBytesPerSecond: data.downloadRateBytesPerSecond,
+    instantaneousDownloadRateBytesPerSecond: data.instantaneousDownloadRateBytesPerSecond,
+    estimatedTimeRemainingSeconds: data.estimatedTimeRemainingSeconds,
+    isEstimateReliable: data.isEstimateReliable,
+    interruptedVia: data.interruptedVia,
+    retryAttempt: data.retryAttempt,
+    priority: data.priority,
+    postProcessing: data.postProcessing.map(({ error, ...step }) => step),
+  };
+}
+
+/**
+ * Registers the IPC handlers that let the renderer control downloads through the API
+ * exposed by `exposeDownloadManager()` in the preload script.
+ *
+ * A renderer can only see and control the downloads started from its own window.
+ *
+ * Returns a function that removes the handlers.
+ */
+export function registerIpcHandlers(manager: IElectronDownloadManager, options: RegisterIpcHandlersOptions = {}) {
+  const operations = options.operations || DOWNLOAD_IPC_OPERATIONS;
+  const validateSender = options.validateSender || (() => true);
+  const subscribers = new Map<number, WebContents>();
+  const cleanups: (() => void)[] = [];
+
+  const handle = (
+    operation: DownloadIpcOperation,
+    handler: (event: IpcMainInvokeEvent, ...args: any[]) => Promise<unknown> | unknown,
+  ) => {
+    if (!operations.includes(operation)) {
+      return;
+    }
+
+    const channel = getIpcChannel(operation);
+
+    ipcMain.handle(channel, (event, ...args) => {
+      if (!validateSender(event)) {
+        throw new Error(`The sender is not allowed to call ${channel}`);
+      }
+
+      return handler(event, ...args);
+    });
+
+    cleanups.push(() => ipcMain.removeHandler(channel));
+  };
+
+  // Returns the download only if it was started from the window of the sender
+  const getOwnDownload = (event: IpcMainInvokeEvent, id: string) => {
+    const data = manager.getDownloadData(id);
+    return data?.webContents?.id === event.sender.id ? data : undefined;
+  };
+
+  handle("download", (event, requestParams: RendererDownloadParams) => {
+    if (typeof requestParams?.url !== "string") {
+      throw new Error("A url must be defined to start a download");
+    }
+
+    const window = BrowserWindow.fromWebContents(event.sender);
+
+    if (!window) {
+      throw new Error("Downloads can only be started from a window");
+    }
+
+    const params = getRendererDownloadParams(requestParams);
+
+    if (options.validateDownload && !options.validateDownload(params, event)) {
+      throw new Error(`The download of ${truncateUrl(params.url)} is not allowed`);
+    }
+
+    return manager.download({ ...options.downloadConfig, ...params, window, callbacks: {} });
+  });
+
+  handle("cancelDownload", (event, id: string) => {
+    if (getOwnDownload(event, id)) {
+      manager.cancelDownload(id);
+    }
+  });
+
+  handle("pauseDownload", (event, id: string) => {
+    if (getOwnDownload(event, id)) {
+      manager.pauseDownload(id);
+    }
+  });
+
+  handle("resumeDownload", (event, id: string) => {
+    if (getOwnDownload(event, id)) {
+      manager.resumeDownload(id);
+    }
+  });
+
+  handle("getDownloadData", (event, id: string) => {
+    const data = getOwnDownload(event, id);
+    return data ? serializeDownloadData(data) : undefined;
+  });
+
+  if (operations.includes("subscribe")) {
+    const onSubscribe = (event: IpcMainEvent) => {
+      const { sender } = event;
+
+      if (!validateSender(event) || subscribers.has(sender.id)) {
+        return;
+      }
+
+      subscribers.set(sender.id, sender);
+      sender.once("destroyed", () => subscribers.delete(sender.id));
+    };
+
+    const onUnsubscribe = (event: IpcMainEvent) => {
+      subscribers.delete(event.sender.id);
+    };
+
+    ipcMain.on(getIpcChannel("subscribe"), onSubscribe);
+    ipcMain.on(getIpcChannel("unsubscribe"), onUnsubscribe);
+
+    cleanups.push(() => {
+      ipcMain.removeListener(getIpcChannel("subscribe"), onSubscribe);
+      ipcMain.removeListener(getIpcChannel("unsubscribe"), onUnsubscribe);
+      subscribers.clear();
+    });
+
+    const send = (data: DownloadData | undefined, event: RendererDownloadEvent) => {
+      const subscriber = data && subscribers.get(data.webContents?.id);
+
+      if (subscriber && !subscriber.isDestroyed()) {
+        subscriber.send(DOWNLOAD_IPC_EVENT_CHANNEL, event);
+      }
+    };
+
+    const forward = <E extends keyof DownloadManagerEvents>(
+      type: E,
+      listener: (...args: DownloadManagerEvents[E]) => void,
+    ) => {
+      manager.on(type, listener);
+      cleanups.push(() => manager.off(type, listener));
+    };
+
+    for (const type of [
+      "started",
+      "progress",
+      "completed",
+      "cancelled",
+      "skipped",
+      "interrupted",
+      "retrying",
+      "postProcessingProgress",
+    ] as const) {
+      forward(type, (data) => send(data, { type, data: serializeDownloadData(data) }));
+    }
+
+    forward("lowDiskSpace", (data) => send(data, { type: "lowDiskSpace", data: serializeDownloadData(data) }));
+
+    forward("statusChanged", (data, prev) =>
+      send(data, { type: "statusChanged", data: serializeDownloadData(data), prevStatus: prev }),
+    );
+
+    forward("error", (error, data) =>
+      send(data, {
+        type: "error",
+        data: data && serializeDownloadData(data),
+        error: { name: error.name, message: error.message, code: error.code, phase: error.phase },
+      }),
+    );
+  }
+
+  return () => {
+    for (const cleanup of cleanups) {
+      cleanup();
+    }
+  };
+}
@@ -1,5 +1,15 @@
-import type { BrowserWindow, SaveDialogOptions } from "electron";
+import type {
+  BrowserWindow,
+  DownloadItem,
+  IpcMainEvent,
+  IpcMainInvokeEvent,
+  SaveDialogOptions,
+  Session,
+  WebContents,
+} from "electron";
 import type { DownloadData } from "./DownloadData";
+import type { DownloadStatus } from "./DownloadStatus";
+import type { DownloadManagerError } from "./errors";
 
 /**
  * The download has started
@@ -17,63 +27,1017 @@ export type DownloadCancelledFn = (data: DownloadData) => Promise<void> | void;
  * The download has completed
  */
 export type DownloadCompletedFn = (data: DownloadData) => Promise<void> | void;
+/**
+ * The download was skipped because the file already exists
+ */
+export type DownloadSkippedFn = (data: DownloadData) => Promise<void> | void;
 /**
  * The download was interrupted
  */
 export type DownloadInterruptedFn = (data: DownloadData) => Promise<void> | void;
 /**
- * The download has failed
+ * The download was interrupted and is about to be retried
+ */
+export type DownloadRetryingFn = (data: DownloadData) => Promise<void> | void;
+/**
+ * A post-processing step has started, reported progress or finished
+ */
+export type DownloadPostProcessingProgressFn = (data: DownloadData) => Promise<void> | void;
+/**
+ * The free space on the volume of the download dropped below `diskSpace.pauseBelowBytes`, so it was paused
+ */
+export type DownloadLowDiskSpaceFn = (data: DownloadData, freeBytes: number) => Promise<void> | void;
+/**
+ * The status of the download has changed
+ */
+export type DownloadStatusChangedFn = (
+  data: DownloadData,
+  prev: DownloadStatus,
+  next: DownloadStatus,
+) => Promise<void> | void;
+/**
+ * The download has failed. The data is defined whenever the error is about a download.
+ */
+export type ErrorFn = (error: DownloadManagerError, data?: DownloadData) => Promise<void> | void;
+
+/**
+ * The stable code of a `DownloadManagerError`
+ *
+ * - `CONFIG_INVALID`: An option is invalid (`ConfigValidationError`)
+ * - `PATH_RESOLUTION_FAILED`: The save path could not be determined or set (`PathResolutionError`)
+ * - `PATH_TRAVERSAL`: The save path is outside of its directory (`PathTraversalError`)
+ * - `FILE_EXISTS`: The file already exists and `conflictStrategy` is `error` (`FileExistsError`)
+ * - `SAVE_DIALOG_FAILED`: The "Save as" dialog failed to open (`SaveDialogError`)
+ * - `CALLBACK_FAILED`: A callback or an event listener threw (`CallbackError`)
+ * - `DOWNLOAD_INTERRUPTED`: The download ended interrupted (`DownloadInterruptedError`)
+ * - `INSUFFICIENT_DISK_SPACE`: The volume does not have enough free space (`InsufficientDiskSpaceError`)
+ * - `POLICY_VIOLATION`: The download is not allowed by a `DownloadPolicy` (`PolicyViolationError`)
+ * - `CHECKSUM_MISMATCH`: The checksum of the file does not match (`ChecksumMismatchError`)
+ * - `VERIFICATION_FAILED`: The checksum of the file could not be computed (`VerificationError`)
+ * - `STAGING_FAILED`: The staged file could not be moved to its final path (`StagingError`)
+ * - `POST_PROCESSING_FAILED`: A post-processing step failed (`PostProcessingError`)
+ * - `ARCHIVE_LIMIT_EXCEEDED`: An archive exceeds a limit of `extractArchive()` (`ArchiveLimitError`)
+ * - `START_FAILED`: The download could not be started or restarted (`DownloadStartError`)
+ * - `DOWNLOAD_FAILED`: `downloadAndWait()` ended without the download completing (`DownloadFailedError`)
+ */
+export type DownloadErrorCode =
+  | "CONFIG_INVALID"
+  | "PATH_RESOLUTION_FAILED"
+  | "PATH_TRAVERSAL"
+  | "FILE_EXISTS"
+  | "SAVE_DIALOG_FAILED"
+  | "CALLBACK_FAILED"
+  | "DOWNLOAD_INTERRUPTED"
+  | "INSUFFICIENT_DISK_SPACE"
+  | "POLICY_VIOLATION"
+  | "CHECKSUM_MISMATCH"
+  | "VERIFICATION_FAILED"
+  | "STAGING_FAILED"
+  | "POST_PROCESSING_FAILED"
+  | "ARCHIVE_LIMIT_EXCEEDED"
+  | "START_FAILED"
+  | "DOWNLOAD_FAILED";
+
+/**
+ * The phase of the download lifecycle a `DownloadManagerError` happened in
+ *
+ * - `validation`: The options were checked, before the download was created
+ * - `queue`: The download was waiting in the queue
+ * - `initialization`: The save path was being determined and the download was being started
+ * - `save-dialog`: The "Save as" dialog was open
+ * - `transfer`: The file was being downloaded
+ * - `verification`: The checksum of the file was being verified
+ * - `finalization`: The staged file was being moved to its final path
+ * - `post-processing`: The post-processing steps were running
+ * - `completion`: The download had ended
  */
-export type ErrorFn = (error: Error, data?: DownloadData) => Promise<void> | void;
+export type DownloadPhase =
+  | "validation"
+  | "queue"
+  | "initialization"
+  | "save-dialog"
+  | "transfer"
+  | "verification"
+  | "finalization"
+  | "post-processing"
+  | "completion";
 
 /**
- * Function for logging internal debug messages
+ * The events emitted by the manager for every download it manages,
+ * and the arguments passed to the listeners
+ */
+export interface DownloadManagerEvents {
+  /**
+   * The download has started
+   */
+  started: [data: DownloadData];
+  /**
+   * There is progress on the download
+   */
+  progress: [data: DownloadData];
+  /**
+   * The download has completed
+   */
+  completed: [data: DownloadData];
+  /**
+   * The download has been cancelled
+   */
+  cancelled: [data: DownloadData];
+  /**
+   * The download was skipped because the file already exists
+   */
+  skipped: [data: DownloadData];
+  /**
+   * The download was interrupted
+   */
+  interrupted: [data: DownloadData];
+  /**
+   * The download was interrupted and is about to be retried
+   */
+  retrying: [data: DownloadData];
+  /**
+   * A post-processing step has started, reported progress or finished
+   */
+  postProcessingProgress: [data: DownloadData];
+  /**
+   * The free space on the volume of the download dropped below `diskSpace.pauseBelowBytes`, so it was paused
+   */
+  lowDiskSpace: [data: DownloadData, freeBytes: number];
+  /**
+   * The lifecycle status of the download has changed
+   */
+  statusChanged: [data: DownloadData, prev: DownloadStatus, next: DownloadStatus];
+  /**
+   * An error has been encountered
+   */
+  error: [error: DownloadManagerError, data?: DownloadData];
+}
+
+/**
+ * Forwards a download event to the manager-level listeners
+ */
+export type DownloadEventDispatchFn = <E extends keyof DownloadManagerEvents>(
+  event: E,
+  ...args: DownloadManagerEvents[E]
+) => void;
+
+/**
+ * Function for logging internal debug messages. Messages about a download are prefixed with its id.
  */
 export type DebugLoggerFn = (message: string) => void;
 
+/**
+ * The severity of a log entry
+ */
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface LogEntry {
+  level: LogLevel;
+  message: string;
+  /**
+   * The id of the download the entry is about
+   */
+  downloadId?: string;
+  /**
+   * What happened, such as `status-changed` or `callback-error`
+   */
+  event?: string;
+  /**
+   * The details of the entry, such as `url`, `receivedBytes`, `totalBytes` or `status`.
+   * The `url` is truncated the same way as the URLs in the messages.
+   */
+  fields?: Record<string, unknown>;
+}
+
+/**
+ * Receives structured log entries, such as to filter them by level or send them to a log pipeline
+ */
+export interface DownloadLogger {
+  log(entry: LogEntry): void;
+}
+
+/**
+ * A logger with a method per level that takes the fields, then the message, such as pino
+ */
+export type PinoStyleLogger = Record<LogLevel, (fields: Record<string, unknown>, message: string) => void>;
+
+/**
+ * A logger that takes a single object with the level, message and fields, such as winston
+ */
+export interface WinstonStyleLogger {
+  log(entry: { level: string; message: string; [field: string]: unknown }): void;
+}
+
 export interface DownloadManagerConstructorParams {
   /**
    * If defined, will log out internal debug messages. Useful for
    * troubleshooting downloads. Does not log out progress due to
    * how frequent it can be.
    */
-  debugLogger?: DebugLoggerFn;
+  debugLogger?: DebugLoggerFn;
+  /**
+   * If defined, receives structured log entries with a level, download id, event and fields,
+   * instead of `debugLogger`. See `consoleLogAdapter()`, `pinoLogAdapter()` and `winstonLogAdapter()`.
+   */
+  logger?: DownloadLogger;
+  /**
+   * The maximum number of downloads that can run at the same time. Downloads
+   * started beyond this limit are queued until a running download finishes.
+   * Paused downloads still count towards the limit.
+   * @default Unlimited
+   */
+  maxConcurrentDownloads?: number;
+  /**
+   * If defined, finished downloads are recorded to a history store. Set to `true`
+   * to use a JSON file in the app's userData directory, or pass in your own store.
+   * @default false
+   */
+  history?: boolean | DownloadHistoryStore;
+  /**
+   * Where to save the state of in-progress downloads so they can be
+   * restored after an app restart with `restoreDownloads()`. Must be an absolute path.
+   * @default <userData>/download-state.json
+   */
+  downloadStateFilePath?: string;
+  /**
+   * If defined, the state of in-progress downloads is saved at this interval
+   * in milliseconds, so it survives a crash. Otherwise, call `saveDownloadState()`
+   * yourself, such as in the app's `before-quit` event.
+   * Stop it with `stopSavingDownloadState()`.
+   */
+  downloadStateSaveIntervalMs?: number;
+  /**
+   * If defined, the combined download rate of all downloads is limited to this many bytes per second.
+   * Can be changed later with `setMaxBytesPerSecond()`.
+   * @default Unlimited
+   */
+  maxBytesPerSecond?: number;
+  /**
+   * If defined, the aggregate progress of all downloads is shown in the taskbar / dock
+   * and as the app badge count.
+   */
+  progressIndicator?: ProgressIndicatorOptions;
+  /**
+   * Steps to run on every completed download, such as a malware scan.
+   * They run before the steps defined in the download config.
+   */
+  postProcessing?: PostProcessingStep[];
+  /**
+   * Restricts what every download can fetch, such as the hosts and file types content pages are allowed to download.
+   * Both this policy and the policy in the download config must allow the download.
+   */
+  policy?: DownloadPolicy;
+  /**
+   * Limits how often progress is reported for every download, to the callbacks and to the `progress` event.
+   * Can be overridden in the download config.
+   * @default Unthrottled
+   */
+  progressThrottle?: ProgressThrottleOptions;
+  /**
+   * Creates the estimator of the download rate for every download. Can be overridden in the download config.
+   * @default A `SlidingWindowRateEstimator`
+   */
+  rateEstimator?: () => RateEstimator;
+}
+
+export interface ProgressIndicatorOptions {
+  /**
+   * The window to show the progress bar on.
+   * @default All windows
+   */
+  window?: BrowserWindow;
+  /**
+   * If true, shows the progress with `BrowserWindow.setProgressBar()`. The bar is shown in the
+   * paused mode when all downloads are paused, and in the error mode when a download was interrupted.
+   * @default true
+   */
+  progressBar?: boolean;
+  /**
+   * If true, sets the app badge count to the number of unfinished downloads, including queued downloads.
+   * Only supported on macOS and Linux.
+   * @default false
+   */
+  badgeCount?: boolean;
+}
+
+/**
+ * The combined progress of all active downloads
+ */
+export interface AggregateProgress {
+  /**
+   * The number of downloads that have started and not finished yet, including paused downloads
+   */
+  activeCount: number;
+  /**
+   * The number of active downloads that are paused
+   */
+  pausedCount: number;
+  /**
+   * The number of downloads waiting in the queue
+   */
+  queuedCount: number;
+  /**
+   * The combined size of the active downloads in bytes
+   */
+  totalBytes: number;
+  /**
+   * The combined number of bytes received by the active downloads
+   */
+  receivedBytes: number;
+  /**
+   * The combined download rate of the active downloads that are not paused
+   */
+  downloadRateBytesPerSecond: number;
+  /**
+   * The estimated time until all active downloads have finished, in seconds.
+   * 0 if it can't be estimated.
+   */
+  estimatedTimeRemainingSeconds: number;
+  /**
+   * The percentage of the combined size that has been received
+   */
+  percentCompleted: number;
+  /**
+   * True if the size of at least one download is not known, in which case
+   * `totalBytes` and `percentCompleted` only cover the downloads of a known size.
+   */
+  hasUnknownSize: boolean;
+  /**
+   * True if at least one download was interrupted and is waiting to be retried or resumed
+   */
+  hasInterrupted: boolean;
+}
+
+/**
+ * Selects downloads in `listDownloads()`, `cancelAll()`, `pauseAll()` and `resumeAll()`.
+ * A download must match every property that is defined.
+ */
+export interface DownloadFilter {
+  /**
+   * The status of the download, or any of the statuses
+   */
+  status?: DownloadStatus | DownloadStatus[];
+  /**
+   * The window that started the download
+   */
+  window?: BrowserWindow;
+  /**
+   * The WebContents that started the download
+   */
+  webContents?: WebContents;
+  /**
+   * The requested URL. A string must match the URL exactly, a RegExp is tested against it.
+   */
+  url?: string | RegExp;
+  /**
+   * A tag that the download must have
+   */
+  tag?: string;
+}
+
+/**
+ * The saved state of an in-progress download, used to restore it after an app restart
+ */
+export interface PersistedDownload {
+  /**
+   * The id of the download. The restored download keeps the same id.
+   */
+  id: string;
+  /**
+   * The complete URL chain of the download, including redirects
+   */
+  urlChain: string[];
+  /**
+   * The path the file is being saved to
+   */
+  savePath: string;
+  /**
+   * The name of the file that is being saved
+   */
+  resolvedFilename: string;
+  /**
+   * The MIME type of the file
+   */
+  mimeType: string;
+  /**
+   * The number of bytes that have been received
+   */
+  receivedBytes: number;
+  /**
+   * The size of the file in bytes. 0 if the server did not provide it.
+   */
+  totalBytes: number;
+  /**
+   * The ETag header value
+   */
+  eTag: string;
+  /**
+   * The Last-Modified header value
+   */
+  lastModified: string;
+  /**
+   * When the download started, in seconds since the epoch
+   */
+  startTime: number;
+  /**
+   * The tags defined in the download config
+   */
+  tags?: string[];
+  /**
+   * The path the file is renamed to once it has completed, if it is being staged
+   */
+  finalSavePath?: string;
+}
+
+export interface RestoreDownloadsParams {
+  /**
+   * The callbacks for the restored downloads. Pass in a function
+   * to define different callbacks per download.
+   */
+  callbacks?: DownloadManagerCallbacks | ((download: PersistedDownload) => DownloadManagerCallbacks);
+  /**
+   * If defined, interrupted downloads will be retried with an exponential backoff.
+   */
+  retry?: DownloadRetryOptions;
+}
+
+/**
+ * The download that a session download policy is deciding on
+ */
+export interface SessionDownloadDetails {
+  /**
+   * The Electron.DownloadItem. The download is paused until the decision has been applied.
+   */
+  item: DownloadItem;
+  /**
+   * The Electron.WebContents that started the download. Not defined for downloads without one,
+   * such as downloads started by a service worker.
+   */
+  webContents?: WebContents;
+  /**
+   * The URL of the download
+   */
+  url: string;
+  /**
+   * The filename suggested by the server
+   */
+  filename: string;
+  /**
+   * The MIME type of the file
+   */
+  mimeType: string;
+}
+
+/**
+ * How to handle a download started by the user in an attached session.
+ * Same as the download config, without the options that only apply when the manager starts the download.
+ */
+export interface SessionDownloadDecision
+  extends Pick<
+    DownloadConfig,
+    | "saveDialogOptions"
+    | "saveDialogTimeoutMs"
+    | "saveAsFilename"
+    | "directory"
+    | "overwrite"
+    | "conflictStrategy"
+    | "filenameTemplate"
+    | "sanitizeFilename"
+    | "staging"
+    | "diskSpace"
+    | "retry"
+    | "integrity"
+    | "maxBytesPerSecond"
+    | "tags"
+    | "postProcessing"
+    | "policy"
+    | "progressThrottle"
+    | "rateEstimator"
+  > {
+  /**
+   * The callbacks to define to listen for download events
+   */
+  callbacks?: DownloadManagerCallbacks;
+}
+
+/**
+ * Decides how to handle a download started by the user in an attached session.
+ * Return false to reject the download.
+ *
+ * Called from the session's `will-download` event, which can only be rejected
+ * synchronously, so the policy can't be async.
+ */
+export type SessionDownloadPolicyFn = (details: SessionDownloadDetails) => SessionDownloadDecision | false;
+
+/**
+ * The record of a finished download
+ */
+export interface DownloadHistoryEntry {
+  /**
+   * The id of the download
+   */
+  id: string;
+  /**
+   * The URL that was downloaded
+   */
+  url: string;
+  /**
+   * The path the file was saved to
+   */
+  savePath: string;
+  /**
+   * The name of the file that was saved
+   */
+  filename: string;
+  /**
+   * The size of the file in bytes. 0 if the server did not provide it.
+   */
+  totalBytes: number;
+  /**
+   * The number of bytes that were received
+   */
+  receivedBytes: number;
+  /**
+   * The MIME type of the file
+   */
+  mimeType: string;
+  /**
+   * How the download ended. `failed` if it was rejected before it started or failed a check after it was
+   * received, such as a checksum mismatch, even if the file itself was downloaded.
+   */
+  outcome: "completed" | "cancelled" | "interrupted" | "failed";
+  /**
+   * When the download started, in milliseconds since the epoch
+   */
+  startTime: number;
+  /**
+   * When the download ended, in milliseconds since the epoch
+   */
+  endTime: number;
+  /**
+   * If the download was interrupted, the state in which it was interrupted from
+   */
+  interruptedVia?: "in-progress" | "completed";
+}
+
+export interface DownloadHistoryQuery {
+  /**
+   * Only return entries with this outcome
+   */
+  outcome?: DownloadHistoryEntry["outcome"];
+  /**
+   * Only return entries whose URL contains this string or matches this pattern
+   */
+  url?: string | RegExp;
+  /**
+   * Only return entries that ended at or after this time, in milliseconds since the epoch
+   */
+  since?: number;
+  /**
+   * Only return entries that ended before this time, in milliseconds since the epoch
+   */
+  until?: number;
+  /**
+   * The number of matching entries to skip
+   * @default 0
+   */
+  offset?: number;
+  /**
+   * The maximum number of entries to return
+   * @default All matching entries
+   */
+  limit?: number;
+}
+
+export interface DownloadHistoryQueryResult {
+  /**
+   * The matching entries, newest first
+   */
+  entries: DownloadHistoryEntry[];
+  /**
+   * The total number of matching entries, ignoring offset and limit
+   */
+  total: number;
+}
+
+/**
+ * Storage backend for the download history
+ */
+export interface DownloadHistoryStore {
+  /**
+   * Records a finished download
+   */
+  add(entry: DownloadHistoryEntry): Promise<void>;
+  /**
+   * Returns the entries matching the query, newest first
+   */
+  query(query?: DownloadHistoryQuery): Promise<DownloadHistoryQueryResult>;
+  /**
+   * Removes an entry from the history
+   */
+  remove(id: string): Promise<void>;
+  /**
+   * Removes all entries from the history
+   */
+  clear(): Promise<void>;
+}
+
+export interface DownloadManagerCallbacks {
+  /**
+   * When the download has started. When using a "save as" dialog,
+   * this will be called after the user has selected a location.
+   *
+   * This will always be called first before the progress and completed events.
+   */
+  onDownloadStarted?: DownloadStartedFn;
+  /**
+   * When there is a progress update on a download. Note: This
+   * may be skipped entirely in some cases, where the download
+   * completes immediately. In that case, onDownloadCompleted
+   * will be called instead.
+   */
+  onDownloadProgress?: DownloadProgressFn;
+  /**
+   * When the download has completed
+   */
+  onDownloadCompleted?: DownloadCompletedFn;
+  /**
+   * When the download has been cancelled. Also called if the user cancels
+   * from the save as dialog.
+   */
+  onDownloadCancelled?: DownloadCancelledFn;
+  /**
+   * When the download was not started because the file already exists and
+   * `conflictStrategy` is `skip`. The path of the file is in `DownloadData.existingFilePath`.
+   */
+  onDownloadSkipped?: DownloadSkippedFn;
+  /**
+   * When the download has been interrupted. This could be due to a bad
+   * connection, the server going down, etc.
+   */
+  onDownloadInterrupted?: DownloadInterruptedFn;
+  /**
+   * When the download was interrupted and a retry has been scheduled.
+   * Only called if `retry` is defined in the download config.
+   * `onDownloadInterrupted` is called instead once the retries have been exhausted.
+   */
+  onDownloadRetrying?: DownloadRetryingFn;
+  /**
+   * When a post-processing step has started, reported progress or finished.
+   * The state of each step is in `DownloadData.postProcessing`.
+   */
+  onPostProcessingProgress?: DownloadPostProcessingProgressFn;
+  /**
+   * When the free space on the volume of the download dropped below `diskSpace.pauseBelowBytes`
+   * and the download was paused. Resume it with `resumeDownload()` once space has been freed.
+   */
+  onLowDiskSpace?: DownloadLowDiskSpaceFn;
+  /**
+   * When the lifecycle status of the download has changed. See `DownloadData.status`.
+   */
+  onStatusChanged?: DownloadStatusChangedFn;
+  /**
+   * When an error has been encountered.
+   * Note: The signature is (error, <maybe some data>).
+   */
+  onError?: ErrorFn;
+}
+
+/**
+ * Returns a filename that is safe to save. See `DownloadConfig.sanitizeFilename`.
+ */
+export type SanitizeFilenameFn = (filename: string) => string;
+
+/**
+ * What to do if a file with the same name already exists. See `DownloadConfig.conflictStrategy`.
+ */
+export type FileConflictStrategy = "overwrite" | "uniquify" | "skip" | "error" | "prompt";
+
+export interface DownloadRetryOptions {
+  /**
+   * The maximum number of times to retry the download
+   */
+  maxAttempts: number;
+  /**
+   * The delay before the first retry in milliseconds
+   * @default 1000
+   */
+  initialDelayMs?: number;
+  /**
+   * The maximum delay between retries in milliseconds
+   * @default 30000
+   */
+  maxDelayMs?: number;
+  /**
+   * The multiplier applied to the delay after each attempt
+   * @default 2
+   */
+  backoffFactor?: number;
+  /**
+   * The amount of randomness to apply to the delay, between 0 and 1.
+   * A value of 0.2 will vary the delay by up to 20% in either direction.
+   * @default 0.2
+   */
+  jitter?: number;
+  /**
+   * Which interruptions to retry, based on `DownloadData.interruptedVia`
+   * @default ["in-progress", "completed"]
+   */
+  retryOn?: Array<"in-progress" | "completed">;
+}
+
+export interface DownloadIntegrityOptions {
+  /**
+   * The hash algorithm to use, such as sha256, sha512 or md5.
+   * If not defined, `digest` is treated as a Subresource Integrity string.
+   */
+  algorithm?: string;
+  /**
+   * The expected digest of the file, or a Subresource Integrity string
+   * (such as `sha256-<base64 digest>`) if `algorithm` is not defined.
+   */
+  digest: string;
+  /**
+   * The encoding of the digest. Ignored for Subresource Integrity strings.
+   * @default "hex"
+   */
+  encoding?: "hex" | "base64";
+  /**
+   * What to do with the file if the digest does not match.
+   * `quarantine` renames the file with a `.quarantine` extension.
+   * @default "delete"
+   */
+  onMismatch?: "delete" | "quarantine";
+}
+
+/**
+ * The details passed to a post-processing step
+ */
+export interface PostProcessingContext {
+  /**
+   * The path of the file to process. This is the save path of the download,
+   * unless a previous step moved the file or extracted it.
+   */
+  filePath: string;
+  /**
+   * The data for the download
+   */
+  downloadData: DownloadData;
+  /**
+   * Reports the progress of the step, as a percentage between 0 and 100
+   */
+  reportProgress: (percentCompleted: number) => void;
+}
+
+/**
+ * What a post-processing step returns once it is done
+ */
+export interface PostProcessingStepResult {
+  /**
+   * The new path of the file, if the step moved it or extracted it.
+   * The following steps are given this path.
+   */
+  filePath?: string;
+}
+
+/**
+ * A step that runs on a completed download, such as extracting or scanning the file.
+ * Throw from `run()` to fail the download.
+ */
+export interface PostProcessingStep {
+  /**
+   * The name of the step, used in `DownloadData.postProcessing` and in errors
+   */
+  name: string;
+  // biome-ignore lint/suspicious/noConfusingVoidType: Steps that don't move the file don't need to return anything
+  run: (context: PostProcessingContext) => Promise<PostProcessingStepResult | void> | PostProcessingStepResult | void;
+}
+
+/**
+ * The state of a post-processing step of a download
+ */
+export interface PostProcessingStepState {
+  /**
+   * The name of the step
+   */
+  name: string;
+  /**
+   * `skipped` if an earlier step failed
+   */
+  status: "pending" | "running" | "completed" | "failed" | "skipped";
+  /**
+   * The progress reported by the step, between 0 and 100
+   */
+  percentCompleted: number;
+  /**
+   * The error thrown by the step, if it failed
+   */
+  error?: Error;
+  /**
+   * The path returned by the step, if it moved or extracted the file
+   */
+  filePath?: string;
+}
+
+/**
+ * The archive formats that `extractArchive()` supports
+ */
+export type ArchiveFormat = "zip" | "tar" | "tar.gz";
+
+/**
+ * The options of `ExtractArchiveOptions` that limit what an archive can extract
+ */
+export type ArchiveLimit = "maxEntries" | "maxEntrySizeBytes" | "maxTotalSizeBytes";
+
+export interface ExtractArchiveOptions {
+  /**
+   * The directory to extract the archive to. Must be an absolute path.
+   * @default The path of the archive without its extension
+   */
+  directory?: string;
+  /**
+   * The format of the archive
+   * @default Detected from the file extension
+   */
+  format?: ArchiveFormat;
+  /**
+   * If true, the archive is deleted once it has been extracted
+   * @default false
+   */
+  deleteArchive?: boolean;
+  /**
+   * If true, replaces the files that already exist in the directory.
+   * Otherwise, the step fails with a `FileExistsError`.
+   * @default false
+   */
+  overwrite?: boolean;
+  /**
+   * The maximum number of entries in the archive, including directories
+   * @default 10000
+   */
+  maxEntries?: number;
+  /**
+   * The maximum size of an extracted file, in bytes
+   * @default maxTotalSizeBytes
+   */
+  maxEntrySizeBytes?: number;
+  /**
+   * The maximum combined size of the extracted files, in bytes.
+   * Protects against archives that expand to far more than their own size.
+   * @default 2 GiB
+   */
+  maxTotalSizeBytes?: number;
+}
+
+export interface MoveFileOptions {
+  /**
+   * If true, replaces the file if it already exists in the directory.
+   * Otherwise, the step fails with a `FileExistsError`.
+   * @default false
+   */
+  overwrite?: boolean;
+}
+
+export interface DiskSpaceOptions {
+  /**
+   * The number of bytes to keep free on top of the size of the file. Before the download starts,
+   * it fails with an `InsufficientDiskSpaceError` if the volume has less free space than the
+   * remaining size of the file plus this margin. Skipped if the server did not provide the size.
+   * @default 0
+   */
+  safetyMarginBytes?: number;
+  /**
+   * If defined, the free space is checked while the download runs, and the download is paused
+   * and `onLowDiskSpace` is called when it drops below this many bytes.
+   */
+  pauseBelowBytes?: number;
+  /**
+   * How often to check the free space while the download runs, in milliseconds
+   * @default 5000
+   */
+  checkIntervalMs?: number;
+}
+
+/**
+ * The option of a `DownloadPolicy` that a download violated
+ */
+export type DownloadPolicyRule =
+  | "allowedUrls"
+  | "blockedUrls"
+  | "allowedMimeTypes"
+  | "allowedExtensions"
+  | "maxFileSizeBytes";
+
+/**
+ * Restricts which downloads are allowed. Every URL of the redirect chain is checked against the URL rules.
+ * A download that violates the policy is cancelled and `onError` is called with a `PolicyViolationError`.
+ *
+ * A string URL pattern matches a host and its subdomains, such as `example.com` for `cdn.example.com`.
+ * A regular expression is tested against the full URL.
+ */
+export interface DownloadPolicy {
+  /**
+   * If defined, only URLs that match one of the patterns can be downloaded
+   */
+  allowedUrls?: Array<string | RegExp>;
+  /**
+   * URLs that match one of the patterns can't be downloaded, even if they are allowed by `allowedUrls`
+   */
+  blockedUrls?: Array<string | RegExp>;
+  /**
+   * If defined, only files with one of these MIME types can be downloaded, such as `application/pdf`.
+   * A type can end with a wildcard, such as `image/*`.
+   */
+  allowedMimeTypes?: string[];
+  /**
+   * If defined, only files with one of these extensions can be downloaded, such as `.zip` or `tar.gz`.
+   * Checked against the filename sent by the server and the filename the file is saved as.
+   */
+  allowedExtensions?: string[];
+  /**
+   * If defined, files larger than this many bytes can't be downloaded. Checked against the size sent by the server
+   * before the download starts, and against the received bytes while it runs and once it has completed when the
+   * server did not send a size.
+   */
+  maxFileSizeBytes?: number;
+}
+
+/**
+ * The number of bytes a download had received at a point in time
+ */
+export interface RateSample {
+  receivedBytes: number;
+  /**
+   * The time of the sample, in milliseconds since the UNIX epoch
+   */
+  timeMs: number;
+}
+
+export interface RateEstimate {
+  /**
+   * The smoothed download rate, in bytes per second
+   */
+  bytesPerSecond: number;
+  /**
+   * The download rate between the last two samples, in bytes per second
+   */
+  instantaneousBytesPerSecond: number;
+  /**
+   * True once the rate has been measured for long enough to estimate the time remaining
+   */
+  reliable: boolean;
 }
 
-export interface DownloadManagerCallbacks {
+/**
+ * Estimates the download rate of a download from samples of its received bytes.
+ * A new estimator is created for every download, so it can keep the history of its samples.
+ */
+export interface RateEstimator {
   /**
-   * When the download has started. When using a "save as" dialog,
-   * this will be called after the user has selected a location.
-   *
-   * This will always be called first before the progress and completed events.
+   * Records the number of bytes received at a point in time
+   * @param timeMs Defaults to the current time
    */
-  onDownloadStarted?: DownloadStartedFn;
+  addSample(receivedBytes: number, timeMs?: number): void;
   /**
-   * When there is a progress update on a download. Note: This
-   * may be skipped entirely in some cases, where the download
-   * completes immediately. In that case, onDownloadCompleted
-   * will be called instead.
+   * Called when the download stops progressing, such as when it is paused.
+   * The time until the next sample must not count towards the rate.
    */
-  onDownloadProgress?: DownloadProgressFn;
+  pause(): void;
+  getEstimate(): RateEstimate;
   /**
-   * When the download has completed
+   * Returns the samples recorded for the download, oldest first
    */
-  onDownloadCompleted?: DownloadCompletedFn;
+  getSamples(): RateSample[];
+}
+
+/**
+ * Limits how often progress is reported. The minimums are combined with AND: an update is only reported once
+ * every defined minimum has been reached since the last reported update, and is dropped if any of them has not.
+ * The first update is always reported, and the last update that was dropped is reported before the download completes.
+ */
+export interface ProgressThrottleOptions {
   /**
-   * When the download has been cancelled. Also called if the user cancels
-   * from the save as dialog.
+   * The minimum time between two progress updates, in milliseconds
    */
-  onDownloadCancelled?: DownloadCancelledFn;
+  minIntervalMs?: number;
   /**
-   * When the download has been interrupted. This could be due to a bad
-   * connection, the server going down, etc.
+   * The minimum change of `percentCompleted` between two progress updates.
+   * Ignored when the server did not send the size, since the percentage does not change.
    */
-  onDownloadInterrupted?: DownloadInterruptedFn;
+  minPercentDelta?: number;
   /**
-   * When an error has been encountered.
-   * Note: The signature is (error, <maybe some data>).
+   * The minimum number of bytes received between two progress updates
    */
-  onError?: ErrorFn;
+  minBytesDelta?: number;
+}
+
+export interface DownloadStagingOptions {
+  /**
+   * The directory to write the file to while it downloads, such as a temporary directory.
+   * Must be an absolute path. It is created if it does not exist.
+   * @default The directory the file is saved to
+   */
+  directory?: string;
 }
 
 export interface DownloadConfig {
@@ -97,11 +1061,18 @@ export interface DownloadConfig {
   downloadURLOptions?: Electron.DownloadURLOptions;
   /**
    * If defined, will show a save dialog when the user
-   * downloads a file.
+   * downloads a file. While the dialog is open, the file is downloaded to a staging file
+   * and it is moved to the chosen path once it has completed.
    *
    * @see https://www.electronjs.org/docs/latest/api/dialog#dialogshowsavedialogbrowserwindow-options
    */
   saveDialogOptions?: SaveDialogOptions;
+  /**
+   * If defined, the download is cancelled if the user has not chosen a location in the
+   * save dialog within this many milliseconds. Only applies if saveDialogOptions is defined.
+   * Electron can't close the dialog, so it stays open and the location chosen after the timeout is ignored.
+   */
+  saveDialogTimeoutMs?: number;
   /**
    * The filename to save the file as. If not defined, the filename
    * from the server will be used.
@@ -119,9 +1090,408 @@ export interface DownloadConfig {
    * @default false
    */
   overwrite?: boolean;
+  /**
+   * What to do if a file with the same name already exists in the directory:
+   *
+   * - `overwrite`: Replace the file
+   * - `uniquify`: Add a number to the filename, such as `report (1).pdf`
+   * - `skip`: Don't download the file again. `onDownloadSkipped` is called instead.
+   * - `error`: Cancel the download and call `onError` with a `FileExistsError`
+   * - `prompt`: Show the save dialog so the user can choose another location
+   *
+   * Does not apply when `saveDialogOptions` is defined, as the dialog handles existing files.
+   * @default `overwrite` if `overwrite` or `saveAsFilename` is defined, otherwise `uniquify`
+   */
+  conflictStrategy?: FileConflictStrategy;
+  /**
+   * The filename to save the file as, with placeholders that are replaced with the download's details:
+   *
+   * - `{name}`: The filename from the server, without the extension
+   * - `{ext}`: The extension of the filename from the server, including the dot
+   * - `{mimeExt}`: The extension for the MIME type of the file, including the dot
+   * - `{id}`: The id of the download
+   * - `{host}`: The host name of the URL
+   * - `{date}`: The date the download started, as `YYYY-MM-DD`. Use `{date:<format>}` for another format,
+   *   with `YYYY`, `MM`, `DD`, `HH`, `mm` and `ss`.
+   *
+   * For example, `{name}-{date:YYYYMMDD}{ext}`. Cannot be used with `saveAsFilename`.
+   * Only applies if saveDialogOptions is not defined.
+   */
+  filenameTemplate?: string;
+  /**
+   * Makes the filename from the server, `saveAsFilename` or `filenameTemplate` safe to save, by replacing
+   * path separators, control characters and characters that are not allowed on Windows, renaming reserved
+   * names such as `CON` and shortening names over 255 bytes. Pass in a function to sanitize it yourself,
+   * or false to disable it.
+   *
+   * The save path is always checked to be inside `directory`. If it isn't, the download is cancelled
+   * and `onError` is called with a `PathTraversalError`.
+   * @default true
+   */
+  sanitizeFilename?: boolean | SanitizeFilenameFn;
+  /**
+   * The priority of the download when it has to wait in the queue
+   * for a free slot. Higher values are started first.
+   * @default 0
+   */
+  priority?: number;
+  /**
+   * If defined, interrupted downloads will be retried with an exponential backoff.
+   * The download is resumed if possible, otherwise it is restarted from scratch.
+   */
+  retry?: DownloadRetryOptions;
+  /**
+   * If defined, the file is hashed after the download completes and compared against
+   * the expected digest. Accepts a Subresource Integrity string (such as `sha256-<base64 digest>`)
+   * or the digest options.
+   *
+   * On a mismatch, the file is deleted or quarantined and `onError` is called with a
+   * `ChecksumMismatchError` instead of calling `onDownloadCompleted`.
+   *
+   * `download()` rejects with a `ConfigValidationError` if the algorithm is not supported
+   * or the digest is malformed.
+   */
+  integrity?: string | DownloadIntegrityOptions;
+  /**
+   * If defined, the file is written to a staging file while it downloads, and renamed to its final path
+   * once it has completed and its integrity has been verified. This keeps other tools, such as file watchers,
+   * from picking up a partial file. Set to `true` to write to `<filename>.<id>.part` in the same directory,
+   * or define a `directory` to stage the file in.
+   *
+   * The staging file is deleted if the download is cancelled, fails or ends interrupted.
+   * @default false
+   */
+  staging?: boolean | DownloadStagingOptions;
+  /**
+   * Checks the free space on the volume the file is saved to. Before the download starts, it fails with
+   * an `InsufficientDiskSpaceError` if the file does not fit. Set to `false` to skip the check.
+   * @default {}
+   */
+  diskSpace?: false | DiskSpaceOptions;
+  /**
+   * Limits how often progress is reported for this download, to `onDownloadProgress` and to the `progress` event.
+   * Overrides the throttle defined in the manager. Set to `false` to report every update.
+   * @default The throttle defined in the manager
+   */
+  progressThrottle?: false | ProgressThrottleOptions;
+  /**
+   * Creates the estimator of the download rate of this download, which is used for `downloadRateBytesPerSecond`
+   * and `estimatedTimeRemainingSeconds`, such as `() => new EwmaRateEstimator()`.
+   * @default The estimator defined in the manager, or a `SlidingWindowRateEstimator`
+   */
+  rateEstimator?: () => RateEstimator;
+  /**
+   * If defined, the download rate of this download is limited to this many bytes per second.
+   * Can be changed later with `setDownloadMaxBytesPerSecond()`.
+   *
+   * The rate is limited by pausing and resuming the download, so it is an average over time.
+   */
+  maxBytesPerSecond?: number;
+  /**
+   * Labels for the download, such as the feature or account it belongs to.
+   * Used to find related downloads with `listDownloads()` and the bulk methods.
+   */
+  tags?: string[];
+  /**
+   * Steps to run once the download has completed and its integrity has been verified,
+   * such as extracting an archive or moving the file. The steps run in order, after the
+   * steps defined in the manager.
+   *
+   * The download is in the `processing` status while they run. `onDownloadCompleted` is only
+   * called once every step has succeeded. If a step fails, `onError` is called with a
+   * `PostProcessingError` and the download fails.
+   */
+  postProcessing?: PostProcessingStep[];
+  /**
+   * Restricts what this download can fetch. Applied on top of the policy defined in the manager.
+   */
+  policy?: DownloadPolicy;
+}
+
+/**
+ * The outcome of a download started with `downloadAndWait()`
+ */
+export interface DownloadResult {
+  /**
+   * The id of the download
+   */
+  id: string;
+  /**
+   * How the download ended. `skipped` if the file already exists and `conflictStrategy` is `skip`.
+   */
+  outcome: "completed" | "cancelled" | "skipped" | "interrupted";
+  /**
+   * The path the file was saved to, or the path of the existing file if the download was skipped.
+   * If a post-processing step moved or extracted the file, the path it returned.
+   * Empty if the download was cancelled before a path was chosen.
+   */
+  savePath: string;
+  /**
+   * The number of bytes that were received
+   */
+  receivedBytes: number;
+  /**
+   * The size of the file in bytes. 0 if the server did not provide it.
+   */
+  totalBytes: number;
+  /**
+   * The time from calling `downloadAndWait()` until the download ended, in milliseconds
+   */
+  durationMs: number;
+  /**
+   * The data for the download
+   */
+  downloadData: DownloadData;
+}
+
+/**
+ * The result of a file in a batch
+ */
+export interface DownloadBatchFileResult {
+  /**
+   * The index of the file in the configs passed to `downloadBatch()`
+   */
+  index: number;
+  url: string;
+  /**
+   * The id of the download. Not defined if the download failed to start.
+   */
+  id?: string;
+  /**
+   * How the download ended. `failed` means it ended with an error, such as a checksum mismatch.
+   */
+  outcome: DownloadResult["outcome"] | "failed";
+  /**
+   * The result of the download, if it completed, was cancelled or was interrupted
+   */
+  result?: DownloadResult;
+  /**
+   * The error, if the download failed
+   */
+  error?: Error;
+}
+
+/**
+ * The combined progress of the files in a batch
+ */
+export interface DownloadBatchProgress {
+  batchId: string;
+  totalFiles: number;
+  /**
+   * The number of files that have ended, with any outcome
+   */
+  finishedFiles: number;
+  /**
+   * The number of files that have completed
+   */
+  completedFiles: number;
+  /**
+   * The combined bytes received by the files in the batch
+   */
+  receivedBytes: number;
+  /**
+   * The combined size of the files that have started. Files with an unknown size are not included.
+   */
+  totalBytes: number;
+  percentCompleted: number;
+}
+
+export interface DownloadBatchResult {
+  batchId: string;
+  /**
+   * - `completed`: All files have completed
+   * - `cancelled`: The batch was cancelled with `cancelBatch()`, or a file was cancelled
+   * - `failed`: At least one file was interrupted or failed
+   */
+  outcome: "completed" | "cancelled" | "failed";
+  /**
+   * The results of the files, in the order they were passed to `downloadBatch()`
+   */
+  files: DownloadBatchFileResult[];
+}
+
+export interface DownloadBatchCallbacks {
+  /**
+   * When there is progress on any file in the batch
+   */
+  onBatchProgress?: (progress: DownloadBatchProgress) => Promise<void> | void;
+  /**
+   * When a file in the batch has ended, with any outcome
+   */
+  onFileFinished?: (result: DownloadBatchFileResult, progress: DownloadBatchProgress) => Promise<void> | void;
+  /**
+   * When all files in the batch have ended
+   */
+  onBatchCompleted?: (result: DownloadBatchResult) => Promise<void> | void;
+}
+
+export interface DownloadBatchOptions {
+  callbacks?: DownloadBatchCallbacks;
+  /**
+   * What to do with the rest of the batch when a file is interrupted or fails.
+   * `cancel` cancels the files that have not ended yet.
+   * @default "continue"
+   */
+  failurePolicy?: "continue" | "cancel";
+}
+
+/**
+ * The operations that can be exposed to the renderer over IPC
+ */
+export type DownloadIpcOperation =
+  | "download"
+  | "cancelDownload"
+  | "pauseDownload"
+  | "resumeDownload"
+  | "getDownloadData"
+  | "subscribe";
+
+/**
+ * The save dialog options that can be sent from the renderer
+ */
+export type RendererSaveDialogOptions = Pick<
+  SaveDialogOptions,
+  "title" | "buttonLabel" | "filters" | "message" | "nameFieldLabel"
+>;
+
+/**
+ * The download config that can be sent from the renderer. The window is the one that made the request.
+ * The directory, conflict handling and every other option that controls where the file is written can
+ * only be set in the main process, with the `downloadConfig` option of `registerIpcHandlers()`.
+ */
+export interface RendererDownloadParams {
+  url: string;
+  /**
+   * The filename to save the file as. It is always sanitized, so it can't point outside of the directory.
+   */
+  saveAsFilename?: string;
+  priority?: number;
+  tags?: string[];
+  /**
+   * If defined, a save dialog is shown so the user chooses the location
+   */
+  saveDialogOptions?: RendererSaveDialogOptions;
+}
+
+/**
+ * A copy of the DownloadData that can be sent over IPC
+ */
+export interface SerializedDownloadData {
+  id: string;
+  url: string;
+  status: DownloadStatus;
+  /**
+   * The name of the file that is being saved to the user's computer
+   */
+  filename: string;
+  /**
+   * The path the file is saved to. Empty if it has not been chosen yet.
+   */
+  savePath: string;
+  receivedBytes: number;
+  totalBytes: number;
+  percentCompleted: number;
+  downloadRateBytesPerSecond: number;
+  instantaneousDownloadRateBytesPerSecond: number;
+  estimatedTimeRemainingSeconds: number;
+  isEstimateReliable: boolean;
+  interruptedVia?: "in-progress" | "completed";
+  retryAttempt: number;
+  priority: number;
+  /**
+   * The state of the post-processing steps, without their errors
+   */
+  postProcessing: Array<Omit<PostProcessingStepState, "error">>;
+}
+
+/**
+ * A download event sent to the renderer
+ */
+export interface RendererDownloadEvent {
+  type: keyof DownloadManagerEvents;
+  /**
+   * The data of the download. Not defined for errors that are not related to a download.
+   */
+  data?: SerializedDownloadData;
+  /**
+   * Only defined for the `statusChanged` event
+   */
+  prevStatus?: DownloadStatus;
+  /**
+   * Only defined for the `error` event
+   */
+  error?: { name: string; message: string; code: DownloadErrorCode; phase: DownloadPhase };
+}
+
+export interface RegisterIpcHandlersOptions {
+  /**
+   * The operations the renderer is allowed to call. Only these channels are registered.
+   * @default All operations
+   */
+  operations?: DownloadIpcOperation[];
+  /**
+   * Called before every request. Return false to reject the request, such as when
+   * the sender is not a trusted window or origin.
+   */
+  validateSender?: (event: IpcMainInvokeEvent | IpcMainEvent) => boolean;
+  /**
+   * Called before a download requested by the renderer is started. Return false to reject it,
+   * such as when the URL is not on an allow-list.
+   */
+  validateDownload?: (params: RendererDownloadParams, event: IpcMainInvokeEvent) => boolean;
+  /**
+   * The config of the downloads requested by the renderer, such as the directory to save them to.
+   * The options of `RendererDownloadParams` sent by the renderer are applied on top of it.
+   */
+  downloadConfig?: Omit<DownloadConfig, "url" | "window" | "callbacks" | "postProcessing" | "rateEstimator">;
+}
+
+export interface ExposeDownloadManagerOptions {
+  /**
+   * The name of the global the API is exposed as in the renderer
+   * @default "downloadManager"
+   */
+  apiKey?: string;
+  /**
+   * The operations to expose. Should match the operations passed to `registerIpcHandlers()`.
+   * @default All operations
+   */
+  operations?: DownloadIpcOperation[];
+}
+
+/**
+ * The API exposed to the renderer by `exposeDownloadManager()`.
+ * Methods for operations that have not been exposed are not defined.
+ */
+export interface DownloadManagerRendererApi {
+  /**
+   * Starts a download in the window that made the request. Returns the id of the download.
+   */
+  download?: (params: RendererDownloadParams) => Promise<string>;
+  cancelDownload?: (id: string) => Promise<void>;
+  pauseDownload?: (id: string) => Promise<void>;
+  resumeDownload?: (id: string) => Promise<void>;
+  getDownloadData?: (id: string) => Promise<SerializedDownloadData | undefined>;
+  /**
+   * Listens for the events of the downloads started from this window. Returns a function to stop listening.
+   */
+  subscribe?: (listener: (event: RendererDownloadEvent) => void) => () => void;
 }
 
 export interface IElectronDownloadManager {
+  /**
+   * Listens for an event on every download managed by the manager.
+   * Listeners are called after the download's own callback.
+   */
+  on<E extends keyof DownloadManagerEvents>(event: E, listener: (...args: DownloadManagerEvents[E]) => void): this;
+  /**
+   * Listens for the next occurrence of an event on any download managed by the manager
+   */
+  once<E extends keyof DownloadManagerEvents>(event: E, listener: (...args: DownloadManagerEvents[E]) => void): this;
+  /**
+   * Removes a listener added with `on()` or `once()`
+   */
+  off<E extends keyof DownloadManagerEvents>(event: E, listener: (...args: DownloadManagerEvents[E]) => void): this;
   /**
    * Starts a download. If saveDialogOptions has been defined in the config,
    * the saveAs dialog will show up first.
@@ -131,6 +1501,36 @@ export interface IElectronDownloadManager {
    * This *must* be called with `await` or unintended behavior may occur.
    */
   download(params: DownloadConfig): Promise<string>;
+  /**
+   * Starts a download and waits until it has completed, been cancelled, been skipped or been interrupted.
+   *
+   * Rejects with a `DownloadFailedError` if the download fails to start or ends
+   * without one of those outcomes, such as when its checksum does not match.
+   */
+  downloadAndWait(params: DownloadConfig): Promise<DownloadResult>;
+  /**
+   * Starts a group of downloads that is tracked as one, with combined progress and a single
+   * `onBatchCompleted` callback. The files are subject to `maxConcurrentDownloads` like any other download.
+   *
+   * Returns the id of the batch.
+   */
+  downloadBatch(configs: DownloadConfig[], options?: DownloadBatchOptions): Promise<string>;
+  /**
+   * Cancels the files in a batch that have not ended yet. Returns false if the batch is not found.
+   */
+  cancelBatch(batchId: string): boolean;
+  /**
+   * Pauses the files in a batch. Returns false if the batch is not found.
+   */
+  pauseBatch(batchId: string): boolean;
+  /**
+   * Resumes the files in a batch. Returns false if the batch is not found.
+   */
+  resumeBatch(batchId: string): boolean;
+  /**
+   * Returns the ids of the downloads in a batch that have started and not ended yet
+   */
+  getBatchDownloadIds(batchId: string): string[];
   /**
    * Cancels a download
    */
@@ -151,4 +1551,83 @@ export interface IElectronDownloadManager {
    * Returns the data for a download
    */
   getDownloadData(id: string): DownloadData | undefined;
+  /**
+   * Returns the combined progress of all active downloads
+   */
+  getAggregateProgress(): AggregateProgress;
+  /**
+   * Returns the downloads that have not finished yet, including queued downloads, that match the filter
+   */
+  listDownloads(filter?: DownloadFilter): DownloadData[];
+  /**
+   * Cancels the downloads that match the filter. Returns the ids of the cancelled downloads.
+   */
+  cancelAll(filter?: DownloadFilter): string[];
+  /**
+   * Pauses the downloads in progress that match the filter. Returns the ids of the paused downloads.
+   */
+  pauseAll(filter?: DownloadFilter): string[];
+  /**
+   * Resumes the paused downloads that match the filter. Returns the ids of the resumed downloads.
+   */
+  resumeAll(filter?: DownloadFilter): string[];
+  /**
+   * Returns the ids of the downloads waiting in the queue, in the order they will be started
+   */
+  getQueuedDownloadIds(): string[];
+  /**
+   * Changes the priority of a queued download. Returns false if the download is not queued.
+   */
+  setQueuedDownloadPriority(id: string, priority: number): boolean;
+  /**
+   * Moves a queued download to the front of the queue. Returns false if the download is not queued.
+   */
+  promoteQueuedDownload(id: string): boolean;
+  /**
+   * Removes a download from the queue without starting it. No callbacks are called.
+   * Returns false if the download is not queued.
+   */
+  removeQueuedDownload(id: string): boolean;
+  /**
+   * Changes the maximum number of downloads that can run at the same time
+   */
+  setMaxConcurrentDownloads(maxConcurrentDownloads?: number): void;
+  /**
+   * Changes the maximum combined download rate of all downloads. Removes the limit if not defined.
+   */
+  setMaxBytesPerSecond(maxBytesPerSecond?: number): void;
+  /**
+   * Changes the maximum download rate of a download. Removes the limit if not defined.
+   * Returns false if the download has not started or has finished.
+   */
+  setDownloadMaxBytesPerSecond(id: string, maxBytesPerSecond?: number): boolean;
+  /**
+   * Returns the finished downloads that match the query, newest first.
+   * Returns no entries if history has not been enabled.
+   */
+  getDownloadHistory(query?: DownloadHistoryQuery): Promise<DownloadHistoryQueryResult>;
+  /**
+   * Removes all entries from the download history
+   */
+  clearDownloadHistory(): Promise<void>;
+  /**
+   * Saves the state of the in-progress downloads to disk so they can be restored
+   * with `restoreDownloads()` after an app restart. Returns the saved state.
+   */
+  saveDownloadState(): Promise<PersistedDownload[]>;
+  /**
+   * Stops saving the download state periodically, such as before the manager is discarded.
+   * The state can still be saved with `saveDownloadState()`.
+   */
+  stopSavingDownloadState(): void;
+  /**
+   * Restores the downloads saved by `saveDownloadState()` into the session and resumes them.
+   * Returns the ids of the restored downloads.
+   */
+  restoreDownloads(session: Session, params?: RestoreDownloadsParams): Promise<string[]>;
+  /**
+   * Handles every download started in the session, such as from the user clicking a link,
+   * with the same flow and callbacks as `download()`. Returns a function that detaches the session.
+   */
+  attachToSession(session: Session, policy?: SessionDownloadPolicyFn): () => void;
 }
@@ -1,8 +1,24 @@
 import crypto from "node:crypto";
+import { createReadStream, mkdirSync } from "node:fs";
+import { cp, rename, rm, statfs } from "node:fs/promises";
 import path from "node:path";
 import { type DownloadItem, app } from "electron";
 import extName from "ext-name";
 import UnusedFilename from "unused-filename";
+import type { DownloadData } from "./DownloadData";
+import { ConfigValidationError, PathTraversalError, PolicyViolationError } from "./errors";
+import type {
+  AggregateProgress,
+  DownloadFilter,
+  DownloadIntegrityOptions,
+  DownloadPhase,
+  DownloadPolicy,
+  DownloadRetryOptions,
+  DownloadStagingOptions,
+  FileConflictStrategy,
+  RateEstimate,
+  SanitizeFilenameFn,
+} from "./types";
 
 export function truncateUrl(url: string) {
   if (url.length > 50) {
@@ -11,15 +27,80 @@ export function truncateUrl(url: string) {
   return url;
 }
 
-export function generateRandomId() {
-  const currentTime = new Date().getTime();
-  const randomNum = Math.floor(Math.random() * 1000);
-  const combinedValue = currentTime.toString() + randomNum.toString();
+/**
+ * Returns true if the path is inside of the directory. The directory itself is not inside of it.
+ */
+export function isPathInsideDirectory(filePath: string, directory: string) {
+  const relativePath = path.relative(directory, filePath);
 
-  const hash = crypto.createHash("sha256");
-  hash.update(combinedValue);
+  return !(
+    !relativePath ||
+    relativePath === ".." ||
+    relativePath.startsWith(`..${path.sep}`) ||
+    path.isAbsolute(relativePath)
+  );
+}
 
-  return hash.digest("hex").substring(0, 6);
+/**
+ * Returns the path to write a download to while it is being staged, creating the staging directory if needed.
+ * The id keeps downloads with the same filename apart, as the final file does not exist yet to make their names unique.
+ */
+export function getStagingFilePath(filePath: string, id: string, staging: true | DownloadStagingOptions) {
+  if (staging === true || !staging.directory) {
+    return `${filePath}.${id}.part`;
+  }
+
+  mkdirSync(staging.directory, { recursive: true });
+
+  return path.join(staging.directory, `${id}-${path.basename(filePath)}.part`);
+}
+
+/**
+ * Returns the number of bytes available to the app on the volume of the directory,
+ * or undefined if it can't be determined, such as when the directory does not exist
+ */
+export async function getFreeDiskSpace(directory: string): Promise<number | undefined> {
+  try {
+    const { bavail, bsize } = await statfs(directory);
+    return bavail * bsize;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Moves a file or directory. Falls back to copying it when renaming fails because the destination is on another drive.
+ */
+export async function movePath(source: string, destination: string) {
+  try {
+    await rename(source, destination);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== "EXDEV") {
+      throw e;
+    }
+
+    await cp(source, destination, { recursive: true });
+    await rm(source, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Normalizes a URL the way Chromium does, so a requested URL can be compared with the URL of its DownloadItem
+ */
+export function normalizeUrl(url: string) {
+  try {
+    return new URL(url).href;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Returns a random UUID. Downloads started in the same millisecond, such as when they are queued together,
+ * must not share an id, since it keys the downloads of the manager and their staging files.
+ */
+export function generateRandomId() {
+  return crypto.randomUUID();
 }
 
 // Copied from https://github.com/sindresorhus/electron-dl/blob/main/index.js#L10
@@ -33,69 +114,246 @@ export function getFilenameFromMime(name: string, mime: string) {
   return `${name}.${extensions[0].ext}`;
 }
 
+/**
+ * Returns the filename from the server, with an extension based on the MIME type if it has none
+ */
+function getItemFilename(item: DownloadItem) {
+  const filename = item.getFilename();
+  return path.extname(filename) ? filename : getFilenameFromMime(filename, item.getMimeType());
+}
+
+/**
+ * The maximum length of a filename in bytes on most file systems
+ */
+const MAX_FILENAME_BYTES = 255;
+
+/**
+ * Names that Windows reserves for devices, with or without an extension
+ */
+const WINDOWS_RESERVED_NAME = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])(\..*)?$/i;
+
+/**
+ * Makes a filename safe to save on any platform:
+ *
+ * - Removes control characters and the bidirectional characters that can disguise an extension
+ * - Replaces path separators and the characters that are not allowed on Windows with `_`
+ * - Removes leading and trailing whitespace, and trailing dots
+ * - Renames names that Windows reserves, such as `CON` or `lpt1.txt`, by prefixing them with `_`
+ * - Shortens names over 255 bytes, keeping the extension
+ *
+ * Returns `download` if nothing is left of the name.
+ */
+export function sanitizeFilename(filename: string) {
+  let name = filename
+    // biome-ignore lint/suspicious/noControlCharactersInRegex: Control characters are what is being removed
+    .replace(/[\u0000-\u001f\u007f-\u009f\u200e\u200f\u202a-\u202e\u2066-\u2069]/g, "")
+    .replace(/[/\\<>:"|?*]/g, "_")
+    .trim()
+    .replace(/[. ]+$/, "");
+
+  if (!name) {
+    return "download";
+  }
+
+  if (WINDOWS_RESERVED_NAME.test(name)) {
+    name = `_${name}`;
+  }
+
+  return truncateFilename(name);
+}
+
+/**
+ * Shortens a filename to MAX_FILENAME_BYTES, keeping the extension if it is not too long itself
+ */
+function truncateFilename(filename: string) {
+  if (Buffer.byteLength(filename) <= MAX_FILENAME_BYTES) {
+    return filename;
+  }
+
+  const ext = path.extname(filename);
+  const keptExt = Buffer.byteLength(ext) < MAX_FILENAME_BYTES / 2 ? ext : "";
+  // Split by code point so a multibyte character is not cut in half
+  const chars = Array.from(keptExt ? filename.slice(0, -ext.length) : filename);
+  let bytes = Buffer.byteLength(keptExt);
+  let length = 0;
+
+  while (length < chars.length && bytes + Buffer.byteLength(chars[length]) <= MAX_FILENAME_BYTES) {
+    bytes += Buffer.byteLength(chars[length]);
+    length++;
+  }
+
+  return chars.slice(0, length).join("") + keptExt;
+}
+
+/**
+ * Returns the conflict strategy to use when `conflictStrategy` is not defined.
+ * Previously, `overwrite` and `saveAsFilename` both replaced an existing file.
+ */
+export function resolveConflictStrategy({
+  conflictStrategy,
+  overwrite,
+  saveAsFilename,
+}: {
+  conflictStrategy?: FileConflictStrategy;
+  overwrite?: boolean;
+  saveAsFilename?: string;
+}): FileConflictStrategy {
+  if (conflictStrategy) {
+    return conflictStrategy;
+  }
+
+  return overwrite || saveAsFilename ? "overwrite" : "uniquify";
+}
+
+/**
+ * Replaces the placeholders in a filename template with the details of the download.
+ * Unknown placeholders are left as is.
+ */
+export function resolveFilenameTemplate(template: string, { item, id }: { item: DownloadItem; id: string }) {
+  const filename = getItemFilename(item);
+  const ext = path.extname(filename);
+  const date = new Date(item.getStartTime() * 1000 || Date.now());
+
+  return template.replace(/\{(\w+)(?::([^}]+))?\}/g, (placeholder, key: string, format?: string) => {
+    switch (key) {
+      case "name":
+        return path.basename(filename, ext);
+      case "ext":
+        return ext;
+      case "mimeExt": {
+        const extensions = extName.mime(item.getMimeType());
+        return extensions.length > 0 ? `.${extensions[0].ext}` : "";
+      }
+      case "id":
+        return id;
+      case "host":
+        try {
+          return new URL(item.getURL()).hostname;
+        } catch {
+          return "";
+        }
+      case "date":
+        return formatDate(date, format || "YYYY-MM-DD");
+      default:
+        return placeholder;
+    }
+  });
+}
+
+function formatDate(date: Date, format: string) {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  const parts: Record<string, string> = {
+    YYYY: date.getFullYear().toString(),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, (token) => parts[token]);
+}
+
 /**
  * Determines the initial file path for the download.
+ *
+ * The filename is sanitized unless `sanitizeFilename` is false, and the path is checked to be inside
+ * the directory, throwing a `PathTraversalError` if it isn't.
+ *
+ * With the `uniquify` conflict strategy, a number is added to the filename if the file already exists.
+ * The other strategies return the path as is, and are applied by the caller.
  */
 export function determineFilePath({
   directory,
   saveAsFilename,
+  filenameTemplate,
   item,
+  id = "",
   overwrite,
+  conflictStrategy,
+  sanitizeFilename: sanitize = true,
 }: {
   directory?: string;
   saveAsFilename?: string;
+  filenameTemplate?: string;
   item: DownloadItem;
+  id?: string;
   overwrite?: boolean;
+  conflictStrategy?: FileConflictStrategy;
+  sanitizeFilename?: boolean | SanitizeFilenameFn;
 }) {
   // Code adapted from https://github.com/sindresorhus/electron-dl/blob/main/index.js#L73
   if (directory && !path.isAbsolute(directory)) {
-    throw new Error("The `directory` option must be an absolute path");
+    throw new ConfigValidationError("The `directory` option must be an absolute path", {
+      option: "directory",
+      phase: "initialization",
+    });
   }
 
   directory = directory || app?.getPath("downloads");
 
-  let filePath: string;
+  let name: string;
 
   if (saveAsFilename) {
-    filePath = path.join(directory, saveAsFilename);
+    name = saveAsFilename;
+  } else if (filenameTemplate) {
+    name = resolveFilenameTemplate(filenameTemplate, { item, id });
   } else {
-    const filename = item.getFilename();
-    const name = path.extname(filename) ? filename : getFilenameFromMime(filename, item.getMimeType());
+    name = getItemFilename(item);
+  }
+
+  if (typeof sanitize === "function") {
+    name = sanitize(name);
+  } else if (sanitize) {
+    name = sanitizeFilename(name);
+  }
+
+  const filePath = path.join(directory, name);
 
-    filePath = overwrite ? path.join(directory, name) : UnusedFilename.sync(path.join(directory, name));
+  if (!isPathInsideDirectory(filePath, directory)) {
+    throw new PathTraversalError(filePath, directory);
   }
 
-  return filePath;
+  const strategy = resolveConflictStrategy({ conflictStrategy, overwrite, saveAsFilename });
+
+  return strategy === "uniquify" ? UnusedFilename.sync(filePath) : filePath;
 }
 
 /**
  * Calculates the download rate and estimated time remaining for a download.
- * @returns {object} An object containing the download rate in bytes per second and the estimated time remaining in seconds.
+ * The smoothed rate of the estimate is used if available, then the current rate reported by Electron,
+ * then the average rate since the download started.
+ * @returns {object} An object containing the download rates in bytes per second and the estimated time remaining in seconds.
  */
-export function calculateDownloadMetrics(item: DownloadItem): {
+export function calculateDownloadMetrics(
+  item: DownloadItem,
+  estimate?: RateEstimate,
+): {
   percentCompleted: number;
   downloadRateBytesPerSecond: number;
+  instantaneousDownloadRateBytesPerSecond: number;
   estimatedTimeRemainingSeconds: number;
+  isEstimateReliable: boolean;
 } {
   const downloadedBytes = item.getReceivedBytes();
   const totalBytes = item.getTotalBytes();
-  const startTimeSecs = item.getStartTime();
-
-  const currentTimeSecs = Math.floor(new Date().getTime() / 1000);
-  const elapsedTimeSecs = currentTimeSecs - startTimeSecs;
 
   // Avail in Electron 30.3.0+
-  let downloadRateBytesPerSecond = item.getCurrentBytesPerSecond ? item.getCurrentBytesPerSecond() : 0;
+  const currentBytesPerSecond = item.getCurrentBytesPerSecond ? item.getCurrentBytesPerSecond() : 0;
+  let downloadRateBytesPerSecond = estimate?.bytesPerSecond || currentBytesPerSecond;
   let estimatedTimeRemainingSeconds = 0;
 
-  if (elapsedTimeSecs > 0) {
-    if (!downloadRateBytesPerSecond) {
+  if (!downloadRateBytesPerSecond) {
+    // The start time is in seconds with a fractional part
+    const elapsedTimeSecs = new Date().getTime() / 1000 - item.getStartTime();
+
+    if (elapsedTimeSecs > 0) {
       downloadRateBytesPerSecond = downloadedBytes / elapsedTimeSecs;
     }
+  }
 
-    if (downloadRateBytesPerSecond > 0) {
-      estimatedTimeRemainingSeconds = (totalBytes - downloadedBytes) / downloadRateBytesPerSecond;
-    }
+  if (downloadRateBytesPerSecond > 0 && totalBytes > 0) {
+    estimatedTimeRemainingSeconds = Math.max(totalBytes - downloadedBytes, 0) / downloadRateBytesPerSecond;
   }
 
   let percentCompleted = 0;
@@ -111,6 +369,287 @@ export function calculateDownloadMetrics(item: DownloadItem): {
   return {
     percentCompleted,
     downloadRateBytesPerSecond,
+    instantaneousDownloadRateBytesPerSecond: currentBytesPerSecond || estimate?.instantaneousBytesPerSecond || 0,
     estimatedTimeRemainingSeconds,
+    isEstimateReliable: !!estimate?.reliable && estimate.bytesPerSecond > 0 && totalBytes > 0,
+  };
+}
+
+/**
+ * Combines the progress of the given downloads. Downloads that are queued or have
+ * finished are only counted towards `queuedCount`, or not at all.
+ */
+export function calculateAggregateProgress(downloads: DownloadData[]): AggregateProgress {
+  const progress: AggregateProgress = {
+    activeCount: 0,
+    pausedCount: 0,
+    queuedCount: 0,
+    totalBytes: 0,
+    receivedBytes: 0,
+    downloadRateBytesPerSecond: 0,
+    estimatedTimeRemainingSeconds: 0,
+    percentCompleted: 0,
+    hasUnknownSize: false,
+    hasInterrupted: false,
   };
+
+  for (const data of downloads) {
+    if (data.isDownloadQueued()) {
+      progress.queuedCount++;
+      continue;
+    }
+
+    if (!data.item.getState || ["completed", "cancelled", "failed"].includes(data.status)) {
+      continue;
+    }
+
+    const totalBytes = data.item.getTotalBytes();
+
+    progress.activeCount++;
+    progress.receivedBytes += data.item.getReceivedBytes();
+    progress.totalBytes += totalBytes;
+
+    if (!totalBytes) {
+      progress.hasUnknownSize = true;
+    }
+
+    if (data.status === "paused") {
+      progress.pausedCount++;
+    } else if (data.status === "interrupted" || data.status === "retrying") {
+      progress.hasInterrupted = true;
+    } else {
+      // The rate of a paused or interrupted download is the last rate it had before it stopped
+      progress.downloadRateBytesPerSecond += data.downloadRateBytesPerSecond;
+    }
+  }
+
+  if (progress.totalBytes > 0) {
+    progress.percentCompleted = Math.min(
+      Number.parseFloat(((progress.receivedBytes / progress.totalBytes) * 100).toFixed(2)),
+      100,
+    );
+  }
+
+  if (progress.downloadRateBytesPerSecond > 0 && !progress.hasUnknownSize) {
+    progress.estimatedTimeRemainingSeconds =
+      Math.max(progress.totalBytes - progress.receivedBytes, 0) / progress.downloadRateBytesPerSecond;
+  }
+
+  return progress;
+}
+
+/**
+ * Returns true if the download matches every property defined in the filter
+ */
+export function matchesDownloadFilter(data: DownloadData, filter: DownloadFilter = {}): boolean {
+  const { status, window, webContents, url, tag } = filter;
+
+  if (status !== undefined && !(Array.isArray(status) ? status.includes(data.status) : status === data.status)) {
+    return false;
+  }
+
+  if (window && data.webContents !== window.webContents) {
+    return false;
+  }
+
+  if (webContents && data.webContents !== webContents) {
+    return false;
+  }
+
+  if (url !== undefined && !(typeof url === "string" ? url === data.url : url.test(data.url))) {
+    return false;
+  }
+
+  return tag === undefined || data.tags.includes(tag);
+}
+
+/**
+ * Returns true if the URL matches a policy pattern. A string matches the host and its subdomains,
+ * and a regular expression is tested against the full URL.
+ */
+function matchesUrlPattern(url: string, pattern: string | RegExp) {
+  if (typeof pattern !== "string") {
+    return pattern.test(url);
+  }
+
+  let hostname: string;
+
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+
+  const host = pattern.toLowerCase();
+
+  return hostname === host || hostname.endsWith(`.${host}`);
+}
+
+/**
+ * Returns true if the MIME type matches a type such as `application/pdf` or `image/*`. Parameters such as the charset are ignored.
+ */
+function matchesMimeType(mimeType: string, allowedType: string) {
+  const type = mimeType.split(";")[0].trim().toLowerCase();
+  const allowed = allowedType.toLowerCase();
+
+  return allowed.endsWith("/*") ? type.startsWith(allowed.slice(0, -1)) : type === allowed;
+}
+
+/**
+ * Checks the details of a download against a policy. Only the details that are defined are checked.
+ * @param phase The phase of the download the check happens in, set on the error
+ * @returns {PolicyViolationError | undefined} The error for the first rule the download violates, or undefined if it is allowed
+ */
+export function checkDownloadPolicy(
+  policy: DownloadPolicy,
+  details: { urls?: string[]; mimeType?: string; filename?: string; totalBytes?: number },
+  phase: DownloadPhase = "initialization",
+): PolicyViolationError | undefined {
+  const { allowedUrls, blockedUrls, allowedMimeTypes, allowedExtensions, maxFileSizeBytes } = policy;
+  const { urls = [], mimeType, filename, totalBytes } = details;
+
+  for (const url of urls) {
+    const blockedPattern = blockedUrls?.find((pattern) => matchesUrlPattern(url, pattern));
+
+    if (blockedPattern !== undefined) {
+      return new PolicyViolationError({ rule: "blockedUrls", value: url, pattern: blockedPattern, phase });
+    }
+
+    if (allowedUrls && !allowedUrls.some((pattern) => matchesUrlPattern(url, pattern))) {
+      return new PolicyViolationError({ rule: "allowedUrls", value: url, phase });
+    }
+  }
+
+  if (mimeType !== undefined && allowedMimeTypes && !allowedMimeTypes.some((type) => matchesMimeType(mimeType, type))) {
+    return new PolicyViolationError({ rule: "allowedMimeTypes", value: mimeType, phase });
+  }
+
+  if (
+    filename !== undefined &&
+    allowedExtensions &&
+    !allowedExtensions.some((extension) =>
+      filename.toLowerCase().endsWith(`.${extension.replace(/^\./, "").toLowerCase()}`),
+    )
+  ) {
+    return new PolicyViolationError({ rule: "allowedExtensions", value: filename, phase });
+  }
+
+  if (totalBytes && maxFileSizeBytes !== undefined && totalBytes > maxFileSizeBytes) {
+    return new PolicyViolationError({ rule: "maxFileSizeBytes", value: totalBytes, phase });
+  }
+
+  return undefined;
+}
+
+/**
+ * Calculates the delay before a retry attempt using an exponential backoff with jitter.
+ * @param attempt The retry attempt, starting at 1
+ * @returns {number} The delay in milliseconds
+ */
+export function calculateRetryDelay(attempt: number, options: DownloadRetryOptions): number {
+  const { initialDelayMs = 1000, maxDelayMs = 30000, backoffFactor = 2, jitter = 0.2 } = options;
+
+  const delay = Math.min(initialDelayMs * backoffFactor ** (attempt - 1), maxDelayMs);
+  const variance = delay * Math.min(Math.max(jitter, 0), 1);
+
+  return Math.max(0, Math.round(delay - variance + Math.random() * variance * 2));
+}
+
+/**
+ * The Subresource Integrity algorithms, from weakest to strongest
+ */
+const SRI_ALGORITHMS = ["sha256", "sha384", "sha512"];
+
+/**
+ * The digests that can be compared against, by encoding
+ */
+const DIGEST_PATTERNS = {
+  hex: /^[0-9a-f]+$/,
+  base64: /^[A-Za-z0-9+/_-]+={0,2}$/,
+};
+
+/**
+ * Normalizes the integrity option into the algorithm and accepted digests to compare against.
+ * For Subresource Integrity strings with multiple hashes, the strongest algorithm is used.
+ * Throws a `ConfigValidationError` if the algorithm is not supported or a digest is malformed.
+ */
+export function parseIntegrity(
+  integrity: string | DownloadIntegrityOptions,
+  phase: DownloadPhase = "verification",
+): {
+  algorithm: string;
+  digests: string[];
+  encoding: "hex" | "base64";
+} {
+  const options = typeof integrity === "string" ? { digest: integrity } : integrity;
+
+  if (typeof options.digest !== "string") {
+    throw new ConfigValidationError("The integrity digest must be a string", { option: "integrity", phase });
+  }
+
+  if (options.algorithm) {
+    const algorithm = options.algorithm.toLowerCase();
+    const encoding = options.encoding || "hex";
+    const digest = encoding === "hex" ? options.digest.trim().toLowerCase() : options.digest.trim();
+
+    if (!crypto.getHashes().includes(algorithm)) {
+      throw new ConfigValidationError(`Unsupported integrity algorithm: ${options.algorithm}`, {
+        option: "integrity",
+        phase,
+      });
+    }
+
+    if (!DIGEST_PATTERNS[encoding]?.test(digest)) {
+      throw new ConfigValidationError(`Malformed ${encoding} integrity digest: ${options.digest}`, {
+        option: "integrity",
+        phase,
+      });
+    }
+
+    return { algorithm, digests: [digest], encoding };
+  }
+
+  const hashes = options.digest
+    .trim()
+    .split(/\s+/)
+    .map((hash) => {
+      const separator = hash.indexOf("-");
+      // Strip any options, such as sha256-<digest>?<options>
+      const digest = hash.slice(separator + 1).split("?")[0];
+      return { algorithm: hash.slice(0, separator).toLowerCase(), digest };
+    })
+    .filter(({ algorithm, digest }) => SRI_ALGORITHMS.includes(algorithm) && DIGEST_PATTERNS.base64.test(digest));
+
+  if (hashes.length === 0) {
+    throw new ConfigValidationError(`Unsupported integrity value: ${options.digest}`, {
+      option: "integrity",
+      phase,
+    });
+  }
+
+  const algorithm = hashes.reduce(
+    (strongest, { algorithm }) =>
+      SRI_ALGORITHMS.indexOf(algorithm) > SRI_ALGORITHMS.indexOf(strongest) ? algorithm : strongest,
+    hashes[0].algorithm,
+  );
+
+  return {
+    algorithm,
+    digests: hashes.filter((hash) => hash.algorithm === algorithm).map(({ digest }) => digest),
+    encoding: "base64",
+  };
+}
+
+/**
+ * Hashes a file by streaming its contents
+ */
+export function hashFile(filePath: string, algorithm: string, encoding: "hex" | "base64"): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash(algorithm);
+    const stream = createReadStream(filePath);
+
+    stream.on("error", reject);
+    stream.on("data", (chunk) => hash.update(chunk));
+    stream.on("end", () => resolve(hash.digest(encoding)));
+  });
 }
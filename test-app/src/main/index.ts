@@ -2,7 +2,9 @@ import { app, shell, BrowserWindow, ipcMain } from 'electron'
 import { join } from 'node:path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import icon from '../../resources/icon.png?asset'
-import { ElectronDownloadManager } from 'electron-dl-manager';
+import { ElectronDownloadManager, registerIpcHandlers } from 'electron-dl-manager';
+
+const manager = new ElectronDownloadManager();
 
 function createWindow(): void {
   // Create the browser window.
@@ -21,8 +23,6 @@ function createWindow(): void {
   mainWindow.on('ready-to-show', async () => {
     mainWindow.show()
 
-    const manager = new ElectronDownloadManager();
-
     // Start a download
     const id = await manager.download({
       window: mainWindow,
@@ -70,6 +70,12 @@ app.whenReady().then(() => {
   // IPC test
   ipcMain.on('ping', () => console.log('pong'))
 
+  // Lets the renderer start and watch downloads through window.downloadManager
+  registerIpcHandlers(manager, {
+    operations: ['download', 'cancelDownload', 'subscribe'],
+    validateDownload: (params) => params.url.startsWith('https://')
+  })
+
   createWindow()
 
   app.on('activate', () => {
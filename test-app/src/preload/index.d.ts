@@ -1,8 +1,10 @@
 import { ElectronAPI } from '@electron-toolkit/preload'
+import { DownloadManagerRendererApi } from 'electron-dl-manager'
 
 declare global {
   interface Window {
     electron: ElectronAPI
     api: unknown
+    downloadManager: DownloadManagerRendererApi
   }
 }
@@ -1,9 +1,14 @@
 import { contextBridge } from 'electron'
 import { electronAPI } from '@electron-toolkit/preload'
+import { exposeDownloadManager } from 'electron-dl-manager'
 
 // Custom APIs for renderer
 const api = {}
 
+// Exposes window.downloadManager. The operations must match the ones
+// passed to registerIpcHandlers() in the main process.
+exposeDownloadManager({ operations: ['download', 'cancelDownload', 'subscribe'] })
+
 // Use `contextBridge` APIs to expose Electron APIs to
 // renderer only if context isolation is enabled, otherwise
 // just add to the DOM global.
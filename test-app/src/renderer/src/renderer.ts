@@ -14,6 +14,18 @@ function doAThing(): void {
   ipcHandlerBtn?.addEventListener('click', () => {
     window.electron.ipcRenderer.send('ping')
   })
+
+  window.downloadManager.subscribe?.((event) => {
+    if (event.data) {
+      const { filename, status, percentCompleted } = event.data
+      replaceText('.download-status', `${filename}: ${status} (${percentCompleted}%)`)
+    }
+  })
+
+  const downloadBtn = document.getElementById('download')
+  downloadBtn?.addEventListener('click', () => {
+    window.downloadManager.download?.({ url: 'https://www.electronjs.org/assets/img/logo.svg' })
+  })
 }
 
 function replaceText(selector: string, text: string): void {
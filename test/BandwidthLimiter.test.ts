@@ -0,0 +1,135 @@
+import { BandwidthLimiter } from "../src";
+import { createMockDownloadData } from "../src/__mocks__/DownloadData";
+
+jest.useFakeTimers();
+
+function createDownload(maxBytesPerSecond?: number) {
+  const { downloadData, item } = createMockDownloadData();
+  let receivedBytes = 0;
+  let paused = false;
+
+  downloadData.status = "progressing";
+  item.getReceivedBytes.mockImplementation(() => receivedBytes);
+  item.isPaused.mockImplementation(() => paused);
+
+  return {
+    data: downloadData,
+    pause: jest.fn(() => {
+      paused = true;
+    }),
+    resume: jest.fn(() => {
+      paused = false;
+    }),
+    maxBytesPerSecond,
+    receive(bytes: number) {
+      receivedBytes += bytes;
+    },
+  };
+}
+
+describe("BandwidthLimiter", () => {
+  beforeEach(() => {
+    jest.clearAllTimers();
+  });
+
+  it("should pause a download that exceeds its limit and resume it once it has tokens again", () => {
+    const limiter = new BandwidthLimiter({ tickIntervalMs: 100 });
+    const download = createDownload(1000);
+
+    limiter.add(download);
+
+    // Receives 500 bytes in 100ms, 5x the limit
+    download.receive(500);
+    jest.advanceTimersByTime(100);
+
+    expect(download.pause).toHaveBeenCalledTimes(1);
+    expect(limiter.isThrottled(download.data.id)).toBe(true);
+
+    // Still paused while paying back the debt of 400 bytes
+    jest.advanceTimersByTime(300);
+    expect(download.resume).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(100);
+    expect(download.resume).toHaveBeenCalledTimes(1);
+    expect(limiter.isThrottled(download.data.id)).toBe(false);
+  });
+
+  it("should not pause a download that stays within its limit", () => {
+    const limiter = new BandwidthLimiter({ tickIntervalMs: 100 });
+    const download = createDownload(1000);
+
+    limiter.add(download);
+
+    for (let i = 0; i < 10; i++) {
+      download.receive(100);
+      jest.advanceTimersByTime(100);
+    }
+
+    expect(download.pause).not.toHaveBeenCalled();
+  });
+
+  it("should limit the combined rate of all downloads", () => {
+    const limiter = new BandwidthLimiter({ maxBytesPerSecond: 1000, tickIntervalMs: 100 });
+    const download1 = createDownload();
+    const download2 = createDownload();
+
+    limiter.add(download1);
+    limiter.add(download2);
+
+    download1.receive(100);
+    download2.receive(100);
+    jest.advanceTimersByTime(100);
+
+    expect(download1.pause).toHaveBeenCalled();
+    expect(download2.pause).toHaveBeenCalled();
+  });
+
+  it("should not resume a download that was paused by the user", () => {
+    const limiter = new BandwidthLimiter({ tickIntervalMs: 100 });
+    const download = createDownload(1000);
+
+    limiter.add(download);
+
+    download.receive(500);
+    jest.advanceTimersByTime(100);
+    download.data.status = "paused";
+    jest.advanceTimersByTime(1000);
+
+    expect(download.resume).not.toHaveBeenCalled();
+  });
+
+  it("should resume throttled downloads when the limit is removed", () => {
+    const limiter = new BandwidthLimiter({ maxBytesPerSecond: 1000, tickIntervalMs: 100 });
+    const download = createDownload();
+
+    limiter.add(download);
+
+    download.receive(500);
+    jest.advanceTimersByTime(100);
+    expect(download.pause).toHaveBeenCalled();
+
+    limiter.setMaxBytesPerSecond(undefined);
+
+    expect(download.resume).toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it("should change the limit of a download at runtime", () => {
+    const limiter = new BandwidthLimiter({ tickIntervalMs: 100 });
+    const download = createDownload();
+
+    limiter.add(download);
+    expect(jest.getTimerCount()).toBe(0);
+
+    expect(limiter.setDownloadMaxBytesPerSecond(download.data.id, 1000)).toBe(true);
+    expect(limiter.setDownloadMaxBytesPerSecond("unknown", 1000)).toBe(false);
+
+    download.receive(500);
+    jest.advanceTimersByTime(100);
+
+    expect(download.pause).toHaveBeenCalled();
+
+    limiter.remove(download.data.id);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
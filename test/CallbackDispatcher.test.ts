@@ -0,0 +1,248 @@
+import { CallbackDispatcher, CallbackError, DownloadData } from "../src";
+
+jest.mock("electron");
+
+describe("CallbackDispatcher", () => {
+  let downloadData: DownloadData;
+
+  beforeEach(() => {
+    downloadData = new DownloadData();
+  });
+
+  it("should call the callback before dispatching the event", async () => {
+    const calls: string[] = [];
+
+    const dispatcher = new CallbackDispatcher(
+      downloadData.id,
+      {
+        onDownloadCompleted: () => {
+          calls.push("callback");
+        },
+      },
+      jest.fn(),
+      (event) => {
+        calls.push(event);
+      },
+    );
+
+    await dispatcher.onDownloadCompleted(downloadData);
+
+    expect(calls).toEqual(["callback", "completed"]);
+  });
+
+  it("should dispatch the event even if no callback has been defined", async () => {
+    const dispatchEvent = jest.fn();
+    const dispatcher = new CallbackDispatcher(downloadData.id, {}, jest.fn(), dispatchEvent);
+
+    await dispatcher.onDownloadStarted(downloadData);
+    await dispatcher.onDownloadProgress(downloadData);
+    await dispatcher.onDownloadCancelled(downloadData);
+    await dispatcher.onDownloadSkipped(downloadData);
+    await dispatcher.onDownloadInterrupted(downloadData);
+    await dispatcher.onDownloadRetrying(downloadData);
+    await dispatcher.onPostProcessingProgress(downloadData);
+    await dispatcher.onLowDiskSpace(downloadData, 500);
+
+    expect(dispatchEvent.mock.calls).toEqual([
+      ["started", downloadData],
+      ["progress", downloadData],
+      ["cancelled", downloadData],
+      ["skipped", downloadData],
+      ["interrupted", downloadData],
+      ["retrying", downloadData],
+      ["postProcessingProgress", downloadData],
+      ["lowDiskSpace", downloadData, 500],
+    ]);
+  });
+
+  it("should call onError and dispatch an error event when a callback throws", async () => {
+    const error = new Error("callback failed");
+    const onError = jest.fn();
+    const dispatchEvent = jest.fn();
+
+    const dispatcher = new CallbackDispatcher(
+      downloadData.id,
+      {
+        onDownloadStarted: () => {
+          throw error;
+        },
+        onError,
+      },
+      jest.fn(),
+      dispatchEvent,
+    );
+
+    await dispatcher.onDownloadStarted(downloadData);
+
+    const callbackError = onError.mock.calls[0][0];
+
+    expect(callbackError).toBeInstanceOf(CallbackError);
+    expect(callbackError).toMatchObject({
+      code: "CALLBACK_FAILED",
+      phase: "initialization",
+      callback: "onDownloadStarted",
+      listener: false,
+      downloadId: downloadData.id,
+      cause: error,
+    });
+    expect(onError).toHaveBeenCalledWith(callbackError, downloadData);
+    expect(dispatchEvent).toHaveBeenCalledWith("error", callbackError, downloadData);
+    expect(dispatchEvent).toHaveBeenCalledWith("started", downloadData);
+    expect(downloadData.error).toBe(callbackError);
+  });
+
+  it("should call onError when a listener throws", async () => {
+    const error = new Error("listener failed");
+    const onError = jest.fn();
+
+    const dispatcher = new CallbackDispatcher(downloadData.id, { onError }, jest.fn(), (event) => {
+      if (event === "progress") {
+        throw error;
+      }
+    });
+
+    downloadData.status = "progressing";
+    await dispatcher.onDownloadProgress(downloadData);
+
+    expect(onError).toHaveBeenCalledWith(expect.any(CallbackError), downloadData);
+    expect(onError.mock.calls[0][0]).toMatchObject({
+      phase: "transfer",
+      callback: "progress",
+      listener: true,
+      cause: error,
+    });
+  });
+
+  it("should log structured entries for callback errors", async () => {
+    const logger = { log: jest.fn() };
+    const dispatcher = new CallbackDispatcher(
+      downloadData.id,
+      {
+        onDownloadCompleted: () => {
+          throw new Error("callback failed");
+        },
+      },
+      logger,
+    );
+
+    await dispatcher.onDownloadCompleted(downloadData);
+
+    expect(logger.log).toHaveBeenCalledWith({
+      level: "debug",
+      message: "Calling onDownloadCompleted",
+      downloadId: downloadData.id,
+      event: "callback",
+      fields: { callback: "onDownloadCompleted" },
+    });
+    expect(logger.log).toHaveBeenCalledWith({
+      level: "error",
+      message: "Error during onDownloadCompleted: Error: callback failed",
+      downloadId: downloadData.id,
+      event: "callback-error",
+      fields: { callback: "onDownloadCompleted" },
+    });
+  });
+
+  describe("progressThrottle", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should only report progress once every minimum has been reached", async () => {
+      const onDownloadProgress = jest.fn();
+      const dispatchEvent = jest.fn();
+      downloadData.item = { getTotalBytes: jest.fn().mockReturnValue(1000) } as any;
+      const dispatcher = new CallbackDispatcher(downloadData.id, { onDownloadProgress }, jest.fn(), dispatchEvent, {
+        minIntervalMs: 1000,
+        minPercentDelta: 5,
+      });
+
+      await dispatcher.onDownloadProgress(downloadData);
+
+      downloadData.percentCompleted = 10;
+      await dispatcher.onDownloadProgress(downloadData);
+
+      jest.advanceTimersByTime(1000);
+      downloadData.percentCompleted = 12;
+      await dispatcher.onDownloadProgress(downloadData);
+
+      downloadData.percentCompleted = 15;
+      await dispatcher.onDownloadProgress(downloadData);
+
+      expect(onDownloadProgress).toHaveBeenCalledTimes(2);
+      expect(dispatchEvent).toHaveBeenCalledTimes(2);
+      expect(dispatchEvent).toHaveBeenLastCalledWith("progress", downloadData);
+    });
+
+    it("should check the bytes received since the last reported progress", async () => {
+      const onDownloadProgress = jest.fn();
+      const getReceivedBytes = jest.fn().mockReturnValue(0);
+      downloadData.item = { getReceivedBytes } as any;
+      const dispatcher = new CallbackDispatcher(downloadData.id, { onDownloadProgress }, jest.fn(), undefined, {
+        minBytesDelta: 100,
+      });
+
+      await dispatcher.onDownloadProgress(downloadData);
+
+      getReceivedBytes.mockReturnValue(99);
+      await dispatcher.onDownloadProgress(downloadData);
+
+      getReceivedBytes.mockReturnValue(100);
+      await dispatcher.onDownloadProgress(downloadData);
+
+      expect(onDownloadProgress).toHaveBeenCalledTimes(2);
+    });
+
+    it("should ignore the percent change when the size is unknown", async () => {
+      const onDownloadProgress = jest.fn();
+      downloadData.item = { getTotalBytes: jest.fn().mockReturnValue(0) } as any;
+      const dispatcher = new CallbackDispatcher(downloadData.id, { onDownloadProgress }, jest.fn(), undefined, {
+        minIntervalMs: 1000,
+        minPercentDelta: 5,
+      });
+
+      await dispatcher.onDownloadProgress(downloadData);
+
+      jest.advanceTimersByTime(999);
+      await dispatcher.onDownloadProgress(downloadData);
+
+      jest.advanceTimersByTime(1);
+      await dispatcher.onDownloadProgress(downloadData);
+
+      expect(downloadData.percentCompleted).toBe(0);
+      expect(onDownloadProgress).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report the last dropped progress when flushed", async () => {
+      const onDownloadProgress = jest.fn();
+      const dispatcher = new CallbackDispatcher(downloadData.id, { onDownloadProgress }, jest.fn(), undefined, {
+        minIntervalMs: 1000,
+      });
+
+      await dispatcher.onDownloadProgress(downloadData);
+      await dispatcher.flushProgress(downloadData);
+      expect(onDownloadProgress).toHaveBeenCalledTimes(1);
+
+      await dispatcher.onDownloadProgress(downloadData);
+      await dispatcher.flushProgress(downloadData);
+      expect(onDownloadProgress).toHaveBeenCalledTimes(2);
+
+      await dispatcher.flushProgress(downloadData);
+      expect(onDownloadProgress).toHaveBeenCalledTimes(2);
+    });
+
+    it("should report every progress update without a throttle", async () => {
+      const onDownloadProgress = jest.fn();
+      const dispatcher = new CallbackDispatcher(downloadData.id, { onDownloadProgress }, jest.fn());
+
+      await dispatcher.onDownloadProgress(downloadData);
+      await dispatcher.onDownloadProgress(downloadData);
+
+      expect(onDownloadProgress).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { DownloadBatch, type DownloadResult } from "../src";
+import { createMockDownloadData } from "../src/__mocks__/DownloadData";
+
+function createResult(outcome: DownloadResult["outcome"], bytes = 100): DownloadResult {
+  const { downloadData } = createMockDownloadData();
+
+  return {
+    id: downloadData.id,
+    outcome,
+    savePath: "/path/to/save",
+    receivedBytes: outcome === "completed" ? bytes : 0,
+    totalBytes: bytes,
+    durationMs: 10,
+    downloadData,
+  };
+}
+
+describe("DownloadBatch", () => {
+  const configs = [{ url: "https://example.com/a.txt" }, { url: "https://example.com/b.txt" }] as any[];
+
+  it("should combine the progress of all files", async () => {
+    const onBatchProgress = jest.fn();
+    const batch = new DownloadBatch(configs, { callbacks: { onBatchProgress } });
+    const { downloadData, item } = createMockDownloadData();
+
+    item.getReceivedBytes.mockReturnValue(50);
+    item.getTotalBytes.mockReturnValue(200);
+
+    await batch.updateProgress(0, downloadData);
+
+    expect(onBatchProgress).toHaveBeenCalledWith(
+      expect.objectContaining({
+        batchId: batch.id,
+        totalFiles: 2,
+        finishedFiles: 0,
+        receivedBytes: 50,
+        totalBytes: 200,
+        percentCompleted: 25,
+      }),
+    );
+  });
+
+  it("should call onFileFinished for each file and onBatchCompleted once all files have ended", async () => {
+    const onFileFinished = jest.fn();
+    const onBatchCompleted = jest.fn();
+    const batch = new DownloadBatch(configs, { callbacks: { onFileFinished, onBatchCompleted } });
+
+    await batch.finishFile(0, { id: "a", outcome: "completed", result: createResult("completed") });
+
+    expect(onFileFinished).toHaveBeenCalledWith(
+      expect.objectContaining({ index: 0, url: configs[0].url, outcome: "completed" }),
+      expect.objectContaining({ finishedFiles: 1, completedFiles: 1 }),
+    );
+    expect(onBatchCompleted).not.toHaveBeenCalled();
+    expect(batch.isFinished()).toBe(false);
+
+    await batch.finishFile(1, { id: "b", outcome: "completed", result: createResult("completed") });
+
+    expect(batch.isFinished()).toBe(true);
+    expect(onBatchCompleted).toHaveBeenCalledWith(
+      expect.objectContaining({ batchId: batch.id, outcome: "completed", files: expect.any(Array) }),
+    );
+  });
+
+  it("should ignore a second result for the same file", async () => {
+    const onFileFinished = jest.fn();
+    const batch = new DownloadBatch(configs, { callbacks: { onFileFinished } });
+
+    await batch.finishFile(0, { outcome: "completed", result: createResult("completed") });
+    await batch.finishFile(0, { outcome: "cancelled" });
+
+    expect(onFileFinished).toHaveBeenCalledTimes(1);
+  });
+
+  it("should only return the ids of downloads that have not ended", async () => {
+    const batch = new DownloadBatch(configs);
+
+    batch.setDownloadId(0, "a");
+    batch.setDownloadId(1, "b");
+    await batch.finishFile(0, { id: "a", outcome: "completed", result: createResult("completed") });
+
+    expect(batch.getDownloadIds()).toEqual(["b"]);
+  });
+
+  describe("outcome", () => {
+    it("should be failed if a file failed to start or was interrupted", async () => {
+      const batch = new DownloadBatch(configs);
+
+      await batch.finishFile(0, { outcome: "failed", error: new Error("failed") });
+      await batch.finishFile(1, { outcome: "completed", result: createResult("completed") });
+
+      expect(batch.getResult().outcome).toBe("failed");
+    });
+
+    it("should be cancelled if a file was cancelled", async () => {
+      const batch = new DownloadBatch(configs);
+
+      await batch.finishFile(0, { outcome: "cancelled", result: createResult("cancelled") });
+      await batch.finishFile(1, { outcome: "completed", result: createResult("completed") });
+
+      expect(batch.getResult().outcome).toBe("cancelled");
+    });
+
+    it("should be cancelled if the batch was cancelled", async () => {
+      const batch = new DownloadBatch(configs);
+
+      batch.cancelled = true;
+      await batch.finishFile(0, { outcome: "interrupted", result: createResult("interrupted") });
+      await batch.finishFile(1, { outcome: "cancelled", result: createResult("cancelled") });
+
+      expect(batch.getResult().outcome).toBe("cancelled");
+    });
+  });
+
+  describe("failure policy", () => {
+    it("should not cancel the remaining files by default", async () => {
+      const batch = new DownloadBatch(configs);
+
+      await batch.finishFile(0, { outcome: "interrupted", result: createResult("interrupted") });
+
+      expect(batch.shouldCancelOnFailure()).toBe(false);
+    });
+
+    it("should cancel the remaining files when the policy is cancel", async () => {
+      const batch = new DownloadBatch(configs, { failurePolicy: "cancel" });
+
+      await batch.finishFile(0, { outcome: "interrupted", result: createResult("interrupted") });
+
+      expect(batch.shouldCancelOnFailure()).toBe(true);
+    });
+  });
+});
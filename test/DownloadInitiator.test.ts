@@ -1,13 +1,42 @@
-import { DownloadInitiator, getFilenameFromMime } from "../src";
+import {
+  CallbackDispatcher,
+  ChecksumMismatchError,
+  DownloadInitiator,
+  DownloadInterruptedError,
+  FileExistsError,
+  InsufficientDiskSpaceError,
+  PathResolutionError,
+  PathTraversalError,
+  PolicyViolationError,
+  PostProcessingError,
+  SaveDialogError,
+  StagingError,
+  getFilenameFromMime,
+} from "../src";
 import { createMockDownloadData } from "../src/__mocks__/DownloadData";
-import { determineFilePath } from "../src/utils";
+import {
+  checkDownloadPolicy,
+  determineFilePath,
+  getFreeDiskSpace,
+  getStagingFilePath,
+  hashFile,
+  movePath,
+  parseIntegrity,
+  resolveConflictStrategy,
+} from "../src/utils";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import os from "node:os";
 import path from "node:path";
+import { BrowserWindow, dialog } from "electron";
 import UnusedFilename from "unused-filename";
 
 jest.mock("../src/utils");
 jest.mock("../src/CallbackDispatcher");
 jest.mock("unused-filename");
-jest.mock("electron");
+jest.mock("electron", () => ({
+  dialog: { showSaveDialog: jest.fn() },
+  BrowserWindow: { fromWebContents: jest.fn() },
+}));
 jest.useFakeTimers();
 
 describe("DownloadInitiator", () => {
@@ -64,32 +93,238 @@ describe("DownloadInitiator", () => {
   });
 
   describe("initSaveAsInteractiveDownload", () => {
-    it("handle if the download was cancelled by the user", async () => {
+    beforeEach(() => {
+      getStagingFilePath.mockImplementation((filePath, id) => `${filePath}.${id}.part`);
+    });
+
+    afterEach(() => {
+      getStagingFilePath.mockReset();
+    });
+
+    it("should show the save dialog with the suggested path", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      dialog.showSaveDialog.mockResolvedValueOnce({ canceled: false, filePath: "/chosen/path/file.txt" });
+
+      await downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: { title: "Save File" },
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(dialog.showSaveDialog).toHaveBeenCalledWith({ title: "Save File", defaultPath: "/some/path/test.txt" });
+      expect(mockDownloadData.finalSavePath).toBe("/chosen/path/file.txt");
+      expect(mockDownloadData.resolvedFilename).toBe("file.txt");
+    });
+
+    it("should save to the staging file of the suggested path before the dialog is shown", () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      dialog.showSaveDialog.mockReturnValueOnce(new Promise(() => {}));
+
+      // Electron only uses the save path if it is set before the will-download handler returns
+      downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: {},
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(getStagingFilePath).toHaveBeenCalledWith("/some/path/test.txt", mockDownloadData.id, true);
+      expect(mockItem.setSavePath).toHaveBeenCalledWith(`/some/path/test.txt.${mockDownloadData.id}.part`);
+      expect(mockDownloadData.finalSavePath).toBe("/some/path/test.txt");
+      expect(dialog.showSaveDialog).toHaveBeenCalled();
+    });
+
+    it("should move the file to the chosen path once it has completed", async () => {
       const downloadInitiator = new DownloadInitiator({});
       downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      const stagingPath = `/some/path/test.txt.${mockDownloadData.id}.part`;
 
-      mockItem.getSavePath.mockReturnValueOnce("");
-      mockDownloadData.isDownloadCancelled.mockReturnValueOnce(true);
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      dialog.showSaveDialog.mockResolvedValueOnce({ canceled: false, filePath: "/chosen/path/file.txt" });
 
       await downloadInitiator.generateOnWillDownload({
         saveDialogOptions: {},
         callbacks,
       })(mockEvent, mockItem, mockWebContents);
 
-      await jest.runAllTimersAsync();
+      mockItem.getSavePath.mockReturnValue(stagingPath);
+      await downloadInitiator.generateItemOnDone()({}, "completed");
+
+      expect(movePath).toHaveBeenCalledWith(stagingPath, "/chosen/path/file.txt");
+      expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).toHaveBeenCalled();
+    });
+
+    it("should show the save dialog on the window of the download", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      const window = {};
+
+      BrowserWindow.fromWebContents.mockReturnValueOnce(window);
+      dialog.showSaveDialog.mockResolvedValueOnce({ canceled: false, filePath: "/chosen/path/file.txt" });
+
+      await downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: {},
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(BrowserWindow.fromWebContents).toHaveBeenCalledWith(mockWebContents);
+      expect(dialog.showSaveDialog).toHaveBeenCalledWith(window, expect.any(Object));
+    });
+
+    it("should cancel the download if the dialog was dismissed", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      dialog.showSaveDialog.mockResolvedValueOnce({ canceled: true, filePath: "" });
+
+      await downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: {},
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(mockItem.cancel).toHaveBeenCalled();
+      expect(mockItem.resume).not.toHaveBeenCalled();
+      expect(downloadInitiator.callbackDispatcher.onDownloadCancelled).toHaveBeenCalled();
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+      expect(mockDownloadData.cancelledFromSaveAsDialog).toBe(true);
+      expect(mockDownloadData.cancellationReason).toBe("save-dialog-dismissed");
+      expect(mockDownloadData.status).toBe("cancelled");
+    });
+
+    it("should handle if the download was cancelled while the dialog was open", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      dialog.showSaveDialog.mockResolvedValueOnce({ canceled: false, filePath: "/chosen/path/file.txt" });
+      mockDownloadData.isDownloadCancelled.mockReturnValue(true);
+
+      await downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: {},
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
 
+      expect(mockDownloadData.status).toBe("cancelled");
       expect(downloadInitiator.callbackDispatcher.onDownloadCancelled).toHaveBeenCalled();
       expect(mockDownloadData.cancelledFromSaveAsDialog).toBe(true);
+      expect(mockDownloadData.cancellationReason).toBe("requested");
+    });
+
+    it("should cancel the download if the dialog timed out", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      dialog.showSaveDialog.mockReturnValueOnce(new Promise(() => {}));
+
+      const result = downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: {},
+        saveDialogTimeoutMs: 5000,
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      await jest.advanceTimersByTimeAsync(5000);
+      await result;
+
+      expect(mockItem.cancel).toHaveBeenCalled();
+      expect(downloadInitiator.callbackDispatcher.onDownloadCancelled).toHaveBeenCalled();
+      expect(mockDownloadData.cancellationReason).toBe("save-dialog-timeout");
+    });
+
+    it("should ignore the location chosen after the dialog timed out", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      let resolveDialog: (result: { canceled: boolean; filePath: string }) => void = () => {};
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      dialog.showSaveDialog.mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveDialog = resolve;
+        }),
+      );
+
+      const result = downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: {},
+        saveDialogTimeoutMs: 5000,
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      await jest.advanceTimersByTimeAsync(5000);
+      await result;
+
+      resolveDialog({ canceled: false, filePath: "/chosen/path/file.txt" });
+      await jest.runAllTimersAsync();
+
+      expect(mockDownloadData.finalSavePath).toBe("/some/path/test.txt");
+      expect(mockDownloadData.status).toBe("cancelled");
+      expect(downloadInitiator.callbackDispatcher.onDownloadStarted).not.toHaveBeenCalled();
+    });
+
+    it("should fail the download with a SaveDialogError if the dialog fails", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      const cause = new Error("dialog failed");
+
+      dialog.showSaveDialog.mockRejectedValueOnce(cause);
+
+      await downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: {},
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      const error = downloadInitiator.callbackDispatcher.handleError.mock.calls[0][0];
+
+      expect(mockItem.cancel).toHaveBeenCalled();
+      expect(mockDownloadData.status).toBe("failed");
+      expect(error).toBeInstanceOf(SaveDialogError);
+      expect(error).toMatchObject({ code: "SAVE_DIALOG_FAILED", phase: "save-dialog", cause });
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+    });
+
+    it("should reject the download without showing the dialog if the staging path can't be set", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      mockEvent.preventDefault = jest.fn();
+      const cause = new Error("EACCES");
+
+      mockItem.setSavePath.mockImplementationOnce(() => {
+        throw cause;
+      });
+
+      await downloadInitiator.generateOnWillDownload({
+        saveDialogOptions: {},
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      const error = downloadInitiator.callbackDispatcher.handleError.mock.calls[0][0];
+
+      expect(mockEvent.preventDefault).toHaveBeenCalled();
+      expect(dialog.showSaveDialog).not.toHaveBeenCalled();
+      expect(mockDownloadData.status).toBe("failed");
+      expect(error).toBeInstanceOf(PathResolutionError);
+      expect(error).toMatchObject({ code: "PATH_RESOLUTION_FAILED", cause });
+      expect(downloadInitiator.callbackDispatcher.onDownloadStarted).not.toHaveBeenCalled();
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
     });
 
     describe("user initiated pause", () => {
-      it("should not resume the download if the user paused it before init", async () => {
+      it("should not resume the download if the user paused it while the dialog was open", async () => {
         const downloadInitiator = new DownloadInitiator({});
         downloadInitiator.downloadData = mockDownloadData;
+        const { resume } = mockItem;
 
-        mockItem["_userInitiatedPause"] = true;
-        mockItem.getSavePath.mockReturnValueOnce("");
-        mockDownloadData.isDownloadCancelled.mockReturnValueOnce(true);
+        dialog.showSaveDialog.mockImplementationOnce(async () => {
+          mockItem.pause();
+          return { canceled: false, filePath: "/chosen/path/file.txt" };
+        });
 
         await downloadInitiator.generateOnWillDownload({
           saveDialogOptions: {},
@@ -98,19 +333,20 @@ describe("DownloadInitiator", () => {
 
         await jest.runAllTimersAsync();
 
-        expect(mockItem.resume).not.toHaveBeenCalled();
+        expect(resume).not.toHaveBeenCalled();
+        expect(mockDownloadData.status).toBe("paused");
       });
 
-      it("should resume the download if the user *did not* pause before init", async () => {
+      it("should resume the download if the user resumed it after pausing it while the dialog was open", async () => {
         const downloadInitiator = new DownloadInitiator({});
         downloadInitiator.downloadData = mockDownloadData;
+        const { resume } = mockItem;
 
-        determineFilePath.mockReturnValueOnce("/some/path");
-
-        mockItem["_userInitiatedPause"] = false;
-        mockItem.getSavePath.mockReturnValueOnce("/some/path");
-
-        const resumeSpy = jest.spyOn(mockItem, "resume");
+        dialog.showSaveDialog.mockImplementationOnce(async () => {
+          mockItem.pause();
+          mockItem.resume();
+          return { canceled: false, filePath: "/chosen/path/file.txt" };
+        });
 
         await downloadInitiator.generateOnWillDownload({
           saveDialogOptions: {},
@@ -119,32 +355,36 @@ describe("DownloadInitiator", () => {
 
         await jest.runAllTimersAsync();
 
-        expect(resumeSpy).toHaveBeenCalled();
+        // The item is only resumed once it has been initialized
+        expect(resume).toHaveBeenCalledTimes(1);
+        expect(mockDownloadData.status).toBe("progressing");
       });
     });
 
     describe("path was set", () => {
-      it("should call onDownloadStarted", async () => {
+      beforeEach(() => {
+        dialog.showSaveDialog.mockResolvedValueOnce({ canceled: false, filePath: "/some/path" });
+      });
+
+      it("should call onDownloadStarted and resume the download", async () => {
         const downloadInitiator = new DownloadInitiator({});
         downloadInitiator.downloadData = mockDownloadData;
 
-        mockItem.getSavePath.mockReturnValueOnce("/some/path");
+        const resumeSpy = jest.spyOn(mockItem, "resume");
 
         await downloadInitiator.generateOnWillDownload({
           saveDialogOptions: {},
           callbacks,
         })(mockEvent, mockItem, mockWebContents);
 
-        await jest.runAllTimersAsync();
-
         expect(downloadInitiator.callbackDispatcher.onDownloadStarted).toHaveBeenCalled();
+        expect(resumeSpy).toHaveBeenCalled();
       });
 
       it("should handle if the download was completed too quickly", async () => {
         const downloadInitiator = new DownloadInitiator({});
         downloadInitiator.downloadData = mockDownloadData;
-
-        mockItem.getSavePath.mockReturnValueOnce("/some/path");
+        downloadInitiator.cleanup = jest.fn();
 
         mockDownloadData.isDownloadCompleted.mockReturnValueOnce(true);
 
@@ -153,9 +393,8 @@ describe("DownloadInitiator", () => {
           callbacks,
         })(mockEvent, mockItem, mockWebContents);
 
-        await jest.runAllTimersAsync();
-
         expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).toHaveBeenCalled();
+        expect(downloadInitiator.cleanup).toHaveBeenCalled();
       });
     });
   });
@@ -180,25 +419,26 @@ describe("DownloadInitiator", () => {
       it("should not resume the download if the user paused it before init", async () => {
         const downloadInitiator = new DownloadInitiator({});
         downloadInitiator.downloadData = mockDownloadData;
-        mockItem["_userInitiatedPause"] = true;
+        const resumeSpy = jest.spyOn(mockItem, "resume");
 
-        determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+        determineFilePath.mockImplementationOnce(() => {
+          mockItem.pause();
+          return "/some/path/test.txt";
+        });
 
         await downloadInitiator.generateOnWillDownload({
           callbacks,
         })(mockEvent, mockItem, mockWebContents);
 
-        const resumeSpy = jest.spyOn(mockItem, "resume");
-
         await jest.runAllTimersAsync();
 
         expect(resumeSpy).not.toHaveBeenCalled();
+        expect(mockDownloadData.status).toBe("paused");
       });
 
-      it("should resume the download if the *did not* pause before init", async () => {
+      it("should resume the download if the user *did not* pause before init", async () => {
         const downloadInitiator = new DownloadInitiator({});
         downloadInitiator.downloadData = mockDownloadData;
-        mockItem["_userInitiatedPause"] = true;
 
         determineFilePath.mockReturnValueOnce("/some/path/test.txt");
         const resumeSpy = jest.spyOn(mockItem, "resume");
@@ -214,6 +454,147 @@ describe("DownloadInitiator", () => {
         expect(resumeSpy).toHaveBeenCalled();
       });
     });
+
+    it("should call onError and reject the download if the save path is outside of the directory", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      mockEvent.preventDefault = jest.fn();
+
+      const error = new PathTraversalError("/etc/passwd", "/downloads");
+      determineFilePath.mockImplementationOnce(() => {
+        throw error;
+      });
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        directory: "/downloads",
+        sanitizeFilename: false,
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(mockEvent.preventDefault).toHaveBeenCalled();
+      expect(mockItem.setSavePath).not.toHaveBeenCalled();
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(error, mockDownloadData);
+      expect(downloadInitiator.callbackDispatcher.onDownloadStarted).not.toHaveBeenCalled();
+    });
+
+    it("should reject the download with a PathResolutionError if the save path can't be determined", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      mockEvent.preventDefault = jest.fn();
+
+      const cause = new Error("ENOENT");
+      determineFilePath.mockImplementationOnce(() => {
+        throw cause;
+      });
+
+      await downloadInitiator.generateOnWillDownload({ callbacks })(mockEvent, mockItem, mockWebContents);
+
+      const error = downloadInitiator.callbackDispatcher.handleError.mock.calls[0][0];
+
+      expect(mockEvent.preventDefault).toHaveBeenCalled();
+      expect(error).toBeInstanceOf(PathResolutionError);
+      expect(error).toMatchObject({ code: "PATH_RESOLUTION_FAILED", phase: "initialization", cause });
+    });
+
+    describe("file conflicts", () => {
+      // The test file itself is used as the existing file
+      const existingFilePath = __filename;
+
+      beforeEach(() => {
+        mockEvent.preventDefault = jest.fn();
+        determineFilePath.mockReturnValueOnce(existingFilePath);
+      });
+
+      it("should skip the download if the file exists and the strategy is skip", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+
+        resolveConflictStrategy.mockReturnValueOnce("skip");
+
+        await downloadInitiator.generateOnWillDownload({
+          callbacks,
+          conflictStrategy: "skip",
+        })(mockEvent, mockItem, mockWebContents);
+
+        expect(mockEvent.preventDefault).toHaveBeenCalled();
+        expect(mockItem.setSavePath).not.toHaveBeenCalled();
+        expect(mockDownloadData.existingFilePath).toBe(existingFilePath);
+        expect(mockDownloadData.status).toBe("skipped");
+        expect(downloadInitiator.callbackDispatcher.onDownloadSkipped).toHaveBeenCalledWith(mockDownloadData);
+        expect(downloadInitiator.callbackDispatcher.onDownloadStarted).not.toHaveBeenCalled();
+      });
+
+      it("should call onError with a FileExistsError if the strategy is error", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+
+        resolveConflictStrategy.mockReturnValueOnce("error");
+
+        await downloadInitiator.generateOnWillDownload({
+          callbacks,
+          conflictStrategy: "error",
+        })(mockEvent, mockItem, mockWebContents);
+
+        expect(mockEvent.preventDefault).toHaveBeenCalled();
+        expect(mockDownloadData.status).toBe("failed");
+        expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(
+          expect.any(FileExistsError),
+          mockDownloadData,
+        );
+      });
+
+      it("should save to a staging file before the will-download handler returns if the strategy is prompt", () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+
+        resolveConflictStrategy.mockReturnValueOnce("prompt");
+        getStagingFilePath.mockReturnValueOnce(`${existingFilePath}.part`);
+        dialog.showSaveDialog.mockReturnValueOnce(new Promise(() => {}));
+
+        // Not awaited: Electron shows its own dialog if the save path is set after the handler has returned
+        downloadInitiator.generateOnWillDownload({
+          callbacks,
+          conflictStrategy: "prompt",
+        })(mockEvent, mockItem, mockWebContents);
+
+        expect(getStagingFilePath).toHaveBeenCalledWith(existingFilePath, mockDownloadData.id, true);
+        expect(mockItem.setSavePath).toHaveBeenCalledWith(`${existingFilePath}.part`);
+        expect(dialog.showSaveDialog).toHaveBeenCalledWith(expect.objectContaining({ defaultPath: existingFilePath }));
+      });
+
+      it("should show the save dialog if the strategy is prompt", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+
+        resolveConflictStrategy.mockReturnValueOnce("prompt");
+        dialog.showSaveDialog.mockResolvedValueOnce({ canceled: false, filePath: "/chosen/path/file.txt" });
+
+        await downloadInitiator.generateOnWillDownload({
+          callbacks,
+          conflictStrategy: "prompt",
+        })(mockEvent, mockItem, mockWebContents);
+
+        expect(mockEvent.preventDefault).not.toHaveBeenCalled();
+        expect(dialog.showSaveDialog).toHaveBeenCalledWith(expect.objectContaining({ defaultPath: existingFilePath }));
+        expect(mockDownloadData.finalSavePath).toBe("/chosen/path/file.txt");
+      });
+
+      it("should download over the file if the strategy is overwrite", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+
+        resolveConflictStrategy.mockReturnValueOnce("overwrite");
+
+        await downloadInitiator.generateOnWillDownload({
+          callbacks,
+          conflictStrategy: "overwrite",
+        })(mockEvent, mockItem, mockWebContents);
+
+        expect(mockItem.setSavePath).toHaveBeenCalledWith(existingFilePath);
+        expect(downloadInitiator.callbackDispatcher.onDownloadStarted).toHaveBeenCalled();
+      });
+    });
   });
 
   describe("event handlers", () => {
@@ -244,6 +625,25 @@ describe("DownloadInitiator", () => {
         expect(mockDownloadData.interruptedVia).toBe("in-progress");
         expect(downloadInitiator.callbackDispatcher.onDownloadInterrupted).toHaveBeenCalledWith(mockDownloadData);
       });
+
+      it("should set a DownloadInterruptedError as the error of the download", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+        mockItem.canResume.mockReturnValue(true);
+
+        await downloadInitiator.generateItemOnUpdated()(mockEvent, "interrupted");
+
+        expect(mockDownloadData.error).toBeInstanceOf(DownloadInterruptedError);
+        expect(mockDownloadData.error).toMatchObject({
+          code: "DOWNLOAD_INTERRUPTED",
+          phase: "transfer",
+          downloadId: mockDownloadData.id,
+          interruptedVia: "in-progress",
+          canResume: true,
+          receivedBytes: 900,
+          totalBytes: 1000,
+        });
+      });
     });
 
     describe("itemOnDone", () => {
@@ -260,6 +660,77 @@ describe("DownloadInitiator", () => {
         expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).toHaveBeenCalledWith(mockDownloadData);
         expect(downloadInitiator.cleanup).toHaveBeenCalled();
       });
+
+      it("should report the last throttled progress before completing", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+        downloadInitiator.cleanup = jest.fn();
+        const calls: string[] = [];
+        downloadInitiator.callbackDispatcher.flushProgress = jest.fn(() => calls.push("progress"));
+        downloadInitiator.callbackDispatcher.onDownloadCompleted = jest.fn(() => calls.push("completed"));
+
+        await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+        expect(downloadInitiator.callbackDispatcher.flushProgress).toHaveBeenCalledWith(mockDownloadData);
+        expect(calls).toEqual(["progress", "completed"]);
+      });
+    });
+
+    describe("rateEstimator", () => {
+      it("should pause the estimator of the download when it stops progressing", async () => {
+        const estimator = { addSample: jest.fn(), pause: jest.fn(), getEstimate: jest.fn(), getSamples: jest.fn() };
+        const managerRateEstimator = jest.fn();
+        const downloadInitiator = new DownloadInitiator({ rateEstimator: managerRateEstimator });
+        downloadInitiator.downloadData = mockDownloadData;
+
+        determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+        await downloadInitiator.generateOnWillDownload({
+          callbacks,
+          rateEstimator: () => estimator,
+        })(mockEvent, mockItem, mockWebContents);
+
+        expect(managerRateEstimator).not.toHaveBeenCalled();
+        expect(mockDownloadData.status).toBe("progressing");
+        expect(estimator.pause).not.toHaveBeenCalled();
+
+        mockItem.pause();
+
+        expect(estimator.pause).toHaveBeenCalled();
+      });
+    });
+
+    describe("progressThrottle", () => {
+      it("should use the throttle of the download over the throttle of the manager", () => {
+        const downloadInitiator = new DownloadInitiator({ progressThrottle: { minIntervalMs: 500 } });
+
+        downloadInitiator.generateOnWillDownload({ callbacks });
+        expect(CallbackDispatcher).toHaveBeenLastCalledWith(
+          downloadInitiator.downloadData.id,
+          callbacks,
+          downloadInitiator.logger,
+          undefined,
+          { minIntervalMs: 500 },
+        );
+
+        downloadInitiator.generateOnWillDownload({ callbacks, progressThrottle: { minPercentDelta: 1 } });
+        expect(CallbackDispatcher).toHaveBeenLastCalledWith(
+          downloadInitiator.downloadData.id,
+          callbacks,
+          downloadInitiator.logger,
+          undefined,
+          { minPercentDelta: 1 },
+        );
+
+        downloadInitiator.generateOnWillDownload({ callbacks, progressThrottle: false });
+        expect(CallbackDispatcher).toHaveBeenLastCalledWith(
+          downloadInitiator.downloadData.id,
+          callbacks,
+          downloadInitiator.logger,
+          undefined,
+          undefined,
+        );
+      });
     });
 
     it("should handle cancelled state", async () => {
@@ -312,4 +783,779 @@ describe("DownloadInitiator", () => {
       expect(downloadInitiator.callbackDispatcher.onDownloadProgress).toHaveBeenCalled();
     });
   });
+
+  describe("retry", () => {
+    const retry = { maxAttempts: 2 };
+
+    it("should resume an interrupted download when it can be resumed", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      mockItem.canResume.mockReturnValue(true);
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        retry,
+      })(mockEvent, mockItem, mockWebContents);
+
+      const resumeSpy = jest.spyOn(mockItem, "resume");
+
+      await downloadInitiator.generateItemOnUpdated()(mockEvent, "interrupted");
+
+      expect(mockDownloadData.retryAttempt).toBe(1);
+      expect(downloadInitiator.callbackDispatcher.onDownloadRetrying).toHaveBeenCalledWith(mockDownloadData);
+      expect(downloadInitiator.callbackDispatcher.onDownloadInterrupted).not.toHaveBeenCalled();
+
+      await jest.runAllTimersAsync();
+
+      expect(resumeSpy).toHaveBeenCalled();
+    });
+
+    it("should restart the download when it cannot be resumed", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      const newItem = createMockDownloadData().item;
+
+      mockWebContents = {
+        session: {
+          once: jest.fn().mockImplementation((_event, handler) => handler(mockEvent, newItem)),
+        },
+        downloadURL: jest.fn(),
+      };
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      mockItem.canResume.mockReturnValue(false);
+      mockItem.getSavePath.mockReturnValue("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        retry,
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "interrupted");
+
+      expect(downloadInitiator.cleanup).not.toHaveBeenCalled();
+
+      await jest.runAllTimersAsync();
+
+      expect(mockWebContents.downloadURL).toHaveBeenCalledWith(mockItem.getURL());
+      expect(newItem.setSavePath).toHaveBeenCalledWith("/some/path/test.txt");
+      expect(downloadInitiator.getDownloadData().item).toBe(newItem);
+    });
+
+    it("should register the restarted download with the will-download handler of the manager", async () => {
+      const newItem = createMockDownloadData().item;
+      const onceWillDownload = jest.fn().mockImplementation((_session, _url, handler) => handler(mockEvent, newItem));
+      const downloadInitiator = new DownloadInitiator({ onceWillDownload });
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      mockWebContents = { session: { once: jest.fn() }, downloadURL: jest.fn() };
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      mockItem.canResume.mockReturnValue(false);
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        retry,
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "interrupted");
+      await jest.runAllTimersAsync();
+
+      expect(onceWillDownload).toHaveBeenCalledWith(mockWebContents.session, mockItem.getURL(), expect.any(Function));
+      expect(mockWebContents.session.once).not.toHaveBeenCalled();
+      expect(downloadInitiator.getDownloadData().item).toBe(newItem);
+    });
+
+    it("should call onDownloadInterrupted once the retries have been exhausted", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      mockDownloadData.retryAttempt = 2;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        retry,
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "interrupted");
+
+      expect(downloadInitiator.callbackDispatcher.onDownloadRetrying).not.toHaveBeenCalled();
+      expect(downloadInitiator.callbackDispatcher.onDownloadInterrupted).toHaveBeenCalledWith(mockDownloadData);
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+    });
+
+    it("should not retry interruptions that are not in retryOn", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        retry: { maxAttempts: 2, retryOn: ["completed"] },
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnUpdated()(mockEvent, "interrupted");
+
+      expect(downloadInitiator.callbackDispatcher.onDownloadRetrying).not.toHaveBeenCalled();
+      expect(downloadInitiator.callbackDispatcher.onDownloadInterrupted).toHaveBeenCalledWith(mockDownloadData);
+    });
+  });
+
+  describe("integrity", () => {
+    it("should call onDownloadCompleted if the checksum matches", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      parseIntegrity.mockReturnValueOnce({ algorithm: "sha256", digests: ["abc"], encoding: "hex" });
+      hashFile.mockResolvedValueOnce("abc");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        integrity: { algorithm: "sha256", digest: "abc" },
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(hashFile).toHaveBeenCalledWith("/path/to/save", "sha256", "hex");
+      expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).toHaveBeenCalledWith(mockDownloadData);
+      expect(downloadInitiator.callbackDispatcher.handleError).not.toHaveBeenCalled();
+    });
+
+    it("should call onError instead of onDownloadCompleted if the checksum does not match", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      parseIntegrity.mockReturnValueOnce({ algorithm: "sha256", digests: ["abc"], encoding: "hex" });
+      hashFile.mockResolvedValueOnce("def");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        integrity: { algorithm: "sha256", digest: "abc" },
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).not.toHaveBeenCalled();
+      expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(
+        expect.any(ChecksumMismatchError),
+        mockDownloadData,
+      );
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+    });
+  });
+
+  describe("disk space", () => {
+    it("should fail before starting if the file does not fit", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      getFreeDiskSpace.mockResolvedValueOnce(150);
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        diskSpace: { safetyMarginBytes: 100 },
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(getFreeDiskSpace).toHaveBeenCalledWith("/path/to");
+      expect(mockItem.cancel).toHaveBeenCalled();
+      expect(mockItem.resume).not.toHaveBeenCalled();
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.callbackDispatcher.onDownloadStarted).not.toHaveBeenCalled();
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+
+      const [error] = downloadInitiator.callbackDispatcher.handleError.mock.calls[0];
+      expect(error).toBeInstanceOf(InsufficientDiskSpaceError);
+      // 100 bytes are left to download, plus the margin
+      expect(error).toMatchObject({ requiredBytes: 200, freeBytes: 150, directory: "/path/to" });
+    });
+
+    it("should start the download if the file fits", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      getFreeDiskSpace.mockResolvedValueOnce(200);
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        diskSpace: { safetyMarginBytes: 100 },
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(downloadInitiator.callbackDispatcher.handleError).not.toHaveBeenCalled();
+      expect(mockDownloadData.status).toBe("progressing");
+    });
+
+    it("should not check the free space if disabled", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        diskSpace: false,
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(getFreeDiskSpace).not.toHaveBeenCalled();
+      expect(mockDownloadData.status).toBe("progressing");
+    });
+
+    it("should pause the download when the free space drops below the threshold", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      getFreeDiskSpace.mockResolvedValueOnce(10_000).mockResolvedValueOnce(5_000).mockResolvedValue(500);
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        diskSpace: { pauseBelowBytes: 1_000, checkIntervalMs: 1_000 },
+      })(mockEvent, mockItem, mockWebContents);
+
+      await jest.advanceTimersByTimeAsync(1_000);
+      expect(mockDownloadData.status).toBe("progressing");
+
+      await jest.advanceTimersByTimeAsync(1_000);
+      expect(mockDownloadData.status).toBe("paused");
+      expect(downloadInitiator.callbackDispatcher.onLowDiskSpace).toHaveBeenCalledTimes(1);
+      expect(downloadInitiator.callbackDispatcher.onLowDiskSpace).toHaveBeenCalledWith(mockDownloadData, 500);
+
+      // Paused downloads are not checked again
+      await jest.advanceTimersByTimeAsync(1_000);
+      expect(downloadInitiator.callbackDispatcher.onLowDiskSpace).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("policy", () => {
+    it("should reject the download if it violates the policy of the manager or the download", async () => {
+      const managerPolicy = { allowedUrls: ["example.com"] };
+      const policy = { allowedMimeTypes: ["application/pdf"] };
+      const violation = new PolicyViolationError({ rule: "allowedMimeTypes", value: "text/plain" });
+      const downloadInitiator = new DownloadInitiator({ policy: managerPolicy });
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      downloadInitiator.initNonInteractiveDownload = jest.fn();
+      mockEvent.preventDefault = jest.fn();
+
+      checkDownloadPolicy.mockReturnValueOnce(undefined).mockReturnValueOnce(violation);
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        policy,
+      })(mockEvent, mockItem, mockWebContents);
+
+      const details = {
+        urls: ["https://example.com/filename.txt"],
+        mimeType: "text/plain",
+        filename: "filename.txt",
+        totalBytes: 1000,
+      };
+      expect(checkDownloadPolicy).toHaveBeenNthCalledWith(1, managerPolicy, details, "initialization");
+      expect(checkDownloadPolicy).toHaveBeenNthCalledWith(2, policy, details, "initialization");
+      expect(mockEvent.preventDefault).toHaveBeenCalled();
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(violation, mockDownloadData);
+      expect(downloadInitiator.initNonInteractiveDownload).not.toHaveBeenCalled();
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+    });
+
+    it("should cancel the download when the received bytes exceed the max file size", async () => {
+      const policy = { maxFileSizeBytes: 1000 };
+      const violation = new PolicyViolationError({ rule: "maxFileSizeBytes", value: 1200 });
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      const cancel = mockItem.cancel;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        policy,
+      })(mockEvent, mockItem, mockWebContents);
+
+      checkDownloadPolicy.mockReturnValueOnce(violation);
+      mockItem.getReceivedBytes.mockReturnValue(1200);
+      await downloadInitiator.generateItemOnUpdated()({}, "progressing");
+
+      expect(checkDownloadPolicy).toHaveBeenLastCalledWith(policy, { totalBytes: 1200 }, "transfer");
+      expect(cancel).toHaveBeenCalled();
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(violation, mockDownloadData);
+      expect(downloadInitiator.callbackDispatcher.onDownloadProgress).not.toHaveBeenCalled();
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+    });
+
+    it("should fail the completed download and delete the file when the received bytes exceed the max file size", async () => {
+      const policy = { maxFileSizeBytes: 1000 };
+      const violation = new PolicyViolationError({ rule: "maxFileSizeBytes", value: 1200, phase: "completion" });
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      const tmpDir = mkdtempSync(path.join(os.tmpdir(), "dl-policy-"));
+      const filePath = path.join(tmpDir, "test.txt");
+      writeFileSync(filePath, "data");
+
+      determineFilePath.mockReturnValueOnce(filePath);
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        policy,
+      })(mockEvent, mockItem, mockWebContents);
+
+      // The server did not send a size, so only the received bytes can be checked
+      checkDownloadPolicy.mockReturnValueOnce(violation);
+      mockItem.getSavePath.mockReturnValue(filePath);
+      mockItem.getTotalBytes.mockReturnValue(0);
+      mockItem.getReceivedBytes.mockReturnValue(1200);
+      await downloadInitiator.generateItemOnDone()({}, "completed");
+
+      expect(checkDownloadPolicy).toHaveBeenLastCalledWith(policy, { totalBytes: 1200 }, "completion");
+      expect(existsSync(filePath)).toBe(false);
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(violation, mockDownloadData);
+      expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).not.toHaveBeenCalled();
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+
+      rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    describe("allowedExtensions", () => {
+      const policy = { allowedExtensions: ["pdf"] };
+      const violation = new PolicyViolationError({ rule: "allowedExtensions", value: "report.exe" });
+
+      beforeEach(() => {
+        checkDownloadPolicy.mockImplementation((_policy, details) =>
+          details.filename === "report.exe" ? violation : undefined,
+        );
+      });
+
+      afterEach(() => {
+        checkDownloadPolicy.mockReset();
+      });
+
+      it("should reject the download if the resolved filename is not allowed", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+        downloadInitiator.cleanup = jest.fn();
+        mockEvent.preventDefault = jest.fn();
+        mockItem.getFilename.mockReturnValue("report.pdf");
+
+        determineFilePath.mockReturnValueOnce("/some/path/report.exe");
+
+        await downloadInitiator.generateOnWillDownload({
+          callbacks,
+          policy,
+          saveAsFilename: "report.exe",
+        })(mockEvent, mockItem, mockWebContents);
+
+        expect(checkDownloadPolicy).toHaveBeenCalledWith(policy, { filename: "report.exe" }, "initialization");
+        expect(mockEvent.preventDefault).toHaveBeenCalled();
+        expect(mockItem.setSavePath).not.toHaveBeenCalled();
+        expect(mockDownloadData.status).toBe("failed");
+        expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(violation, mockDownloadData);
+        expect(downloadInitiator.callbackDispatcher.onDownloadStarted).not.toHaveBeenCalled();
+      });
+
+      it("should cancel the download if the filename chosen in the save dialog is not allowed", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+        downloadInitiator.cleanup = jest.fn();
+        mockEvent.preventDefault = jest.fn();
+        mockItem.getFilename.mockReturnValue("report.pdf");
+
+        dialog.showSaveDialog.mockResolvedValueOnce({ canceled: false, filePath: "/chosen/path/report.exe" });
+
+        await downloadInitiator.generateOnWillDownload({
+          callbacks,
+          policy,
+          saveDialogOptions: {},
+        })(mockEvent, mockItem, mockWebContents);
+
+        expect(mockEvent.preventDefault).not.toHaveBeenCalled();
+        expect(mockItem.cancel).toHaveBeenCalled();
+        expect(mockDownloadData.finalSavePath).not.toBe("/chosen/path/report.exe");
+        expect(mockDownloadData.status).toBe("failed");
+        expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(violation, mockDownloadData);
+        expect(downloadInitiator.cleanup).toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe("staging", () => {
+    it("should save to the staging file and keep the final name", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      getStagingFilePath.mockReturnValueOnce("/some/path/test.txt.part");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        staging: true,
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(getStagingFilePath).toHaveBeenCalledWith("/some/path/test.txt", mockDownloadData.id, true);
+      expect(mockItem.setSavePath).toHaveBeenCalledWith("/some/path/test.txt.part");
+      expect(mockDownloadData.finalSavePath).toBe("/some/path/test.txt");
+      expect(mockDownloadData.resolvedFilename).toBe("test.txt");
+    });
+
+    it("should not stage a restored download again", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        staging: true,
+        savePath: "/some/path/test.txt.part",
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(getStagingFilePath).not.toHaveBeenCalled();
+      expect(mockItem.setSavePath).toHaveBeenCalledWith("/some/path/test.txt.part");
+    });
+
+    it("should move the staging file to the final path before completing", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      mockDownloadData.finalSavePath = "/some/path/test.txt";
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(movePath).toHaveBeenCalledWith("/path/to/save", "/some/path/test.txt");
+      expect(mockDownloadData.status).toBe("completed");
+      expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).toHaveBeenCalledWith(mockDownloadData);
+    });
+
+    describe("when another download saved a file to the final path while staging", () => {
+      let tmpDir: string;
+      let finalSavePath: string;
+
+      beforeEach(() => {
+        tmpDir = mkdtempSync(path.join(os.tmpdir(), "staging-"));
+        finalSavePath = path.join(tmpDir, "test.txt");
+        writeFileSync(finalSavePath, "other download");
+      });
+
+      afterEach(() => {
+        rmSync(tmpDir, { recursive: true, force: true });
+      });
+
+      it("should move the staging file to a unique path with uniquify", async () => {
+        const uniquePath = path.join(tmpDir, "test (1).txt");
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+        downloadInitiator.cleanup = jest.fn();
+        mockDownloadData.finalSavePath = finalSavePath;
+        resolveConflictStrategy.mockReturnValueOnce("uniquify");
+        UnusedFilename.sync.mockReturnValueOnce(uniquePath);
+
+        await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+        expect(movePath).toHaveBeenCalledWith("/path/to/save", uniquePath);
+        expect(mockDownloadData.finalSavePath).toBe(uniquePath);
+        expect(mockDownloadData.resolvedFilename).toBe("test (1).txt");
+        expect(mockDownloadData.status).toBe("completed");
+      });
+
+      it("should fail with a FileExistsError and keep the staging file with the error strategy", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+        downloadInitiator.cleanup = jest.fn();
+        mockDownloadData.finalSavePath = finalSavePath;
+        resolveConflictStrategy.mockReturnValueOnce("error");
+
+        await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+        expect(movePath).not.toHaveBeenCalled();
+        expect(mockDownloadData.status).toBe("failed");
+        expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(
+          expect.any(FileExistsError),
+          mockDownloadData,
+        );
+        expect(downloadInitiator.callbackDispatcher.handleError.mock.calls[0][0]).toMatchObject({
+          filePath: finalSavePath,
+          phase: "finalization",
+        });
+      });
+
+      it("should replace the file with the overwrite strategy", async () => {
+        const downloadInitiator = new DownloadInitiator({});
+        downloadInitiator.downloadData = mockDownloadData;
+        downloadInitiator.cleanup = jest.fn();
+        mockDownloadData.finalSavePath = finalSavePath;
+        resolveConflictStrategy.mockReturnValueOnce("overwrite");
+
+        await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+        expect(movePath).toHaveBeenCalledWith("/path/to/save", finalSavePath);
+        expect(mockDownloadData.status).toBe("completed");
+      });
+    });
+
+    it("should fail the download if the staging file can't be moved", async () => {
+      const error = new Error("EPERM");
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+      mockDownloadData.finalSavePath = "/some/path/test.txt";
+      movePath.mockRejectedValueOnce(error);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.callbackDispatcher.handleError).toHaveBeenCalledWith(
+        expect.any(StagingError),
+        mockDownloadData,
+      );
+      expect(downloadInitiator.callbackDispatcher.handleError.mock.calls[0][0]).toMatchObject({
+        code: "STAGING_FAILED",
+        phase: "finalization",
+        cause: error,
+      });
+      expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).not.toHaveBeenCalled();
+    });
+
+    it("should delete the staging file when the download is cancelled", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.removeStagedFile = jest.fn();
+      mockDownloadData.finalSavePath = "/some/path/test.txt";
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "cancelled");
+
+      expect(downloadInitiator.removeStagedFile).toHaveBeenCalled();
+    });
+
+    it("should delete the staging file when the download fails", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.removeStagedFile = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      parseIntegrity.mockReturnValueOnce({ algorithm: "sha256", digests: ["abc"], encoding: "hex" });
+      hashFile.mockResolvedValueOnce("def");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        integrity: { algorithm: "sha256", digest: "abc" },
+      })(mockEvent, mockItem, mockWebContents);
+      mockDownloadData.finalSavePath = "/some/path/test.txt";
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.removeStagedFile).toHaveBeenCalled();
+    });
+
+    it("should keep the staging file of a completed download", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.removeStagedFile = jest.fn();
+      mockDownloadData.finalSavePath = "/some/path/test.txt";
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(downloadInitiator.removeStagedFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("post-processing", () => {
+    it("should run the manager steps and then the download steps before completing", async () => {
+      const order: string[] = [];
+      const managerStep = {
+        name: "scan",
+        run: jest.fn(async () => {
+          order.push("scan");
+        }),
+      };
+      const downloadStep = {
+        name: "move",
+        run: jest.fn(async ({ reportProgress }) => {
+          order.push("move");
+          reportProgress(50);
+          return { filePath: "/final/test.txt" };
+        }),
+      };
+      const chmodStep = { name: "chmod", run: jest.fn() };
+      const downloadInitiator = new DownloadInitiator({ postProcessing: [managerStep] });
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        postProcessing: [downloadStep, chmodStep],
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(order).toEqual(["scan", "move"]);
+      expect(managerStep.run).toHaveBeenCalledWith(expect.objectContaining({ filePath: "/path/to/save" }));
+      expect(chmodStep.run).toHaveBeenCalledWith(expect.objectContaining({ filePath: "/final/test.txt" }));
+      expect(mockDownloadData.processedFilePath).toBe("/final/test.txt");
+      expect(mockDownloadData.postProcessing).toEqual([
+        { name: "scan", status: "completed", percentCompleted: 100 },
+        { name: "move", status: "completed", percentCompleted: 100, filePath: "/final/test.txt" },
+        { name: "chmod", status: "completed", percentCompleted: 100 },
+      ]);
+      expect(downloadInitiator.callbackDispatcher.onPostProcessingProgress).toHaveBeenCalledTimes(7);
+      expect(downloadInitiator.callbackDispatcher.onStatusChanged).toHaveBeenCalledWith(
+        mockDownloadData,
+        "progressing",
+        "processing",
+      );
+      expect(mockDownloadData.status).toBe("completed");
+      expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).toHaveBeenCalledWith(mockDownloadData);
+    });
+
+    it("should fail the download and skip the remaining steps if a step fails", async () => {
+      const error = new Error("Malware found");
+      const lastStep = { name: "move", run: jest.fn() };
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        postProcessing: [{ name: "scan", run: jest.fn().mockRejectedValue(error) }, lastStep],
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(lastStep.run).not.toHaveBeenCalled();
+      expect(mockDownloadData.postProcessing).toEqual([
+        { name: "scan", status: "failed", percentCompleted: 0, error },
+        { name: "move", status: "skipped", percentCompleted: 0 },
+      ]);
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.callbackDispatcher.onDownloadCompleted).not.toHaveBeenCalled();
+
+      const [postProcessingError] = downloadInitiator.callbackDispatcher.handleError.mock.calls[0];
+      expect(postProcessingError).toBeInstanceOf(PostProcessingError);
+      expect(postProcessingError.step).toBe("scan");
+      expect(postProcessingError.cause).toBe(error);
+      expect(downloadInitiator.cleanup).toHaveBeenCalled();
+    });
+  });
+
+  describe("status", () => {
+    it("should move through the lifecycle of a completed download", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      expect(mockDownloadData.status).toBe("progressing");
+
+      mockItem.pause();
+      expect(mockDownloadData.status).toBe("paused");
+
+      mockItem.resume();
+      expect(mockDownloadData.status).toBe("progressing");
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(mockDownloadData.status).toBe("completed");
+      expect(downloadInitiator.callbackDispatcher.onStatusChanged.mock.calls).toEqual([
+        [mockDownloadData, "pending", "progressing"],
+        [mockDownloadData, "progressing", "paused"],
+        [mockDownloadData, "paused", "progressing"],
+        [mockDownloadData, "progressing", "completed"],
+      ]);
+    });
+
+    it("should move to verifying and then failed if the checksum does not match", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+      parseIntegrity.mockReturnValueOnce({ algorithm: "sha256", digests: ["abc"], encoding: "hex" });
+      hashFile.mockResolvedValueOnce("def");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        integrity: { algorithm: "sha256", digest: "abc" },
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "completed");
+
+      expect(mockDownloadData.status).toBe("failed");
+      expect(downloadInitiator.callbackDispatcher.onStatusChanged).toHaveBeenCalledWith(
+        mockDownloadData,
+        "progressing",
+        "verifying",
+      );
+      expect(downloadInitiator.callbackDispatcher.onStatusChanged).toHaveBeenCalledWith(
+        mockDownloadData,
+        "verifying",
+        "failed",
+      );
+    });
+
+    it("should move to retrying when a retry is scheduled", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+        retry: { maxAttempts: 1 },
+      })(mockEvent, mockItem, mockWebContents);
+
+      await downloadInitiator.generateItemOnUpdated()(mockEvent, "interrupted");
+
+      expect(mockDownloadData.status).toBe("retrying");
+    });
+
+    it("should ignore invalid transitions", async () => {
+      const downloadInitiator = new DownloadInitiator({});
+      downloadInitiator.downloadData = mockDownloadData;
+      downloadInitiator.cleanup = jest.fn();
+
+      determineFilePath.mockReturnValueOnce("/some/path/test.txt");
+
+      await downloadInitiator.generateOnWillDownload({
+        callbacks,
+      })(mockEvent, mockItem, mockWebContents);
+
+      downloadInitiator.updateProgress = jest.fn();
+
+      await downloadInitiator.generateItemOnDone()(mockEvent, "cancelled");
+      await downloadInitiator.generateItemOnUpdated()(mockEvent, "progressing");
+
+      expect(mockDownloadData.status).toBe("cancelled");
+      expect(downloadInitiator.callbackDispatcher.onStatusChanged).not.toHaveBeenCalledWith(
+        mockDownloadData,
+        "cancelled",
+        "progressing",
+      );
+    });
+  });
 });
@@ -0,0 +1,115 @@
+import { DownloadData, DownloadScheduler } from "../src";
+
+jest.mock("electron");
+
+function createEntry(id: string, priority = 0) {
+  const downloadData = new DownloadData();
+  downloadData.id = id;
+  downloadData.priority = priority;
+
+  return { id, priority, config: {} as any, downloadData };
+}
+
+describe("DownloadScheduler", () => {
+  it("should have capacity when no limit is set", () => {
+    const scheduler = new DownloadScheduler({ onStart: jest.fn() });
+
+    for (let i = 0; i < 50; i++) {
+      scheduler.markActive(`id-${i}`);
+    }
+
+    expect(scheduler.hasCapacity()).toBe(true);
+  });
+
+  it("should not have capacity when the limit has been reached", () => {
+    const scheduler = new DownloadScheduler({ maxConcurrentDownloads: 2, onStart: jest.fn() });
+
+    scheduler.markActive("a");
+    expect(scheduler.hasCapacity()).toBe(true);
+
+    scheduler.markActive("b");
+    expect(scheduler.hasCapacity()).toBe(false);
+  });
+
+  it("should start the next queued download when a slot is released", () => {
+    const onStart = jest.fn();
+    const scheduler = new DownloadScheduler({ maxConcurrentDownloads: 1, onStart });
+
+    scheduler.markActive("a");
+    scheduler.enqueue(createEntry("b"));
+    scheduler.enqueue(createEntry("c"));
+
+    scheduler.release("a");
+
+    expect(onStart).toHaveBeenCalledTimes(1);
+    expect(onStart).toHaveBeenCalledWith(expect.objectContaining({ id: "b" }));
+    expect(scheduler.getQueuedIds()).toEqual(["c"]);
+  });
+
+  it("should order queued downloads by priority, then by insertion order", () => {
+    const scheduler = new DownloadScheduler({ maxConcurrentDownloads: 1, onStart: jest.fn() });
+
+    scheduler.markActive("active");
+    scheduler.enqueue(createEntry("low-1", 0));
+    scheduler.enqueue(createEntry("high", 5));
+    scheduler.enqueue(createEntry("low-2", 0));
+    scheduler.enqueue(createEntry("mid", 2));
+
+    expect(scheduler.getQueuedIds()).toEqual(["high", "mid", "low-1", "low-2"]);
+  });
+
+  it("should reorder a download when its priority changes", () => {
+    const scheduler = new DownloadScheduler({ maxConcurrentDownloads: 1, onStart: jest.fn() });
+    const entry = createEntry("c");
+
+    scheduler.markActive("active");
+    scheduler.enqueue(createEntry("a"));
+    scheduler.enqueue(createEntry("b"));
+    scheduler.enqueue(entry);
+
+    expect(scheduler.setPriority("c", 1)).toBe(true);
+    expect(scheduler.getQueuedIds()).toEqual(["c", "a", "b"]);
+    expect(entry.downloadData.priority).toBe(1);
+    expect(scheduler.setPriority("missing", 1)).toBe(false);
+  });
+
+  it("should promote a download to the front of the queue", () => {
+    const scheduler = new DownloadScheduler({ maxConcurrentDownloads: 1, onStart: jest.fn() });
+
+    scheduler.markActive("active");
+    scheduler.enqueue(createEntry("a", 3));
+    scheduler.enqueue(createEntry("b"));
+
+    expect(scheduler.promote("b")).toBe(true);
+    expect(scheduler.getQueuedIds()).toEqual(["b", "a"]);
+
+    // A download with the same priority as the promoted one should not jump ahead of it
+    scheduler.enqueue(createEntry("c", 3));
+    expect(scheduler.getQueuedIds()).toEqual(["b", "a", "c"]);
+  });
+
+  it("should remove a queued download", () => {
+    const scheduler = new DownloadScheduler({ maxConcurrentDownloads: 1, onStart: jest.fn() });
+
+    scheduler.markActive("active");
+    scheduler.enqueue(createEntry("a"));
+
+    expect(scheduler.remove("a")).toEqual(expect.objectContaining({ id: "a" }));
+    expect(scheduler.isQueued("a")).toBe(false);
+    expect(scheduler.remove("a")).toBeUndefined();
+  });
+
+  it("should start queued downloads when the limit is raised", () => {
+    const onStart = jest.fn();
+    const scheduler = new DownloadScheduler({ maxConcurrentDownloads: 1, onStart });
+
+    scheduler.markActive("active");
+    scheduler.enqueue(createEntry("a"));
+    scheduler.enqueue(createEntry("b"));
+
+    scheduler.setMaxConcurrentDownloads(3);
+
+    expect(onStart).toHaveBeenCalledTimes(2);
+    expect(scheduler.getQueuedIds()).toEqual([]);
+  });
+});
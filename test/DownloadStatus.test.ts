@@ -0,0 +1,33 @@
+import { DOWNLOAD_STATUS_TRANSITIONS, getDownloadPhase, isValidStatusTransition } from "../src";
+
+describe("DownloadStatus", () => {
+  it("should allow valid transitions", () => {
+    expect(isValidStatusTransition("pending", "progressing")).toBe(true);
+    expect(isValidStatusTransition("queued", "pending")).toBe(true);
+    expect(isValidStatusTransition("progressing", "paused")).toBe(true);
+    expect(isValidStatusTransition("interrupted", "retrying")).toBe(true);
+    expect(isValidStatusTransition("verifying", "completed")).toBe(true);
+    expect(isValidStatusTransition("verifying", "processing")).toBe(true);
+    expect(isValidStatusTransition("processing", "completed")).toBe(true);
+  });
+
+  it("should reject invalid transitions", () => {
+    expect(isValidStatusTransition("queued", "progressing")).toBe(false);
+    expect(isValidStatusTransition("verifying", "progressing")).toBe(false);
+    expect(isValidStatusTransition("pending", "retrying")).toBe(false);
+  });
+
+  it("should not allow leaving a final status", () => {
+    for (const status of ["completed", "cancelled", "failed"] as const) {
+      expect(DOWNLOAD_STATUS_TRANSITIONS[status]).toEqual([]);
+    }
+  });
+
+  it("should return the phase of a status", () => {
+    expect(getDownloadPhase("queued")).toBe("queue");
+    expect(getDownloadPhase("awaiting-save-path")).toBe("save-dialog");
+    expect(getDownloadPhase("paused")).toBe("transfer");
+    expect(getDownloadPhase("processing")).toBe("post-processing");
+    expect(getDownloadPhase("failed")).toBe("completion");
+  });
+});
@@ -1,4 +1,17 @@
-import { DownloadData, ElectronDownloadManager } from "../src";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import {
+  BandwidthLimiter,
+  ChecksumMismatchError,
+  ConfigValidationError,
+  DownloadData,
+  DownloadFailedError,
+  DownloadManagerError,
+  DownloadInitiator,
+  ElectronDownloadManager,
+  PolicyViolationError,
+} from "../src";
 import { createMockDownloadData } from "../src/__mocks__/DownloadData";
 
 jest.mock("unused-filename");
@@ -43,6 +56,29 @@ describe("ElectronDownloadManager", () => {
     expect(downloadData.item.resume).toHaveBeenCalled();
   });
 
+  it("should not resume a download that is paused by the bandwidth limiter", () => {
+    const { downloadData, item } = createMockDownloadData();
+    const isThrottled = jest.spyOn(BandwidthLimiter.prototype, "isThrottled").mockReturnValue(true);
+
+    item.isPaused.mockReturnValue(true);
+    downloadData.status = "progressing";
+
+    const downloadManager = new ElectronDownloadManager();
+
+    downloadManager.downloadData = { [downloadData.id]: downloadData };
+    downloadManager.resumeDownload(downloadData.id);
+
+    expect(isThrottled).toHaveBeenCalledWith(downloadData.id);
+    expect(downloadData.item.resume).not.toHaveBeenCalled();
+
+    // The user paused it while it was throttled
+    downloadData.status = "paused";
+    downloadManager.resumeDownload(downloadData.id);
+
+    expect(downloadData.item.resume).toHaveBeenCalled();
+    isThrottled.mockRestore();
+  });
+
   it("should get active download count", () => {
     const { downloadData: downloadData1 } = createMockDownloadData();
 
@@ -67,6 +103,20 @@ describe("ElectronDownloadManager", () => {
     expect(downloadManager.getActiveDownloadCount()).toBe(2);
   });
 
+  it("should not count a download that has left the queue but not started", () => {
+    const { downloadData: active } = createMockDownloadData();
+    active.isDownloadInProgress.mockReturnValue(true);
+
+    // Promoted out of the queue, waiting for will-download
+    const starting = new DownloadData();
+    starting.status = "pending";
+
+    const downloadManager = new ElectronDownloadManager();
+    downloadManager.downloadData = { [active.id]: active, [starting.id]: starting };
+
+    expect(downloadManager.getActiveDownloadCount()).toBe(1);
+  });
+
   it("should download a file", async () => {
     const downloadManager = new ElectronDownloadManager();
     const { item } = createMockDownloadData();
@@ -104,4 +154,890 @@ describe("ElectronDownloadManager", () => {
     // Assert that the downloadId will be a string once the promise resolves
     await expect(downloadPromise).resolves.toEqual(expect.any(String));
   });
+  describe("queue", () => {
+    function createParams(callbacks = {}) {
+      return {
+        url: "https://example.com/test.txt",
+        saveAsFilename: "test.txt",
+        window: {
+          webContents: {
+            session: {
+              once: jest.fn().mockImplementation((event, handler) => {
+                handler(null, createMockDownloadData().item, {});
+              }),
+            },
+            downloadURL: jest.fn(),
+          },
+        } as any,
+        callbacks: callbacks as any,
+      };
+    }
+
+    it("should queue downloads beyond the concurrency limit", async () => {
+      const downloadManager = new ElectronDownloadManager({ maxConcurrentDownloads: 1 });
+
+      const params1 = createParams();
+      const params2 = createParams();
+
+      await downloadManager.download(params1);
+      const queuedId = await downloadManager.download(params2);
+
+      expect(params1.window.webContents.downloadURL).toHaveBeenCalled();
+      expect(params2.window.webContents.downloadURL).not.toHaveBeenCalled();
+      expect(downloadManager.getQueuedDownloadIds()).toEqual([queuedId]);
+      expect(downloadManager.getDownloadData(queuedId).isDownloadQueued()).toBe(true);
+    });
+
+    it("should give every download queued in the same tick its own id", async () => {
+      const downloadManager = new ElectronDownloadManager({ maxConcurrentDownloads: 1 });
+
+      const ids = await Promise.all(Array.from({ length: 100 }, () => downloadManager.download(createParams())));
+
+      expect(new Set(ids).size).toBe(100);
+      expect(downloadManager.getQueuedDownloadIds()).toHaveLength(99);
+    });
+
+    it("should start a queued download when a running download is cleaned up", async () => {
+      const downloadManager = new ElectronDownloadManager({ maxConcurrentDownloads: 1 });
+
+      const params1 = createParams();
+      const params2 = createParams();
+
+      const id = await downloadManager.download(params1);
+      await downloadManager.download(params2);
+
+      downloadManager.cleanup(downloadManager.getDownloadData(id));
+      await new Promise(process.nextTick);
+
+      expect(params2.window.webContents.downloadURL).toHaveBeenCalled();
+      expect(downloadManager.getQueuedDownloadIds()).toEqual([]);
+    });
+
+    it("should cancel a queued download", async () => {
+      const downloadManager = new ElectronDownloadManager({ maxConcurrentDownloads: 1 });
+      const onDownloadCancelled = jest.fn();
+
+      await downloadManager.download(createParams());
+      const queuedId = await downloadManager.download(createParams({ onDownloadCancelled }));
+
+      downloadManager.cancelDownload(queuedId);
+      await new Promise(process.nextTick);
+
+      expect(onDownloadCancelled).toHaveBeenCalledWith(expect.objectContaining({ id: queuedId }));
+      expect(downloadManager.getQueuedDownloadIds()).toEqual([]);
+      expect(downloadManager.getDownloadData(queuedId)).toBeUndefined();
+    });
+
+    it("should reject when both saveAsFilename and saveDialogOptions are defined", async () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      const result = downloadManager.download({ ...createParams(), saveDialogOptions: {} });
+
+      await expect(result).rejects.toThrow(
+        "You cannot define both saveAsFilename and saveDialogOptions to start a download",
+      );
+      await expect(result).rejects.toBeInstanceOf(ConfigValidationError);
+      await expect(result).rejects.toMatchObject({ code: "CONFIG_INVALID", phase: "validation" });
+    });
+
+    it("should reject when the url is not allowed by the policy", async () => {
+      const downloadManager = new ElectronDownloadManager({ policy: { blockedUrls: ["example.com"] } });
+      const params = createParams();
+
+      await expect(downloadManager.download(params)).rejects.toThrow(PolicyViolationError);
+      await expect(
+        new ElectronDownloadManager().download({ ...params, policy: { allowedUrls: ["example.org"] } }),
+      ).rejects.toMatchObject({ rule: "allowedUrls", value: "https://example.com/test.txt" });
+      expect(params.window.webContents.downloadURL).not.toHaveBeenCalled();
+    });
+
+    it("should reject a malformed integrity option before the download starts", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const params = createParams();
+
+      await expect(downloadManager.download({ ...params, integrity: "md5-abc=" })).rejects.toMatchObject({
+        code: "CONFIG_INVALID",
+        option: "integrity",
+        phase: "validation",
+      });
+      await expect(
+        downloadManager.download({ ...params, integrity: { algorithm: "sha999", digest: "abcdef" } }),
+      ).rejects.toThrow(ConfigValidationError);
+      expect(params.window.webContents.downloadURL).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("history", () => {
+    it("should record finished downloads to the history store", async () => {
+      const historyStore = {
+        add: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn().mockResolvedValue({ entries: [], total: 0 }),
+        remove: jest.fn(),
+        clear: jest.fn(),
+      };
+
+      const { downloadData, item } = createMockDownloadData();
+      item.getState.mockReturnValue("completed");
+      item.getStartTime.mockReturnValue(1000);
+      downloadData.status = "completed";
+      downloadData.resolvedFilename = "test.txt";
+
+      const downloadManager = new ElectronDownloadManager({ history: historyStore });
+      downloadManager.downloadData = { [downloadData.id]: downloadData };
+      downloadManager.cleanup(downloadData);
+
+      expect(historyStore.add).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: downloadData.id,
+          url: "https://example.com/filename.txt",
+          savePath: "/path/to/save",
+          filename: "test.txt",
+          totalBytes: 1000,
+          receivedBytes: 900,
+          mimeType: "text/plain",
+          outcome: "completed",
+          startTime: 1000000,
+        }),
+      );
+
+      await downloadManager.getDownloadHistory({ limit: 10 });
+      expect(historyStore.query).toHaveBeenCalledWith({ limit: 10 });
+    });
+
+    it("should record a download whose checksum did not match as failed", async () => {
+      const historyStore = {
+        add: jest.fn().mockResolvedValue(undefined),
+        query: jest.fn(),
+        remove: jest.fn(),
+        clear: jest.fn(),
+      };
+
+      const { downloadData, item } = createMockDownloadData();
+      item.getState.mockReturnValue("completed");
+      downloadData.status = "failed";
+      downloadData.error = new ChecksumMismatchError({
+        algorithm: "sha256",
+        expected: ["abc"],
+        actual: "def",
+        filePath: "/path/to/save",
+      });
+
+      const downloadManager = new ElectronDownloadManager({ history: historyStore });
+      downloadManager.downloadData = { [downloadData.id]: downloadData };
+      downloadManager.cleanup(downloadData);
+
+      expect(historyStore.add).toHaveBeenCalledWith(
+        expect.objectContaining({ id: downloadData.id, outcome: "failed" }),
+      );
+    });
+
+    it("should not record downloads that are still in progress", () => {
+      const historyStore = { add: jest.fn(), query: jest.fn(), remove: jest.fn(), clear: jest.fn() };
+
+      const { downloadData, item } = createMockDownloadData();
+      item.getState.mockReturnValue("progressing");
+      downloadData.status = "progressing";
+
+      const downloadManager = new ElectronDownloadManager({ history: historyStore });
+      downloadManager.downloadData = { [downloadData.id]: downloadData };
+      downloadManager.cleanup(downloadData);
+
+      expect(historyStore.add).not.toHaveBeenCalled();
+    });
+
+    it("should return no entries if history is not enabled", async () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      await expect(downloadManager.getDownloadHistory()).resolves.toEqual({ entries: [], total: 0 });
+    });
+  });
+
+  describe("download state", () => {
+    let tmpDir: string;
+    let downloadStateFilePath: string;
+
+    beforeEach(async () => {
+      tmpDir = await mkdtemp(path.join(os.tmpdir(), "dl-state-"));
+      downloadStateFilePath = path.join(tmpDir, "state.json");
+    });
+
+    afterEach(async () => {
+      await rm(tmpDir, { recursive: true, force: true });
+    });
+
+    it("should save the state of in-progress downloads", async () => {
+      const { downloadData: inProgress, item } = createMockDownloadData();
+      item.getState.mockReturnValue("progressing");
+      item.getStartTime.mockReturnValue(1000);
+      inProgress.tags = ["updates"];
+      inProgress.finalSavePath = "/path/to/final";
+
+      const { downloadData: completed, item: completedItem } = createMockDownloadData();
+      completedItem.getState.mockReturnValue("completed");
+
+      const downloadManager = new ElectronDownloadManager({ downloadStateFilePath });
+      downloadManager.downloadData = { [inProgress.id]: inProgress, [completed.id]: completed };
+
+      const saved = await downloadManager.saveDownloadState();
+
+      expect(saved).toEqual([
+        {
+          id: inProgress.id,
+          urlChain: ["https://example.com/filename.txt"],
+          savePath: "/path/to/save",
+          resolvedFilename: inProgress.resolvedFilename,
+          mimeType: "text/plain",
+          receivedBytes: 900,
+          totalBytes: 1000,
+          eTag: "etag",
+          lastModified: "Wed, 21 Oct 2015 07:28:00 GMT",
+          startTime: 1000,
+          tags: ["updates"],
+          finalSavePath: "/path/to/final",
+        },
+      ]);
+      expect(JSON.parse(await readFile(downloadStateFilePath, "utf-8"))).toEqual(saved);
+    });
+
+    it("should stop saving the state periodically", () => {
+      jest.useFakeTimers();
+
+      try {
+        const downloadManager = new ElectronDownloadManager({
+          downloadStateFilePath,
+          downloadStateSaveIntervalMs: 1000,
+        });
+        const saveDownloadState = jest.spyOn(downloadManager, "saveDownloadState").mockResolvedValue([]);
+
+        jest.advanceTimersByTime(1000);
+        expect(saveDownloadState).toHaveBeenCalledTimes(1);
+
+        downloadManager.stopSavingDownloadState();
+        jest.advanceTimersByTime(5000);
+
+        expect(saveDownloadState).toHaveBeenCalledTimes(1);
+        expect(jest.getTimerCount()).toBe(0);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it("should restore saved downloads", async () => {
+      const savePath = path.join(tmpDir, "file.zip.part");
+      await writeFile(savePath, "partial");
+
+      const persisted = {
+        id: "abc123",
+        urlChain: ["https://example.com/file.zip"],
+        savePath,
+        resolvedFilename: "file.zip",
+        mimeType: "application/zip",
+        receivedBytes: 7,
+        totalBytes: 100,
+        eTag: "etag",
+        lastModified: "",
+        startTime: 1000,
+        finalSavePath: path.join(tmpDir, "file.zip"),
+      };
+
+      await writeFile(
+        downloadStateFilePath,
+        JSON.stringify([persisted, { ...persisted, id: "missing", savePath: path.join(tmpDir, "missing.zip") }]),
+      );
+
+      const session = {
+        once: jest.fn().mockImplementation((_event, handler) => {
+          handler(null, createMockDownloadData().item, {});
+        }),
+        createInterruptedDownload: jest.fn(),
+      };
+
+      const downloadManager = new ElectronDownloadManager({ downloadStateFilePath });
+      const ids = await downloadManager.restoreDownloads(session as any, { callbacks: {} });
+
+      expect(ids).toEqual(["abc123"]);
+      expect(session.createInterruptedDownload).toHaveBeenCalledTimes(1);
+      expect(session.createInterruptedDownload).toHaveBeenCalledWith({
+        path: savePath,
+        urlChain: ["https://example.com/file.zip"],
+        mimeType: "application/zip",
+        offset: 7,
+        length: 100,
+        lastModified: "",
+        eTag: "etag",
+        startTime: 1000,
+      });
+      expect(downloadManager.getDownloadData("abc123").resolvedFilename).toBe("file.zip");
+      expect(downloadManager.getDownloadData("abc123").finalSavePath).toBe(path.join(tmpDir, "file.zip"));
+    });
+  });
+
+  describe("events", () => {
+    it("should emit download events to manager-level listeners", () => {
+      const downloadManager = new ElectronDownloadManager();
+      const downloadData = new DownloadData();
+      const listener = jest.fn();
+
+      downloadManager.on("completed", listener);
+      downloadManager.dispatchEvent("completed", downloadData);
+
+      expect(listener).toHaveBeenCalledWith(downloadData);
+    });
+
+    it("should not throw when an error is dispatched without an error listener", () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      expect(() =>
+        downloadManager.dispatchEvent(
+          "error",
+          new DownloadManagerError("test", { code: "DOWNLOAD_FAILED", phase: "completion" }),
+        ),
+      ).not.toThrow();
+    });
+
+    it("should pass the event dispatcher to the download initiator", async () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      await downloadManager.download({
+        url: "https://example.com/test.txt",
+        window: {
+          webContents: {
+            session: { once: jest.fn().mockImplementation((_event, handler) => handler(null, {}, {})) },
+            downloadURL: jest.fn(),
+          },
+        } as any,
+        callbacks: {},
+      });
+
+      expect(DownloadInitiator).toHaveBeenCalledWith(
+        expect.objectContaining({ dispatchEvent: downloadManager.dispatchEvent }),
+      );
+    });
+
+    it("should pass the manager-level post-processing steps to the download initiator", async () => {
+      const step = { name: "scan", run: jest.fn() };
+      const downloadManager = new ElectronDownloadManager({ postProcessing: [step] });
+
+      await downloadManager.download({
+        url: "https://example.com/test.txt",
+        window: {
+          webContents: {
+            session: { once: jest.fn().mockImplementation((_event, handler) => handler(null, {}, {})) },
+            downloadURL: jest.fn(),
+          },
+        } as any,
+        callbacks: {},
+      });
+
+      expect(DownloadInitiator).toHaveBeenCalledWith(expect.objectContaining({ postProcessing: [step] }));
+    });
+  });
+
+  describe("aggregate progress", () => {
+    it("should combine the progress of the active downloads", () => {
+      const { downloadData: downloadData1, item: item1 } = createMockDownloadData();
+      const { downloadData: downloadData2, item: item2 } = createMockDownloadData();
+
+      downloadData1.status = "progressing";
+      item1.getReceivedBytes.mockReturnValue(100);
+      item1.getTotalBytes.mockReturnValue(200);
+      downloadData2.status = "progressing";
+      item2.getReceivedBytes.mockReturnValue(100);
+      item2.getTotalBytes.mockReturnValue(600);
+
+      const downloadManager = new ElectronDownloadManager();
+      downloadManager.downloadData = { [downloadData1.id]: downloadData1, [downloadData2.id]: downloadData2 };
+
+      expect(downloadManager.getAggregateProgress()).toMatchObject({
+        activeCount: 2,
+        receivedBytes: 200,
+        totalBytes: 800,
+        percentCompleted: 25,
+      });
+    });
+
+    it("should update the progress bar when a download event is dispatched", () => {
+      const window = { setProgressBar: jest.fn(), isDestroyed: jest.fn().mockReturnValue(false) };
+      const { downloadData, item } = createMockDownloadData();
+
+      downloadData.status = "progressing";
+      item.getReceivedBytes.mockReturnValue(50);
+      item.getTotalBytes.mockReturnValue(100);
+
+      const downloadManager = new ElectronDownloadManager({ progressIndicator: { window: window as any } });
+      downloadManager.downloadData = { [downloadData.id]: downloadData };
+      downloadManager.dispatchEvent("progress", downloadData);
+
+      expect(window.setProgressBar).toHaveBeenCalledWith(0.5);
+    });
+  });
+
+  describe("bulk control", () => {
+    function createDownloads() {
+      const { downloadData: progressing } = createMockDownloadData();
+      progressing.status = "progressing";
+      progressing.tags = ["updates"];
+
+      const { downloadData: paused, item: pausedItem } = createMockDownloadData();
+      paused.status = "paused";
+      pausedItem.isPaused.mockReturnValue(true);
+
+      const { downloadData: other } = createMockDownloadData();
+      other.status = "progressing";
+      other.webContents = {} as any;
+
+      const downloadManager = new ElectronDownloadManager();
+      downloadManager.downloadData = { [progressing.id]: progressing, [paused.id]: paused, [other.id]: other };
+
+      return { downloadManager, progressing, paused, other };
+    }
+
+    it("should list the downloads that match the filter", () => {
+      const { downloadManager, progressing, other } = createDownloads();
+
+      expect(downloadManager.listDownloads()).toHaveLength(3);
+      expect(downloadManager.listDownloads({ tag: "updates" })).toEqual([progressing]);
+      expect(downloadManager.listDownloads({ webContents: other.webContents })).toEqual([other]);
+    });
+
+    it("should cancel the downloads that match the filter", () => {
+      const { downloadManager, progressing, paused, other } = createDownloads();
+
+      const ids = downloadManager.cancelAll({ window: { webContents: other.webContents } as any });
+
+      expect(ids).toEqual([other.id]);
+      expect(other.item.cancel).toHaveBeenCalled();
+      expect(progressing.item.cancel).not.toHaveBeenCalled();
+      expect(paused.item.cancel).not.toHaveBeenCalled();
+    });
+
+    it("should only pause the downloads in progress", () => {
+      const { downloadManager, progressing, paused, other } = createDownloads();
+
+      expect(downloadManager.pauseAll().sort()).toEqual([progressing.id, other.id].sort());
+      expect(progressing.item.pause).toHaveBeenCalled();
+      expect(paused.item.pause).not.toHaveBeenCalled();
+    });
+
+    it("should only resume the paused downloads", () => {
+      const { downloadManager, progressing, paused } = createDownloads();
+
+      expect(downloadManager.resumeAll()).toEqual([paused.id]);
+      expect(paused.item.resume).toHaveBeenCalled();
+      expect(progressing.item.resume).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("attachToSession", () => {
+    function createSession() {
+      return { on: jest.fn(), off: jest.fn(), once: jest.fn() };
+    }
+
+    function createUserDownload(url = "https://example.com/filename.txt") {
+      const { item } = createMockDownloadData();
+      item.getURL.mockReturnValue(url);
+      item.getURLChain.mockReturnValue([url]);
+      return { event: { preventDefault: jest.fn() }, item, webContents: {} };
+    }
+
+    function getLatestInitiator() {
+      return (DownloadInitiator as jest.Mock).mock.results.at(-1)?.value;
+    }
+
+    it("should run downloads started by the user through the download flow", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const session = createSession();
+      const onDownloadStarted = jest.fn();
+      const policy = jest
+        .fn()
+        .mockReturnValue({ directory: "/downloads", tags: ["link"], callbacks: { onDownloadStarted } });
+
+      downloadManager.attachToSession(session as any, policy);
+
+      const { event, item, webContents } = createUserDownload();
+      session.on.mock.calls[0][1](event, item, webContents);
+      await new Promise(process.nextTick);
+
+      expect(policy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          item,
+          webContents,
+          url: "https://example.com/filename.txt",
+          filename: "filename.txt",
+        }),
+      );
+      expect(getLatestInitiator().generateOnWillDownload).toHaveBeenCalledWith({
+        directory: "/downloads",
+        callbacks: { onDownloadStarted },
+      });
+      expect(event.preventDefault).not.toHaveBeenCalled();
+
+      const [data] = downloadManager.listDownloads({ tag: "link" });
+      expect(data.url).toBe("https://example.com/filename.txt");
+    });
+
+    it("should set the save path before the listener returns when the policy shows the save dialog", () => {
+      const downloadManager = new ElectronDownloadManager();
+      const session = createSession();
+      const generateOnWillDownload = jest.fn(() => async (_event, item) => {
+        item.setSavePath("/downloads/filename.txt.part");
+        await new Promise(process.nextTick);
+      });
+
+      (DownloadInitiator as jest.Mock).mockImplementationOnce(() => ({ generateOnWillDownload }));
+      downloadManager.attachToSession(session as any, () => ({ saveDialogOptions: { title: "Save" } }));
+
+      const { event, item, webContents } = createUserDownload();
+      session.on.mock.calls[0][1](event, item, webContents);
+
+      expect(generateOnWillDownload).toHaveBeenCalledWith({ saveDialogOptions: { title: "Save" }, callbacks: {} });
+      expect(item.setSavePath).toHaveBeenCalledWith("/downloads/filename.txt.part");
+      expect(event.preventDefault).not.toHaveBeenCalled();
+    });
+
+    it("should reject the download if the policy returns false", () => {
+      const downloadManager = new ElectronDownloadManager();
+      const session = createSession();
+
+      downloadManager.attachToSession(session as any, () => false);
+
+      const { event, item, webContents } = createUserDownload();
+      session.on.mock.calls[0][1](event, item, webContents);
+
+      expect(event.preventDefault).toHaveBeenCalled();
+      expect(downloadManager.listDownloads()).toEqual([]);
+    });
+
+    it("should not treat downloads started by the manager as started by the user", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const session = createSession();
+      const policy = jest.fn().mockReturnValue({});
+
+      downloadManager.attachToSession(session as any, policy);
+
+      const downloadPromise = downloadManager.download({
+        url: "https://example.com/filename.txt",
+        window: { webContents: { session, downloadURL: jest.fn() } } as any,
+        callbacks: {},
+      });
+      await new Promise(process.nextTick);
+
+      expect(session.once).not.toHaveBeenCalled();
+
+      const { event, item, webContents } = createUserDownload();
+      session.on.mock.calls[0][1](event, item, webContents);
+
+      await expect(downloadPromise).resolves.toEqual(expect.any(String));
+      expect(policy).not.toHaveBeenCalled();
+    });
+
+    it("should route the restart of a retried download to the download instead of the policy", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const session = createSession();
+      const policy = jest.fn().mockReturnValue({});
+
+      downloadManager.attachToSession(session as any, policy);
+
+      const downloadPromise = downloadManager.download({
+        url: "https://example.com/filename.txt",
+        window: { webContents: { session, downloadURL: jest.fn() } } as any,
+        callbacks: {},
+        retry: { maxAttempts: 2 },
+      });
+      await new Promise(process.nextTick);
+
+      const listener = session.on.mock.calls[0][1];
+      const first = createUserDownload();
+      listener(first.event, first.item, first.webContents);
+      await downloadPromise;
+
+      // The initiator restarts the download from scratch after an interruption
+      const { onceWillDownload } = (DownloadInitiator as jest.Mock).mock.calls.at(-1)[0];
+      const restartHandler = jest.fn();
+      onceWillDownload(session, "https://example.com/filename.txt", restartHandler);
+
+      const restarted = createUserDownload();
+      listener(restarted.event, restarted.item, restarted.webContents);
+
+      expect(session.once).not.toHaveBeenCalled();
+      expect(restartHandler).toHaveBeenCalledWith(restarted.event, restarted.item, restarted.webContents);
+      expect(policy).not.toHaveBeenCalled();
+    });
+
+    it("should remove the listener when detached", () => {
+      const downloadManager = new ElectronDownloadManager();
+      const session = createSession();
+
+      const detach = downloadManager.attachToSession(session as any);
+      detach();
+
+      expect(session.off).toHaveBeenCalledWith("will-download", session.on.mock.calls[0][1]);
+    });
+  });
+
+  describe("downloadAndWait", () => {
+    function createParams(callbacks = {}) {
+      return {
+        url: "https://example.com/test.txt",
+        window: {
+          webContents: {
+            session: { once: jest.fn().mockImplementation((_event, handler) => handler(null, {}, {})) },
+            downloadURL: jest.fn(),
+          },
+        } as any,
+        callbacks: callbacks as any,
+      };
+    }
+
+    function getWrappedCallbacks() {
+      const initiator = (DownloadInitiator as jest.Mock).mock.results.at(-1)?.value;
+      return initiator.generateOnWillDownload.mock.calls[0][0].callbacks;
+    }
+
+    it("should resolve with the result once the download completes", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const onDownloadCompleted = jest.fn();
+
+      const resultPromise = downloadManager.downloadAndWait(createParams({ onDownloadCompleted }));
+      await new Promise(process.nextTick);
+
+      const { downloadData } = createMockDownloadData();
+      await getWrappedCallbacks().onDownloadCompleted(downloadData);
+
+      await expect(resultPromise).resolves.toEqual({
+        id: downloadData.id,
+        outcome: "completed",
+        savePath: "/path/to/save",
+        receivedBytes: 900,
+        totalBytes: 1000,
+        durationMs: expect.any(Number),
+        downloadData,
+      });
+      expect(onDownloadCompleted).toHaveBeenCalledWith(downloadData);
+    });
+
+    it("should resolve with the path returned by the post-processing steps", async () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      const resultPromise = downloadManager.downloadAndWait(createParams());
+      await new Promise(process.nextTick);
+
+      const { downloadData } = createMockDownloadData();
+      downloadData.processedFilePath = "/final/test.txt";
+      await getWrappedCallbacks().onDownloadCompleted(downloadData);
+
+      await expect(resultPromise).resolves.toEqual(expect.objectContaining({ savePath: "/final/test.txt" }));
+    });
+
+    it("should resolve with the cancelled outcome", async () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      const resultPromise = downloadManager.downloadAndWait(createParams());
+      await new Promise(process.nextTick);
+
+      await getWrappedCallbacks().onDownloadCancelled(createMockDownloadData().downloadData);
+
+      await expect(resultPromise).resolves.toEqual(expect.objectContaining({ outcome: "cancelled" }));
+    });
+
+    it("should resolve with the path of the existing file if the download was skipped", async () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      const resultPromise = downloadManager.downloadAndWait(createParams());
+      await new Promise(process.nextTick);
+
+      const { downloadData } = createMockDownloadData();
+      downloadData.existingFilePath = "/downloads/report.pdf";
+      await getWrappedCallbacks().onDownloadSkipped(downloadData);
+
+      await expect(resultPromise).resolves.toEqual(
+        expect.objectContaining({ outcome: "skipped", savePath: "/downloads/report.pdf" }),
+      );
+    });
+
+    it("should reject if the download ends without an outcome", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const onError = jest.fn();
+      const error = new Error("checksum mismatch");
+
+      const resultPromise = downloadManager.downloadAndWait(createParams({ onError }));
+      await new Promise(process.nextTick);
+
+      const id = Object.keys(downloadManager.downloadData)[0];
+      const data = downloadManager.getDownloadData(id);
+
+      getWrappedCallbacks().onError(error, data);
+      downloadManager.cleanup(data);
+
+      await expect(resultPromise).rejects.toEqual(expect.any(DownloadFailedError));
+      await expect(resultPromise).rejects.toMatchObject({ cause: error, downloadId: id });
+      expect(onError).toHaveBeenCalledWith(error, data);
+    });
+
+    it("should reject if the download is rejected in will-download", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const violation = new PolicyViolationError({ rule: "allowedMimeTypes", value: "text/plain" });
+
+      // Rejects the download synchronously, before download() has resolved with its id
+      (DownloadInitiator as jest.Mock).mockImplementationOnce(({ downloadData, onDownloadInit, onCleanup }) => ({
+        getDownloadId: () => downloadData.id,
+        generateOnWillDownload:
+          ({ callbacks }) =>
+          () => {
+            onDownloadInit(downloadData);
+            callbacks.onError(violation, downloadData);
+            onCleanup(downloadData);
+          },
+      }));
+
+      const resultPromise = downloadManager.downloadAndWait(createParams());
+
+      await expect(resultPromise).rejects.toEqual(expect.any(DownloadFailedError));
+      await expect(resultPromise).rejects.toMatchObject({ cause: violation, phase: "initialization" });
+      expect(downloadManager.downloadData).toEqual({});
+    });
+
+    it("should reject if the download fails to start", async () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      const result = downloadManager.downloadAndWait({
+        ...createParams(),
+        saveAsFilename: "a.txt",
+        saveDialogOptions: {},
+      });
+
+      await expect(result).rejects.toEqual(expect.any(DownloadFailedError));
+      await expect(result).rejects.toMatchObject({
+        code: "DOWNLOAD_FAILED",
+        phase: "validation",
+        cause: expect.any(ConfigValidationError),
+      });
+    });
+  });
+
+  describe("downloadBatch", () => {
+    function createConfig(url: string) {
+      return {
+        url,
+        window: {
+          webContents: {
+            session: { once: jest.fn().mockImplementation((_event, handler) => handler(null, {}, {})) },
+            downloadURL: jest.fn(),
+          },
+        } as any,
+        callbacks: {},
+      };
+    }
+
+    function getWrappedCallbacks(index: number) {
+      const initiators = (DownloadInitiator as jest.Mock).mock.results.slice(-2);
+      return initiators[index].value.generateOnWillDownload.mock.calls[0][0].callbacks;
+    }
+
+    it("should call onBatchCompleted once every file has ended", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const onFileFinished = jest.fn();
+      const onBatchCompleted = jest.fn();
+
+      const batchId = await downloadManager.downloadBatch(
+        [createConfig("https://example.com/a.txt"), createConfig("https://example.com/b.txt")],
+        { callbacks: { onFileFinished, onBatchCompleted } },
+      );
+
+      expect(downloadManager.getBatchDownloadIds(batchId)).toHaveLength(2);
+
+      await getWrappedCallbacks(0).onDownloadCompleted(createMockDownloadData().downloadData);
+      await getWrappedCallbacks(1).onDownloadCancelled(createMockDownloadData().downloadData);
+      await new Promise(process.nextTick);
+
+      expect(onFileFinished).toHaveBeenCalledTimes(2);
+      expect(onBatchCompleted).toHaveBeenCalledWith(
+        expect.objectContaining({
+          batchId,
+          outcome: "cancelled",
+          files: [
+            expect.objectContaining({ index: 0, outcome: "completed" }),
+            expect.objectContaining({ index: 1, outcome: "cancelled" }),
+          ],
+        }),
+      );
+      expect(downloadManager.getBatchDownloadIds(batchId)).toEqual([]);
+    });
+
+    it("should cancel the rest of the batch after a failure when the policy is cancel", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const cancelDownload = jest.spyOn(downloadManager, "cancelDownload").mockImplementation(() => {});
+
+      const batchId = await downloadManager.downloadBatch(
+        [createConfig("https://example.com/a.txt"), createConfig("https://example.com/b.txt")],
+        { failurePolicy: "cancel" },
+      );
+      const [, secondId] = downloadManager.getBatchDownloadIds(batchId);
+
+      await getWrappedCallbacks(0).onDownloadInterrupted(createMockDownloadData().downloadData);
+      await new Promise(process.nextTick);
+
+      expect(cancelDownload).toHaveBeenCalledWith(secondId);
+    });
+
+    it("should finish the batch when a file is rejected in will-download", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const cancelDownload = jest.spyOn(downloadManager, "cancelDownload").mockImplementation(() => {});
+      const onBatchCompleted = jest.fn();
+      const violation = new PolicyViolationError({ rule: "allowedExtensions", value: "a.exe" });
+
+      (DownloadInitiator as jest.Mock).mockImplementationOnce(({ downloadData, onDownloadInit, onCleanup }) => ({
+        getDownloadId: () => downloadData.id,
+        generateOnWillDownload:
+          ({ callbacks }) =>
+          () => {
+            onDownloadInit(downloadData);
+            callbacks.onError(violation, downloadData);
+            onCleanup(downloadData);
+          },
+      }));
+
+      const batchId = await downloadManager.downloadBatch(
+        [createConfig("https://example.com/a.exe"), createConfig("https://example.com/b.txt")],
+        { failurePolicy: "cancel", callbacks: { onBatchCompleted } },
+      );
+      await new Promise(process.nextTick);
+
+      // Only the second file has not ended
+      const [secondId] = downloadManager.getBatchDownloadIds(batchId);
+      expect(cancelDownload).toHaveBeenCalledWith(secondId);
+
+      await getWrappedCallbacks(1).onDownloadCancelled(createMockDownloadData().downloadData);
+      await new Promise(process.nextTick);
+
+      expect(onBatchCompleted).toHaveBeenCalledWith(
+        expect.objectContaining({
+          batchId,
+          outcome: "failed",
+          files: [
+            expect.objectContaining({ index: 0, outcome: "failed", error: expect.any(DownloadFailedError) }),
+            expect.objectContaining({ index: 1, outcome: "cancelled" }),
+          ],
+        }),
+      );
+    });
+
+    it("should cancel the files of a batch", async () => {
+      const downloadManager = new ElectronDownloadManager();
+      const cancelDownload = jest.spyOn(downloadManager, "cancelDownload").mockImplementation(() => {});
+
+      const batchId = await downloadManager.downloadBatch([createConfig("https://example.com/a.txt")]);
+      const [id] = downloadManager.getBatchDownloadIds(batchId);
+
+      expect(downloadManager.cancelBatch(batchId)).toBe(true);
+      expect(cancelDownload).toHaveBeenCalledWith(id);
+      expect(downloadManager.cancelBatch("unknown")).toBe(false);
+    });
+
+    it("should throw if the batch is empty", async () => {
+      const downloadManager = new ElectronDownloadManager();
+
+      await expect(downloadManager.downloadBatch([])).rejects.toThrow();
+    });
+  });
 });
@@ -0,0 +1,116 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { type DownloadHistoryEntry, JsonFileHistoryStore, queryHistoryEntries } from "../src";
+
+jest.mock("electron");
+
+function createEntry(overrides: Partial<DownloadHistoryEntry> = {}): DownloadHistoryEntry {
+  return {
+    id: "abc123",
+    url: "https://example.com/file.zip",
+    savePath: "/downloads/file.zip",
+    filename: "file.zip",
+    totalBytes: 1000,
+    receivedBytes: 1000,
+    mimeType: "application/zip",
+    outcome: "completed",
+    startTime: 1000,
+    endTime: 2000,
+    ...overrides,
+  };
+}
+
+describe("JsonFileHistoryStore", () => {
+  let tmpDir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), "dl-history-"));
+    filePath = path.join(tmpDir, "history.json");
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should throw if the file path is not absolute", () => {
+    expect(() => new JsonFileHistoryStore({ filePath: "history.json" })).toThrow(
+      Error("The `filePath` option must be an absolute path"),
+    );
+  });
+
+  it("should return no entries if the file does not exist", async () => {
+    const store = new JsonFileHistoryStore({ filePath });
+
+    await expect(store.query()).resolves.toEqual({ entries: [], total: 0 });
+  });
+
+  it("should persist entries to the file", async () => {
+    const store = new JsonFileHistoryStore({ filePath });
+    const entry = createEntry();
+
+    await store.add(entry);
+
+    expect(JSON.parse(await readFile(filePath, "utf-8"))).toEqual([entry]);
+    await expect(new JsonFileHistoryStore({ filePath }).query()).resolves.toEqual({ entries: [entry], total: 1 });
+  });
+
+  it("should keep only the newest entries", async () => {
+    const store = new JsonFileHistoryStore({ filePath, maxEntries: 2 });
+
+    await store.add(createEntry({ id: "a", endTime: 1 }));
+    await store.add(createEntry({ id: "b", endTime: 2 }));
+    await store.add(createEntry({ id: "c", endTime: 3 }));
+
+    const { entries } = await store.query();
+
+    expect(entries.map((entry) => entry.id)).toEqual(["c", "b"]);
+  });
+
+  it("should remove and clear entries", async () => {
+    const store = new JsonFileHistoryStore({ filePath });
+
+    await store.add(createEntry({ id: "a" }));
+    await store.add(createEntry({ id: "b" }));
+
+    await store.remove("a");
+    expect((await store.query()).entries.map((entry) => entry.id)).toEqual(["b"]);
+
+    await store.clear();
+    expect((await store.query()).total).toBe(0);
+  });
+});
+
+describe("queryHistoryEntries", () => {
+  const entries = [
+    createEntry({ id: "a", endTime: 1, outcome: "completed", url: "https://example.com/a.zip" }),
+    createEntry({ id: "b", endTime: 2, outcome: "cancelled", url: "https://example.com/b.pdf" }),
+    createEntry({ id: "c", endTime: 3, outcome: "completed", url: "https://other.com/c.zip" }),
+    createEntry({ id: "d", endTime: 4, outcome: "interrupted", url: "https://example.com/d.zip" }),
+  ];
+
+  it("should return entries newest first", () => {
+    expect(queryHistoryEntries(entries).entries.map((entry) => entry.id)).toEqual(["d", "c", "b", "a"]);
+  });
+
+  it("should filter by outcome", () => {
+    expect(queryHistoryEntries(entries, { outcome: "completed" }).entries.map((entry) => entry.id)).toEqual(["c", "a"]);
+  });
+
+  it("should filter by url", () => {
+    expect(queryHistoryEntries(entries, { url: "example.com" }).total).toBe(3);
+    expect(queryHistoryEntries(entries, { url: /\.zip$/ }).total).toBe(3);
+  });
+
+  it("should filter by time range", () => {
+    expect(queryHistoryEntries(entries, { since: 2, until: 4 }).entries.map((entry) => entry.id)).toEqual(["c", "b"]);
+  });
+
+  it("should paginate", () => {
+    const result = queryHistoryEntries(entries, { offset: 1, limit: 2 });
+
+    expect(result.entries.map((entry) => entry.id)).toEqual(["c", "b"]);
+    expect(result.total).toBe(4);
+  });
+});
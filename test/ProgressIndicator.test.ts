@@ -0,0 +1,83 @@
+import { BrowserWindow, app } from "electron";
+import { ProgressIndicator } from "../src";
+
+jest.mock("electron", () => ({
+  app: { setBadgeCount: jest.fn() },
+  BrowserWindow: { getAllWindows: jest.fn().mockReturnValue([]) },
+}));
+
+function createProgress(overrides = {}) {
+  return {
+    activeCount: 2,
+    pausedCount: 0,
+    queuedCount: 0,
+    totalBytes: 1000,
+    receivedBytes: 250,
+    downloadRateBytesPerSecond: 100,
+    estimatedTimeRemainingSeconds: 7.5,
+    percentCompleted: 25,
+    hasUnknownSize: false,
+    hasInterrupted: false,
+    ...overrides,
+  };
+}
+
+describe("ProgressIndicator", () => {
+  let window;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    window = { setProgressBar: jest.fn(), isDestroyed: jest.fn().mockReturnValue(false) };
+  });
+
+  it("should set the progress bar", () => {
+    new ProgressIndicator({ window }).update(createProgress());
+
+    expect(window.setProgressBar).toHaveBeenCalledWith(0.25);
+  });
+
+  it("should use all windows if no window is defined", () => {
+    (BrowserWindow.getAllWindows as jest.Mock).mockReturnValueOnce([window]);
+
+    new ProgressIndicator().update(createProgress());
+
+    expect(window.setProgressBar).toHaveBeenCalledWith(0.25);
+  });
+
+  it("should use the paused mode when all downloads are paused", () => {
+    new ProgressIndicator({ window }).update(createProgress({ pausedCount: 2 }));
+
+    expect(window.setProgressBar).toHaveBeenCalledWith(0.25, { mode: "paused" });
+  });
+
+  it("should use the error mode when a download was interrupted", () => {
+    new ProgressIndicator({ window }).update(createProgress({ hasInterrupted: true }));
+
+    expect(window.setProgressBar).toHaveBeenCalledWith(0.25, { mode: "error" });
+  });
+
+  it("should use the indeterminate mode when a size is unknown", () => {
+    new ProgressIndicator({ window }).update(createProgress({ hasUnknownSize: true }));
+
+    expect(window.setProgressBar).toHaveBeenCalledWith(2, { mode: "indeterminate" });
+  });
+
+  it("should remove the progress bar when there are no active downloads", () => {
+    new ProgressIndicator({ window }).update(createProgress({ activeCount: 0 }));
+
+    expect(window.setProgressBar).toHaveBeenCalledWith(-1);
+  });
+
+  it("should set the badge count when it changes", () => {
+    const indicator = new ProgressIndicator({ window, progressBar: false, badgeCount: true });
+
+    indicator.update(createProgress({ queuedCount: 1 }));
+    indicator.update(createProgress({ queuedCount: 1 }));
+    indicator.update(createProgress({ activeCount: 0 }));
+
+    expect(window.setProgressBar).not.toHaveBeenCalled();
+    expect(app.setBadgeCount).toHaveBeenCalledTimes(2);
+    expect(app.setBadgeCount).toHaveBeenNthCalledWith(1, 3);
+    expect(app.setBadgeCount).toHaveBeenNthCalledWith(2, 0);
+  });
+});
@@ -0,0 +1,94 @@
+import { EwmaRateEstimator, SlidingWindowRateEstimator } from "../src";
+
+jest.mock("electron");
+
+describe("SlidingWindowRateEstimator", () => {
+  it("should average the rate over the window", () => {
+    const estimator = new SlidingWindowRateEstimator({ windowMs: 2000, minReliableDurationMs: 2000 });
+
+    estimator.addSample(0, 0);
+    estimator.addSample(1000, 1000);
+    expect(estimator.getEstimate()).toEqual({
+      bytesPerSecond: 1000,
+      instantaneousBytesPerSecond: 1000,
+      reliable: false,
+    });
+
+    estimator.addSample(4000, 2000);
+    estimator.addSample(7000, 3000);
+
+    // The first second has left the window
+    expect(estimator.getEstimate()).toEqual({
+      bytesPerSecond: 3000,
+      instantaneousBytesPerSecond: 3000,
+      reliable: true,
+    });
+  });
+
+  it("should not count the time the download was paused", () => {
+    const estimator = new SlidingWindowRateEstimator();
+
+    estimator.addSample(0, 0);
+    estimator.addSample(1000, 1000);
+    estimator.pause();
+    expect(estimator.getEstimate().instantaneousBytesPerSecond).toBe(0);
+
+    estimator.addSample(1000, 61_000);
+    estimator.addSample(2000, 62_000);
+
+    expect(estimator.getEstimate().bytesPerSecond).toBe(1000);
+    expect(estimator.getEstimate().instantaneousBytesPerSecond).toBe(1000);
+  });
+
+  it("should start over when the download has been restarted", () => {
+    const estimator = new SlidingWindowRateEstimator();
+
+    estimator.addSample(0, 0);
+    estimator.addSample(5000, 1000);
+    estimator.addSample(0, 2000);
+    estimator.addSample(5000, 3000);
+
+    expect(estimator.getEstimate().bytesPerSecond).toBe(5000);
+  });
+
+  it("should keep the history of the samples", () => {
+    const estimator = new SlidingWindowRateEstimator({ maxSamples: 2 });
+
+    estimator.addSample(0, 0);
+    estimator.addSample(100, 1000);
+    estimator.addSample(200, 2000);
+
+    expect(estimator.getSamples()).toEqual([
+      { receivedBytes: 100, timeMs: 1000 },
+      { receivedBytes: 200, timeMs: 2000 },
+    ]);
+  });
+});
+
+describe("EwmaRateEstimator", () => {
+  it("should move the rate towards new measurements by their weight", () => {
+    const estimator = new EwmaRateEstimator({ halfLifeMs: 1000 });
+
+    estimator.addSample(0, 0);
+    estimator.addSample(1000, 1000);
+    expect(estimator.getEstimate().bytesPerSecond).toBe(1000);
+
+    // One half-life at 3000 bytes per second moves the rate halfway
+    estimator.addSample(4000, 2000);
+    expect(estimator.getEstimate().bytesPerSecond).toBe(2000);
+    expect(estimator.getEstimate().instantaneousBytesPerSecond).toBe(3000);
+  });
+
+  it("should be reliable once the rate has been measured for long enough", () => {
+    const estimator = new EwmaRateEstimator();
+
+    estimator.addSample(0, 0);
+    estimator.addSample(1000, 2000);
+    expect(estimator.getEstimate().reliable).toBe(false);
+
+    estimator.pause();
+    estimator.addSample(1000, 10_000);
+    estimator.addSample(2000, 11_000);
+    expect(estimator.getEstimate().reliable).toBe(true);
+  });
+});
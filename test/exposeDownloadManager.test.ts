@@ -0,0 +1,61 @@
+import { contextBridge, ipcRenderer } from "electron";
+import { DOWNLOAD_IPC_EVENT_CHANNEL, exposeDownloadManager, getIpcChannel } from "../src";
+
+jest.mock("electron", () => {
+  const { EventEmitter } = jest.requireActual("node:events");
+  const ipcRenderer = new EventEmitter();
+
+  ipcRenderer.invoke = jest.fn().mockResolvedValue(undefined);
+  ipcRenderer.send = jest.fn();
+
+  return {
+    ipcRenderer,
+    contextBridge: { exposeInMainWorld: jest.fn() },
+  };
+});
+
+describe("exposeDownloadManager", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    ipcRenderer.removeAllListeners();
+    (process as any).contextIsolated = true;
+  });
+
+  it("should expose the api in the main world", () => {
+    const api = exposeDownloadManager({ apiKey: "downloads" });
+
+    expect(contextBridge.exposeInMainWorld).toHaveBeenCalledWith("downloads", api);
+  });
+
+  it("should only expose the allowed operations", () => {
+    const api = exposeDownloadManager({ operations: ["download", "subscribe"] });
+
+    expect(Object.keys(api)).toEqual(["download", "subscribe"]);
+  });
+
+  it("should invoke the main process", async () => {
+    const api = exposeDownloadManager();
+
+    await api.pauseDownload?.("id");
+
+    expect(ipcRenderer.invoke).toHaveBeenCalledWith(getIpcChannel("pauseDownload"), "id");
+  });
+
+  it("should subscribe to download events", () => {
+    const api = exposeDownloadManager();
+    const listener = jest.fn();
+    const event = { type: "progress", data: { id: "id" } };
+
+    const unsubscribe = api.subscribe?.(listener);
+    ipcRenderer.emit(DOWNLOAD_IPC_EVENT_CHANNEL, {}, event);
+
+    expect(ipcRenderer.send).toHaveBeenCalledWith(getIpcChannel("subscribe"));
+    expect(listener).toHaveBeenCalledWith(event);
+
+    unsubscribe?.();
+    ipcRenderer.emit(DOWNLOAD_IPC_EVENT_CHANNEL, {}, event);
+
+    expect(ipcRenderer.send).toHaveBeenCalledWith(getIpcChannel("unsubscribe"));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,102 @@
+import { consoleLogAdapter, debugLogAdapter, pinoLogAdapter, winstonLogAdapter } from "../src";
+import { normalizeLogger } from "../src/logging";
+
+jest.mock("electron");
+
+const entry = {
+  level: "warn" as const,
+  message: "Download interrupted",
+  downloadId: "abc123",
+  event: "download-interrupted",
+  fields: { receivedBytes: 100, totalBytes: 1000 },
+};
+
+describe("logging", () => {
+  describe("debugLogAdapter", () => {
+    it("should prefix the message with the download id", () => {
+      const debugLogger = jest.fn();
+      const logger = debugLogAdapter(debugLogger);
+
+      logger.log(entry);
+      logger.log({ level: "debug", message: "Attaching to session" });
+
+      expect(debugLogger).toHaveBeenNthCalledWith(1, "[abc123] Download interrupted");
+      expect(debugLogger).toHaveBeenNthCalledWith(2, "Attaching to session");
+    });
+  });
+
+  describe("consoleLogAdapter", () => {
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should log to the console method of the level, from the given level", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+      const debug = jest.spyOn(console, "debug").mockImplementation(() => {});
+      const logger = consoleLogAdapter({ level: "info" });
+
+      logger.log(entry);
+      logger.log({ level: "debug", message: "Status changed" });
+
+      expect(warn).toHaveBeenCalledWith("[abc123] Download interrupted", {
+        event: "download-interrupted",
+        receivedBytes: 100,
+        totalBytes: 1000,
+      });
+      expect(debug).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("pinoLogAdapter", () => {
+    it("should call the method of the level with the fields, then the message", () => {
+      const pino = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+      pinoLogAdapter(pino).log(entry);
+
+      expect(pino.warn).toHaveBeenCalledWith(
+        { downloadId: "abc123", event: "download-interrupted", receivedBytes: 100, totalBytes: 1000 },
+        "Download interrupted",
+      );
+    });
+  });
+
+  describe("winstonLogAdapter", () => {
+    it("should log a single object with the level, message and fields", () => {
+      const winston = { log: jest.fn() };
+
+      winstonLogAdapter(winston).log(entry);
+
+      expect(winston.log).toHaveBeenCalledWith({
+        level: "warn",
+        message: "Download interrupted",
+        downloadId: "abc123",
+        event: "download-interrupted",
+        receivedBytes: 100,
+        totalBytes: 1000,
+      });
+    });
+  });
+
+  describe("normalizeLogger", () => {
+    it("should truncate the url field like the messages", () => {
+      const logger = { log: jest.fn() };
+      const url = `https://example.com/${"a".repeat(100)}`;
+
+      normalizeLogger(logger).log({ level: "info", message: "Queueing download", fields: { url } });
+
+      expect(logger.log).toHaveBeenCalledWith({
+        level: "info",
+        message: "Queueing download",
+        fields: { url: `${url.slice(0, 50)}...` },
+      });
+    });
+
+    it("should accept a debug logger function", () => {
+      const debugLogger = jest.fn();
+
+      normalizeLogger(debugLogger).log(entry);
+
+      expect(debugLogger).toHaveBeenCalledWith("[abc123] Download interrupted");
+    });
+  });
+});
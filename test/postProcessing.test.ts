@@ -0,0 +1,268 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { deflateRawSync, gzipSync } from "node:zlib";
+import {
+  ArchiveLimitError,
+  FileExistsError,
+  PathTraversalError,
+  type PostProcessingContext,
+  extractArchive,
+  moveFile,
+  setFilePermissions,
+} from "../src";
+import { createMockDownloadData } from "../src/__mocks__/DownloadData";
+
+jest.mock("electron");
+
+interface ArchiveEntry {
+  name: string;
+  content?: string;
+  mode?: number;
+}
+
+function createTar(entries: ArchiveEntry[]) {
+  const blocks: Buffer[] = [];
+
+  for (const { name, content, mode = 0o644 } of entries) {
+    const data = Buffer.from(content || "");
+    const header = Buffer.alloc(512);
+
+    header.write(name, 0, 100, "utf8");
+    header.write(`${mode.toString(8).padStart(7, "0")}\0`, 100, "ascii");
+    header.write(`${data.length.toString(8).padStart(11, "0")}\0`, 124, "ascii");
+    header.write(content === undefined ? "5" : "0", 156, "ascii");
+    header.write("ustar\0", 257, "ascii");
+
+    blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+  }
+
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+function createZip(entries: ArchiveEntry[]) {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const { name, content, mode = 0o644 } of entries) {
+    const nameBuffer = Buffer.from(name);
+    const data = deflateRawSync(Buffer.from(content || ""));
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(nameBuffer.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(3 << 8, 4);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(mode << 16, 38);
+    central.writeUInt32LE(offset, 42);
+
+    localParts.push(local, nameBuffer, data);
+    centralParts.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+function createContext(filePath: string): PostProcessingContext {
+  return {
+    filePath,
+    downloadData: createMockDownloadData().downloadData,
+    reportProgress: jest.fn(),
+  };
+}
+
+describe("post-processing steps", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), "dl-post-processing-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  describe("extractArchive", () => {
+    const entries = [
+      { name: "app/" },
+      { name: "app/readme.txt", content: "hello" },
+      { name: "app/bin/run.sh", content: "#!/bin/sh", mode: 0o755 },
+    ];
+
+    it("should extract a tar.gz archive next to it", async () => {
+      const archivePath = path.join(tmpDir, "app.tar.gz");
+      await writeFile(archivePath, gzipSync(createTar(entries)));
+      const context = createContext(archivePath);
+
+      const result = await extractArchive().run(context);
+
+      const directory = path.join(tmpDir, "app");
+      expect(result).toEqual({ filePath: directory });
+      expect(await readFile(path.join(directory, "app/readme.txt"), "utf8")).toBe("hello");
+      expect(await readFile(path.join(directory, "app/bin/run.sh"), "utf8")).toBe("#!/bin/sh");
+      expect(context.reportProgress).toHaveBeenLastCalledWith(100);
+
+      if (process.platform !== "win32") {
+        expect((await stat(path.join(directory, "app/bin/run.sh"))).mode & 0o777).toBe(0o755);
+      }
+    });
+
+    it("should extract a zip archive to the given directory and delete it", async () => {
+      const archivePath = path.join(tmpDir, "app.zip");
+      const directory = path.join(tmpDir, "out");
+      await writeFile(archivePath, createZip(entries));
+
+      const result = await extractArchive({ directory, deleteArchive: true }).run(createContext(archivePath));
+
+      expect(result).toEqual({ filePath: directory });
+      expect(await readFile(path.join(directory, "app/readme.txt"), "utf8")).toBe("hello");
+      await expect(stat(archivePath)).rejects.toThrow();
+    });
+
+    it("should use the format option over the extension", async () => {
+      const archivePath = path.join(tmpDir, "download.bin");
+      await writeFile(archivePath, createTar(entries));
+
+      const result = await extractArchive({ format: "tar" }).run(createContext(archivePath));
+
+      expect(result).toEqual({ filePath: `${archivePath}.extracted` });
+      expect(await readFile(path.join(`${archivePath}.extracted`, "app/readme.txt"), "utf8")).toBe("hello");
+    });
+
+    it("should fail if the format can't be detected", async () => {
+      const archivePath = path.join(tmpDir, "download.bin");
+      await writeFile(archivePath, "data");
+
+      await expect(extractArchive().run(createContext(archivePath))).rejects.toThrow(
+        `Unable to detect the archive format of ${archivePath}`,
+      );
+    });
+
+    it("should reject entries outside of the directory", async () => {
+      const tarPath = path.join(tmpDir, "evil.tar");
+      const zipPath = path.join(tmpDir, "evil.zip");
+      await writeFile(tarPath, createTar([{ name: "../evil.txt", content: "evil" }]));
+      await writeFile(zipPath, createZip([{ name: "../evil.txt", content: "evil" }]));
+
+      await expect(extractArchive().run(createContext(tarPath))).rejects.toThrow(PathTraversalError);
+      await expect(extractArchive().run(createContext(zipPath))).rejects.toThrow(PathTraversalError);
+      await expect(stat(path.join(tmpDir, "..", "evil.txt"))).rejects.toThrow();
+    });
+
+    it("should fail and delete the directory it created if the archive expands to more than the total size", async () => {
+      const archivePath = path.join(tmpDir, "bomb.zip");
+      const directory = path.join(tmpDir, "bomb");
+      await writeFile(
+        archivePath,
+        createZip([
+          { name: "a.txt", content: "a".repeat(800) },
+          { name: "b.txt", content: "b".repeat(800) },
+        ]),
+      );
+
+      await expect(extractArchive({ maxTotalSizeBytes: 1000 }).run(createContext(archivePath))).rejects.toMatchObject({
+        code: "ARCHIVE_LIMIT_EXCEEDED",
+        limit: "maxTotalSizeBytes",
+        maxValue: 1000,
+        entryName: "b.txt",
+      });
+      await expect(stat(directory)).rejects.toThrow();
+    });
+
+    it("should fail if an entry is larger than the entry size limit", async () => {
+      const archivePath = path.join(tmpDir, "app.tar.gz");
+      await writeFile(archivePath, gzipSync(createTar(entries)));
+
+      await expect(extractArchive({ maxEntrySizeBytes: 8 }).run(createContext(archivePath))).rejects.toMatchObject({
+        limit: "maxEntrySizeBytes",
+        entryName: "app/bin/run.sh",
+      });
+    });
+
+    it("should fail if the archive has more entries than the limit", async () => {
+      const tarPath = path.join(tmpDir, "app.tar");
+      const zipPath = path.join(tmpDir, "app.zip");
+      await writeFile(tarPath, createTar(entries));
+      await writeFile(zipPath, createZip(entries));
+
+      await expect(extractArchive({ maxEntries: 2 }).run(createContext(tarPath))).rejects.toThrow(ArchiveLimitError);
+      await expect(extractArchive({ maxEntries: 2 }).run(createContext(zipPath))).rejects.toMatchObject({
+        limit: "maxEntries",
+        maxValue: 2,
+      });
+    });
+
+    it("should fail if a file exists in the directory unless overwrite is set", async () => {
+      const archivePath = path.join(tmpDir, "app.zip");
+      const existingPath = path.join(tmpDir, "app", "app", "readme.txt");
+      await writeFile(archivePath, createZip(entries));
+      await extractArchive().run(createContext(archivePath));
+      await writeFile(existingPath, "changed");
+
+      await expect(extractArchive().run(createContext(archivePath))).rejects.toThrow(FileExistsError);
+      expect(await readFile(existingPath, "utf8")).toBe("changed");
+
+      await extractArchive({ overwrite: true }).run(createContext(archivePath));
+      expect(await readFile(existingPath, "utf8")).toBe("hello");
+    });
+  });
+
+  describe("moveFile", () => {
+    it("should move the file into the directory", async () => {
+      const filePath = path.join(tmpDir, "file.txt");
+      const directory = path.join(tmpDir, "final");
+      await writeFile(filePath, "content");
+
+      const result = await moveFile(directory).run(createContext(filePath));
+
+      expect(result).toEqual({ filePath: path.join(directory, "file.txt") });
+      expect(await readFile(path.join(directory, "file.txt"), "utf8")).toBe("content");
+      await expect(stat(filePath)).rejects.toThrow();
+    });
+
+    it("should fail if the file exists unless overwrite is set", async () => {
+      const filePath = path.join(tmpDir, "file.txt");
+      const directory = path.join(tmpDir, "final");
+      await writeFile(filePath, "new");
+      await moveFile(directory).run(createContext(filePath));
+      await writeFile(filePath, "newer");
+
+      await expect(moveFile(directory).run(createContext(filePath))).rejects.toThrow(FileExistsError);
+
+      await moveFile(directory, { overwrite: true }).run(createContext(filePath));
+      expect(await readFile(path.join(directory, "file.txt"), "utf8")).toBe("newer");
+    });
+  });
+
+  describe("setFilePermissions", () => {
+    it("should set the mode of the file", async () => {
+      const filePath = path.join(tmpDir, "run.sh");
+      await writeFile(filePath, "#!/bin/sh");
+
+      const result = await setFilePermissions(0o700).run(createContext(filePath));
+
+      expect(result).toBeUndefined();
+
+      if (process.platform !== "win32") {
+        expect((await stat(filePath)).mode & 0o777).toBe(0o700);
+      }
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import { EventEmitter } from "node:events";
+import { BrowserWindow, ipcMain } from "electron";
+import {
+  DOWNLOAD_IPC_EVENT_CHANNEL,
+  DownloadData,
+  ElectronDownloadManagerMock,
+  getIpcChannel,
+  registerIpcHandlers,
+} from "../src";
+
+jest.mock("electron", () => {
+  const { EventEmitter } = jest.requireActual("node:events");
+  const handlers = new Map();
+  const ipcMain = new EventEmitter();
+
+  ipcMain.handle = jest.fn((channel, handler) => handlers.set(channel, handler));
+  ipcMain.removeHandler = jest.fn((channel) => handlers.delete(channel));
+  ipcMain.invoke = (channel, event, ...args) => handlers.get(channel)(event, ...args);
+
+  return {
+    ipcMain,
+    BrowserWindow: { fromWebContents: jest.fn() },
+  };
+});
+
+function createSender(id: number) {
+  const sender = new EventEmitter() as any;
+  sender.id = id;
+  sender.send = jest.fn();
+  sender.isDestroyed = jest.fn().mockReturnValue(false);
+  return sender;
+}
+
+function createDownloadData(sender) {
+  const downloadData = new DownloadData();
+  downloadData.webContents = sender;
+  return downloadData;
+}
+
+describe("registerIpcHandlers", () => {
+  const invoke = (ipcMain as any).invoke;
+  let manager: ElectronDownloadManagerMock;
+  let unregister: () => void;
+  let sender;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new ElectronDownloadManagerMock();
+    sender = createSender(1);
+  });
+
+  afterEach(() => {
+    unregister?.();
+  });
+
+  it("should start a download in the window of the sender", async () => {
+    const window = { webContents: sender };
+    (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(window);
+    const downloadSpy = jest.spyOn(manager, "download");
+
+    unregister = registerIpcHandlers(manager);
+
+    const id = await invoke(getIpcChannel("download"), { sender }, { url: "https://example.com/file.zip" });
+
+    expect(id).toBe("mock-download-id");
+    expect(downloadSpy).toHaveBeenCalledWith({ url: "https://example.com/file.zip", window, callbacks: {} });
+  });
+
+  it("should only pass the options a renderer is allowed to set", async () => {
+    const window = { webContents: sender };
+    (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue(window);
+    const downloadSpy = jest.spyOn(manager, "download");
+
+    unregister = registerIpcHandlers(manager, { downloadConfig: { directory: "/downloads" } });
+
+    await invoke(
+      getIpcChannel("download"),
+      { sender },
+      {
+        url: "https://example.com/file.zip",
+        saveAsFilename: "../../.bashrc",
+        priority: 2,
+        tags: ["docs", 1],
+        saveDialogOptions: { title: "Save", defaultPath: "/etc/passwd" },
+        savePath: "/etc/passwd",
+        directory: "/etc",
+        overwrite: true,
+        conflictStrategy: "overwrite",
+        sanitizeFilename: false,
+        diskSpace: false,
+        staging: { directory: "/tmp" },
+      },
+    );
+
+    expect(downloadSpy).toHaveBeenCalledWith({
+      url: "https://example.com/file.zip",
+      saveAsFilename: ".._.._.bashrc",
+      priority: 2,
+      tags: ["docs"],
+      saveDialogOptions: { title: "Save" },
+      directory: "/downloads",
+      window,
+      callbacks: {},
+    });
+  });
+
+  it("should reject downloads that fail validation", () => {
+    (BrowserWindow.fromWebContents as jest.Mock).mockReturnValue({ webContents: sender });
+
+    unregister = registerIpcHandlers(manager, { validateDownload: (params) => params.url.startsWith("https://") });
+
+    expect(() => invoke(getIpcChannel("download"), { sender }, { url: "http://example.com/file.zip" })).toThrow(
+      "is not allowed",
+    );
+  });
+
+  it("should reject requests from senders that fail validation", () => {
+    unregister = registerIpcHandlers(manager, { validateSender: () => false });
+
+    expect(() => invoke(getIpcChannel("cancelDownload"), { sender }, "id")).toThrow("not allowed");
+  });
+
+  it("should only register the allowed operations", () => {
+    unregister = registerIpcHandlers(manager, { operations: ["getDownloadData"] });
+
+    expect(ipcMain.handle).toHaveBeenCalledTimes(1);
+    expect(ipcMain.handle).toHaveBeenCalledWith(getIpcChannel("getDownloadData"), expect.any(Function));
+    expect(ipcMain.listenerCount(getIpcChannel("subscribe"))).toBe(0);
+  });
+
+  it("should only control downloads started from the window of the sender", async () => {
+    const downloadData = createDownloadData(createSender(2));
+    jest.spyOn(manager, "getDownloadData").mockReturnValue(downloadData);
+    const cancelSpy = jest.spyOn(manager, "cancelDownload");
+
+    unregister = registerIpcHandlers(manager);
+
+    await invoke(getIpcChannel("cancelDownload"), { sender }, downloadData.id);
+    expect(await invoke(getIpcChannel("getDownloadData"), { sender }, downloadData.id)).toBeUndefined();
+    expect(cancelSpy).not.toHaveBeenCalled();
+
+    downloadData.webContents = sender;
+
+    await invoke(getIpcChannel("cancelDownload"), { sender }, downloadData.id);
+    expect(await invoke(getIpcChannel("getDownloadData"), { sender }, downloadData.id)).toMatchObject({
+      id: downloadData.id,
+      status: "pending",
+    });
+    expect(cancelSpy).toHaveBeenCalledWith(downloadData.id);
+  });
+
+  it("should forward events to subscribed senders", () => {
+    const otherSender = createSender(2);
+
+    unregister = registerIpcHandlers(manager);
+
+    ipcMain.emit(getIpcChannel("subscribe"), { sender });
+    ipcMain.emit(getIpcChannel("subscribe"), { sender: otherSender });
+
+    const downloadData = createDownloadData(sender);
+    manager.emit("progress", downloadData);
+    manager.emit("statusChanged", downloadData, "pending", "progressing");
+
+    expect(sender.send).toHaveBeenCalledWith(DOWNLOAD_IPC_EVENT_CHANNEL, {
+      type: "progress",
+      data: expect.objectContaining({ id: downloadData.id }),
+    });
+    expect(sender.send).toHaveBeenCalledWith(DOWNLOAD_IPC_EVENT_CHANNEL, {
+      type: "statusChanged",
+      data: expect.objectContaining({ id: downloadData.id }),
+      prevStatus: "pending",
+    });
+    expect(otherSender.send).not.toHaveBeenCalled();
+
+    ipcMain.emit(getIpcChannel("unsubscribe"), { sender });
+    manager.emit("progress", downloadData);
+
+    expect(sender.send).toHaveBeenCalledTimes(2);
+  });
+
+  it("should remove the handlers and listeners when unregistered", () => {
+    registerIpcHandlers(manager)();
+
+    expect(ipcMain.removeHandler).toHaveBeenCalledWith(getIpcChannel("download"));
+    expect(ipcMain.listenerCount(getIpcChannel("subscribe"))).toBe(0);
+    expect(manager.listenerCount("progress")).toBe(0);
+  });
+});
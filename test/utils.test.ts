@@ -1,13 +1,27 @@
-import { writeFile } from "node:fs/promises";
+import { mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import os from "node:os";
 import path from "node:path";
 import type { DownloadItem } from "electron";
 import {
+  calculateAggregateProgress,
   calculateDownloadMetrics,
+  calculateRetryDelay,
+  checkDownloadPolicy,
   determineFilePath,
   generateRandomId,
   getFilenameFromMime,
+  getFreeDiskSpace,
+  getStagingFilePath,
+  hashFile,
+  matchesDownloadFilter,
+  movePath,
+  parseIntegrity,
+  resolveConflictStrategy,
+  resolveFilenameTemplate,
+  sanitizeFilename,
   truncateUrl,
 } from "../src/utils";
+import { ConfigValidationError, PathTraversalError, PolicyViolationError } from "../src";
 import { createMockDownloadData } from "../src/__mocks__/DownloadData";
 
 jest.mock("electron");
@@ -32,9 +46,14 @@ describe("truncateUrl", () => {
 });
 
 describe("generateRandomId", () => {
-  test("it should generate a random ID of length 6", () => {
+  test("it should generate a random UUID", () => {
     const randomId = generateRandomId();
-    expect(randomId).toHaveLength(6);
+    expect(randomId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+  });
+
+  test("it should generate unique IDs in the same millisecond", () => {
+    const ids = new Set(Array.from({ length: 1000 }, () => generateRandomId()));
+    expect(ids.size).toBe(1000);
   });
 });
 
@@ -94,6 +113,175 @@ describe("determineFilePath", () => {
       Error("The `directory` option must be an absolute path"),
     );
   });
+
+  test("it should resolve the filename template", () => {
+    const item = {
+      getFilename: () => "report.pdf",
+      getMimeType: () => "application/pdf",
+      getStartTime: () => 0,
+      getURL: () => "https://example.com/report.pdf",
+    } as DownloadItem;
+    const result = determineFilePath({
+      directory: "/tmp/downloads",
+      filenameTemplate: "{host}-{name}{ext}",
+      item,
+      conflictStrategy: "overwrite",
+    });
+
+    expect(result).toEqual("/tmp/downloads/example.com-report.pdf");
+  });
+
+  test("it should not generate a unique filename for the skip, error and prompt strategies", async () => {
+    const item = { getFilename: () => "example.txt", getMimeType: () => "text/plain" } as DownloadItem;
+
+    await writeFile(path.join("/tmp", item.getFilename()), "test", { flag: "w", encoding: "utf-8" });
+
+    for (const conflictStrategy of ["skip", "error", "prompt"] as const) {
+      expect(determineFilePath({ directory: "/tmp", item, conflictStrategy })).toEqual("/tmp/example.txt");
+    }
+  });
+});
+
+describe("determineFilePath sanitization", () => {
+  const item = { getFilename: () => "../../.ssh/authorized_keys", getMimeType: () => "text/plain" } as DownloadItem;
+
+  test("it should sanitize the filename from the server", () => {
+    const result = determineFilePath({ directory: "/tmp/downloads", item, overwrite: true });
+
+    expect(result).toEqual("/tmp/downloads/.._.._.ssh_authorized_keys");
+  });
+
+  test("it should sanitize saveAsFilename", () => {
+    const result = determineFilePath({ directory: "/tmp/downloads", saveAsFilename: "../escape.txt", item });
+
+    expect(result).toEqual("/tmp/downloads/.._escape.txt");
+  });
+
+  test("it should use the sanitizeFilename hook", () => {
+    const result = determineFilePath({
+      directory: "/tmp/downloads",
+      saveAsFilename: "Report.PDF",
+      item,
+      sanitizeFilename: (filename) => filename.toLowerCase(),
+    });
+
+    expect(result).toEqual("/tmp/downloads/report.pdf");
+  });
+
+  test("it should throw a PathTraversalError if the path is outside of the directory", () => {
+    expect(() =>
+      determineFilePath({ directory: "/tmp/downloads", item, overwrite: true, sanitizeFilename: false }),
+    ).toThrow(PathTraversalError);
+    expect(() =>
+      determineFilePath({
+        directory: "/tmp/downloads",
+        saveAsFilename: "file.txt",
+        item,
+        sanitizeFilename: () => "../../file.txt",
+      }),
+    ).toThrow(PathTraversalError);
+  });
+
+  test("it should allow names that start with two dots", () => {
+    const result = determineFilePath({
+      directory: "/tmp/downloads",
+      saveAsFilename: "..file.txt",
+      item,
+      sanitizeFilename: false,
+    });
+
+    expect(result).toEqual("/tmp/downloads/..file.txt");
+  });
+});
+
+describe("sanitizeFilename", () => {
+  it("should replace path separators and characters that are not allowed on Windows", () => {
+    expect(sanitizeFilename('a/b\\c<d>e:f"g|h?i*.txt')).toBe("a_b_c_d_e_f_g_h_i_.txt");
+  });
+
+  it("should remove control and bidirectional characters", () => {
+    expect(sanitizeFilename("file\u0000\u001f\u007fname.txt")).toBe("filename.txt");
+    expect(sanitizeFilename("invoice\u202Efdp.exe")).toBe("invoicefdp.exe");
+  });
+
+  it("should remove leading and trailing whitespace, and trailing dots", () => {
+    expect(sanitizeFilename("  file.txt. . ")).toBe("file.txt");
+  });
+
+  it("should rename names reserved on Windows", () => {
+    expect(sanitizeFilename("CON")).toBe("_CON");
+    expect(sanitizeFilename("lpt1.txt")).toBe("_lpt1.txt");
+    expect(sanitizeFilename("console.txt")).toBe("console.txt");
+  });
+
+  it("should return a default name if nothing is left", () => {
+    expect(sanitizeFilename("")).toBe("download");
+    expect(sanitizeFilename("..")).toBe("download");
+    expect(sanitizeFilename(" . ")).toBe("download");
+  });
+
+  it("should shorten long names and keep the extension", () => {
+    const result = sanitizeFilename(`${"a".repeat(300)}.pdf`);
+
+    expect(Buffer.byteLength(result)).toBe(255);
+    expect(result.endsWith(".pdf")).toBe(true);
+  });
+
+  it("should not cut a multibyte character in half when shortening", () => {
+    const result = sanitizeFilename(`${"é".repeat(200)}.txt`);
+
+    expect(Buffer.byteLength(result)).toBeLessThanOrEqual(255);
+    expect(result).toBe(`${"é".repeat(125)}.txt`);
+  });
+});
+
+describe("resolveConflictStrategy", () => {
+  it("should return the conflict strategy if defined", () => {
+    expect(resolveConflictStrategy({ conflictStrategy: "skip", overwrite: true })).toBe("skip");
+  });
+
+  it("should overwrite if overwrite or saveAsFilename is defined", () => {
+    expect(resolveConflictStrategy({ overwrite: true })).toBe("overwrite");
+    expect(resolveConflictStrategy({ saveAsFilename: "file.txt" })).toBe("overwrite");
+  });
+
+  it("should uniquify by default", () => {
+    expect(resolveConflictStrategy({})).toBe("uniquify");
+  });
+});
+
+describe("resolveFilenameTemplate", () => {
+  const item = {
+    getFilename: () => "quarterly report.pdf",
+    getMimeType: () => "application/pdf",
+    // 2024-03-05 14:07:09 in local time
+    getStartTime: () => new Date(2024, 2, 5, 14, 7, 9).getTime() / 1000,
+    getURL: () => "https://reports.example.com/download?id=1",
+  } as DownloadItem;
+
+  it("should replace the placeholders with the details of the download", () => {
+    expect(resolveFilenameTemplate("{name}-{date:YYYYMMDD}{ext}", { item, id: "abc123" })).toBe(
+      "quarterly report-20240305.pdf",
+    );
+    expect(resolveFilenameTemplate("{host}-{id}{mimeExt}", { item, id: "abc123" })).toBe(
+      "reports.example.com-abc123.pdf",
+    );
+  });
+
+  it("should format the date", () => {
+    expect(resolveFilenameTemplate("{date}", { item, id: "" })).toBe("2024-03-05");
+    expect(resolveFilenameTemplate("{date:YYYY-MM-DD_HH.mm.ss}", { item, id: "" })).toBe("2024-03-05_14.07.09");
+  });
+
+  it("should add an extension based on the MIME type if the filename has none", () => {
+    const itemWithoutExt = { ...item, getFilename: () => "report" } as DownloadItem;
+
+    expect(resolveFilenameTemplate("{name}{ext}", { item: itemWithoutExt, id: "" })).toBe("report.pdf");
+  });
+
+  it("should leave unknown placeholders as is", () => {
+    expect(resolveFilenameTemplate("{name}-{unknown}{ext}", { item, id: "" })).toBe("quarterly report-{unknown}.pdf");
+  });
 });
 
 describe("calculateDownloadMetrics", () => {
@@ -125,7 +313,9 @@ describe("calculateDownloadMetrics", () => {
     expect(result).toEqual({
       percentCompleted: 20,
       downloadRateBytesPerSecond: 1,
+      instantaneousDownloadRateBytesPerSecond: 0,
       estimatedTimeRemainingSeconds: 4000, // 4000 bytes remaining at 1 byte/second
+      isEstimateReliable: false,
     });
   });
 
@@ -143,7 +333,9 @@ describe("calculateDownloadMetrics", () => {
     expect(result).toEqual({
       percentCompleted: 0,
       downloadRateBytesPerSecond: 0,
+      instantaneousDownloadRateBytesPerSecond: 0,
       estimatedTimeRemainingSeconds: 0,
+      isEstimateReliable: false,
     });
   });
 
@@ -183,8 +375,368 @@ describe("calculateDownloadMetrics", () => {
       expect(result).toEqual({
         percentCompleted: 99,
         downloadRateBytesPerSecond: 999,
+        instantaneousDownloadRateBytesPerSecond: 999,
         estimatedTimeRemainingSeconds: expect.any(Number),
+        isEstimateReliable: false,
+      });
+    });
+  });
+
+  describe("with a rate estimate", () => {
+    it("uses the smoothed rate of the estimate for the time remaining", () => {
+      mockedItemData.getReceivedBytes.mockReturnValue(1000);
+      mockedItemData.getTotalBytes.mockReturnValue(5000);
+      mockedItemData["getCurrentBytesPerSecond"] = undefined;
+      mockedItemData["getPercentComplete"] = undefined;
+
+      const result = calculateDownloadMetrics(mockedItemData, {
+        bytesPerSecond: 400,
+        instantaneousBytesPerSecond: 800,
+        reliable: true,
+      });
+
+      expect(result).toEqual({
+        percentCompleted: 20,
+        downloadRateBytesPerSecond: 400,
+        instantaneousDownloadRateBytesPerSecond: 800,
+        estimatedTimeRemainingSeconds: 10,
+        isEstimateReliable: true,
       });
     });
+
+    it("is not reliable if the size of the file is unknown", () => {
+      mockedItemData.getReceivedBytes.mockReturnValue(1000);
+      mockedItemData.getTotalBytes.mockReturnValue(0);
+
+      const result = calculateDownloadMetrics(mockedItemData, {
+        bytesPerSecond: 400,
+        instantaneousBytesPerSecond: 400,
+        reliable: true,
+      });
+
+      expect(result.estimatedTimeRemainingSeconds).toBe(0);
+      expect(result.isEstimateReliable).toBe(false);
+    });
+  });
+});
+
+describe("calculateRetryDelay", () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it("increases the delay exponentially", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+
+    const options = { maxAttempts: 5, initialDelayMs: 100, backoffFactor: 2 };
+
+    expect(calculateRetryDelay(1, options)).toBe(100);
+    expect(calculateRetryDelay(2, options)).toBe(200);
+    expect(calculateRetryDelay(3, options)).toBe(400);
+  });
+
+  it("does not exceed the max delay", () => {
+    jest.spyOn(Math, "random").mockReturnValue(0.5);
+
+    expect(calculateRetryDelay(10, { maxAttempts: 10, initialDelayMs: 1000, maxDelayMs: 5000 })).toBe(5000);
+  });
+
+  it("applies jitter in either direction", () => {
+    const options = { maxAttempts: 5, initialDelayMs: 1000, jitter: 0.2 };
+
+    jest.spyOn(Math, "random").mockReturnValue(0);
+    expect(calculateRetryDelay(1, options)).toBe(800);
+
+    jest.spyOn(Math, "random").mockReturnValue(1);
+    expect(calculateRetryDelay(1, options)).toBe(1200);
+  });
+});
+
+describe("parseIntegrity", () => {
+  it("parses digest options", () => {
+    expect(parseIntegrity({ algorithm: "SHA256", digest: "ABCDEF" })).toEqual({
+      algorithm: "sha256",
+      digests: ["abcdef"],
+      encoding: "hex",
+    });
+  });
+
+  it("parses a Subresource Integrity string", () => {
+    expect(parseIntegrity("sha256-abc=")).toEqual({ algorithm: "sha256", digests: ["abc="], encoding: "base64" });
+  });
+
+  it("uses the strongest algorithm of a Subresource Integrity string", () => {
+    expect(parseIntegrity("sha256-abc= sha512-def= sha512-ghi=?opt")).toEqual({
+      algorithm: "sha512",
+      digests: ["def=", "ghi="],
+      encoding: "base64",
+    });
+  });
+
+  it("throws on an unsupported Subresource Integrity string", () => {
+    expect(() => parseIntegrity("md5-abc=")).toThrow(Error("Unsupported integrity value: md5-abc="));
+  });
+
+  it("throws on a malformed Subresource Integrity string", () => {
+    expect(() => parseIntegrity("sha256-not*base64")).toThrow(ConfigValidationError);
+    expect(() => parseIntegrity("sha256-")).toThrow(ConfigValidationError);
+  });
+
+  it("throws on an unsupported algorithm", () => {
+    expect(() => parseIntegrity({ algorithm: "sha999", digest: "abcdef" })).toThrow(
+      Error("Unsupported integrity algorithm: sha999"),
+    );
+  });
+
+  it("throws on a malformed digest", () => {
+    expect(() => parseIntegrity({ algorithm: "sha256", digest: "xyz" })).toThrow(
+      Error("Malformed hex integrity digest: xyz"),
+    );
+  });
+
+  it("reports the phase the value was checked in", () => {
+    expect(() => parseIntegrity("md5-abc=", "validation")).toThrow(
+      expect.objectContaining({ option: "integrity", phase: "validation" }),
+    );
+  });
+});
+
+describe("hashFile", () => {
+  it("hashes the contents of a file", async () => {
+    const filePath = path.join("/tmp", "hash-test.txt");
+
+    await writeFile(filePath, "hello world", { flag: "w", encoding: "utf-8" });
+
+    await expect(hashFile(filePath, "sha256", "hex")).resolves.toBe(
+      "b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9",
+    );
+    await expect(hashFile(filePath, "md5", "base64")).resolves.toBe("XrY7u+Ae7tCTyyK7j1rNww==");
+  });
+
+  it("rejects if the file does not exist", async () => {
+    await expect(hashFile("/tmp/does-not-exist.txt", "sha256", "hex")).rejects.toThrow();
+  });
+});
+
+describe("getFreeDiskSpace", () => {
+  it("returns the free space of the volume", async () => {
+    await expect(getFreeDiskSpace(os.tmpdir())).resolves.toBeGreaterThan(0);
+  });
+
+  it("returns undefined if the directory does not exist", async () => {
+    await expect(getFreeDiskSpace(path.join(os.tmpdir(), "does-not-exist", "dir"))).resolves.toBeUndefined();
+  });
+});
+
+describe("staging", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await mkdtemp(path.join(os.tmpdir(), "dl-staging-"));
+  });
+
+  afterEach(async () => {
+    await rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should stage next to the file by default", () => {
+    expect(getStagingFilePath("/downloads/file.zip", "123", true)).toBe("/downloads/file.zip.123.part");
+    expect(getStagingFilePath("/downloads/file.zip", "123", {})).toBe("/downloads/file.zip.123.part");
+  });
+
+  it("should stage in the staging directory and create it", async () => {
+    const directory = path.join(tmpDir, "staging");
+
+    expect(getStagingFilePath("/downloads/file.zip", "123", { directory })).toBe(
+      path.join(directory, "123-file.zip.part"),
+    );
+    expect((await stat(directory)).isDirectory()).toBe(true);
+  });
+
+  it("should move a file", async () => {
+    const source = path.join(tmpDir, "file.zip.part");
+    const destination = path.join(tmpDir, "file.zip");
+    await writeFile(source, "content");
+
+    await movePath(source, destination);
+
+    expect(await readFile(destination, "utf8")).toBe("content");
+    await expect(stat(source)).rejects.toThrow();
+  });
+});
+
+describe("calculateAggregateProgress", () => {
+  function createDownload(status, receivedBytes, totalBytes, downloadRateBytesPerSecond = 0) {
+    const { downloadData, item } = createMockDownloadData();
+    downloadData.status = status;
+    downloadData.downloadRateBytesPerSecond = downloadRateBytesPerSecond;
+    item.getReceivedBytes.mockReturnValue(receivedBytes);
+    item.getTotalBytes.mockReturnValue(totalBytes);
+    return downloadData;
+  }
+
+  it("combines the progress of the active downloads", () => {
+    const progress = calculateAggregateProgress([
+      createDownload("progressing", 100, 400, 50),
+      createDownload("progressing", 300, 600, 100),
+      createDownload("paused", 100, 1000, 25),
+      createDownload("completed", 500, 500, 10),
+    ]);
+
+    expect(progress).toEqual({
+      activeCount: 3,
+      pausedCount: 1,
+      queuedCount: 0,
+      totalBytes: 2000,
+      receivedBytes: 500,
+      downloadRateBytesPerSecond: 150,
+      estimatedTimeRemainingSeconds: 10,
+      percentCompleted: 25,
+      hasUnknownSize: false,
+      hasInterrupted: false,
+    });
+  });
+
+  it("counts queued downloads separately", () => {
+    const queued = createDownload("queued", 0, 0);
+    queued.isDownloadQueued.mockReturnValue(true);
+
+    const progress = calculateAggregateProgress([queued, createDownload("progressing", 50, 100, 10)]);
+
+    expect(progress.queuedCount).toBe(1);
+    expect(progress.activeCount).toBe(1);
+    expect(progress.totalBytes).toBe(100);
+  });
+
+  it("does not estimate the time remaining if a size is unknown", () => {
+    const progress = calculateAggregateProgress([
+      createDownload("progressing", 50, 100, 10),
+      createDownload("progressing", 50, 0, 10),
+    ]);
+
+    expect(progress.hasUnknownSize).toBe(true);
+    expect(progress.estimatedTimeRemainingSeconds).toBe(0);
+  });
+
+  it("flags interrupted downloads", () => {
+    const progress = calculateAggregateProgress([createDownload("retrying", 50, 100, 10)]);
+
+    expect(progress.hasInterrupted).toBe(true);
+    expect(progress.downloadRateBytesPerSecond).toBe(0);
+  });
+});
+
+describe("matchesDownloadFilter", () => {
+  function createData() {
+    const { downloadData } = createMockDownloadData();
+    downloadData.status = "progressing";
+    downloadData.url = "https://example.com/updates/app.zip";
+    downloadData.tags = ["updates"];
+    return downloadData;
+  }
+
+  it("should match every download without a filter", () => {
+    expect(matchesDownloadFilter(createData())).toBe(true);
+    expect(matchesDownloadFilter(createData(), {})).toBe(true);
+  });
+
+  it("should match by status", () => {
+    const data = createData();
+
+    expect(matchesDownloadFilter(data, { status: "progressing" })).toBe(true);
+    expect(matchesDownloadFilter(data, { status: ["queued", "progressing"] })).toBe(true);
+    expect(matchesDownloadFilter(data, { status: "paused" })).toBe(false);
+  });
+
+  it("should match by window and webContents", () => {
+    const data = createData();
+
+    expect(matchesDownloadFilter(data, { webContents: data.webContents })).toBe(true);
+    expect(matchesDownloadFilter(data, { window: { webContents: data.webContents } as any })).toBe(true);
+    expect(matchesDownloadFilter(data, { webContents: {} as any })).toBe(false);
+  });
+
+  it("should match by url", () => {
+    const data = createData();
+
+    expect(matchesDownloadFilter(data, { url: "https://example.com/updates/app.zip" })).toBe(true);
+    expect(matchesDownloadFilter(data, { url: "https://example.com/updates" })).toBe(false);
+    expect(matchesDownloadFilter(data, { url: /\/updates\// })).toBe(true);
+  });
+
+  it("should match by tag", () => {
+    const data = createData();
+
+    expect(matchesDownloadFilter(data, { tag: "updates" })).toBe(true);
+    expect(matchesDownloadFilter(data, { tag: "courses" })).toBe(false);
+  });
+
+  it("should require every property to match", () => {
+    expect(matchesDownloadFilter(createData(), { tag: "updates", status: "paused" })).toBe(false);
+  });
+});
+
+describe("checkDownloadPolicy", () => {
+  it("should allow downloads that match the policy", () => {
+    const policy = {
+      allowedUrls: ["example.com"],
+      allowedMimeTypes: ["image/*", "application/pdf"],
+      allowedExtensions: [".png", "pdf"],
+      maxFileSizeBytes: 1000,
+    };
+
+    expect(
+      checkDownloadPolicy(policy, {
+        urls: ["https://cdn.example.com/image.png"],
+        mimeType: "image/png",
+        filename: "image.PNG",
+        totalBytes: 1000,
+      }),
+    ).toBeUndefined();
+    expect(checkDownloadPolicy(policy, { mimeType: "application/pdf; charset=binary" })).toBeUndefined();
+  });
+
+  it("should check every URL of the chain against the allowed and blocked patterns", () => {
+    const policy = { allowedUrls: ["example.com"], blockedUrls: [/\/private\//] };
+
+    expect(checkDownloadPolicy(policy, { urls: ["https://example.com/a", "https://evil.com/a"] })).toMatchObject({
+      rule: "allowedUrls",
+      value: "https://evil.com/a",
+    });
+    expect(checkDownloadPolicy(policy, { urls: ["https://notexample.com/a"] })).toMatchObject({ rule: "allowedUrls" });
+
+    const error = checkDownloadPolicy(policy, { urls: ["https://example.com/private/a"] });
+    expect(error).toBeInstanceOf(PolicyViolationError);
+    expect(error).toMatchObject({
+      rule: "blockedUrls",
+      value: "https://example.com/private/a",
+      pattern: /\/private\//,
+    });
+  });
+
+  it("should report the MIME type, extension and size rules", () => {
+    const policy = { allowedMimeTypes: ["image/*"], allowedExtensions: ["png"], maxFileSizeBytes: 100 };
+
+    expect(checkDownloadPolicy(policy, { mimeType: "text/html" })).toMatchObject({
+      rule: "allowedMimeTypes",
+      value: "text/html",
+    });
+    expect(checkDownloadPolicy(policy, { filename: "run.exe" })).toMatchObject({
+      rule: "allowedExtensions",
+      value: "run.exe",
+    });
+    expect(checkDownloadPolicy(policy, { totalBytes: 101 })).toMatchObject({ rule: "maxFileSizeBytes", value: 101 });
+    // The server did not send the size
+    expect(checkDownloadPolicy(policy, { totalBytes: 0 })).toBeUndefined();
+  });
+
+  it("should set the code and the phase of the error", () => {
+    const policy = { maxFileSizeBytes: 100 };
+
+    expect(checkDownloadPolicy(policy, { totalBytes: 101 })).toMatchObject({
+      code: "POLICY_VIOLATION",
+      phase: "initialization",
+    });
+    expect(checkDownloadPolicy(policy, { totalBytes: 101 }, "transfer")).toMatchObject({ phase: "transfer" });
   });
 });